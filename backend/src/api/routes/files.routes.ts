@@ -1,23 +1,110 @@
 import { Router, Request, Response } from 'express';
 import { authenticateToken } from '../../middleware/auth.middleware';
-import { fileUploadService } from '../../services/files/FileUploadService';
+import { fileUploadService, type FileListOptions } from '../../services/files/FileUploadService';
+import { folderService } from '../../services/files/FolderService';
 import { prisma } from '../../lib/prisma';
+import { z } from 'zod';
 
 const router = Router();
 
+const NUMERIC_FILTERS = [
+  'minWidth',
+  'maxWidth',
+  'minDepth',
+  'maxDepth',
+  'minHeight',
+  'maxHeight',
+  'minPrintTime',
+  'maxPrintTime',
+] as const;
+
+// Validation and folder errors come from the services; anything else is unexpected
+const libraryError = (res: Response, error: any, code: string, message: string) => {
+  if (error?.issues) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: 'Invalid input',
+        details: error.issues,
+      },
+    });
+  } else if (/^Folder not found/.test(error?.message)) {
+    res.status(404).json({
+      success: false,
+      error: {
+        code: 'FOLDER_NOT_FOUND',
+        message: error.message,
+      },
+    });
+  } else if (/not found$/.test(error?.message)) {
+    res.status(404).json({
+      success: false,
+      error: {
+        code: 'NOT_FOUND',
+        message: error.message,
+      },
+    });
+  } else if (/already has versions/.test(error?.message)) {
+    res.status(409).json({
+      success: false,
+      error: {
+        code: 'VERSION_CONFLICT',
+        message: error.message,
+      },
+    });
+  } else if (/already exists|is not empty|into itself/.test(error?.message)) {
+    res.status(409).json({
+      success: false,
+      error: {
+        code: 'FOLDER_CONFLICT',
+        message: error.message,
+      },
+    });
+  } else if (/^(Folder|File|Tags|A file|The file)/.test(error?.message)) {
+    res.status(400).json({
+      success: false,
+      error: {
+        code: 'VALIDATION_ERROR',
+        message: error.message,
+      },
+    });
+  } else {
+    console.error(`${message}:`, error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code,
+        message,
+      },
+    });
+  }
+};
+
 // GET /api/files
 router.get('/', authenticateToken, async (req: Request, res: Response) => {
   try {
-    const { page = '1', limit = '20', type, sort = 'date', order = 'desc' } = req.query;
+    const { page = '1', limit = '20', type, sort = 'date', order = 'desc', folderId, recursive, q, tags } = req.query;
     const userId = (req.user as any).userId;
 
-    const files = await fileUploadService.getUserFiles(userId, {
+    const options: FileListOptions = {
       type: type as string,
+      folderId: folderId as string,
+      recursive: recursive === 'true',
+      q: q as string,
+      tags: tags ? String(tags).split(',').filter(Boolean) : undefined,
       page: parseInt(page as string),
       limit: parseInt(limit as string),
       sort: sort as 'name' | 'date' | 'size',
       order: order as 'asc' | 'desc',
-    });
+    };
+    for (const filter of NUMERIC_FILTERS) {
+      if (req.query[filter] !== undefined) {
+        options[filter] = parseFloat(req.query[filter] as string);
+      }
+    }
+
+    const files = await fileUploadService.getUserFiles(userId, options);
 
     res.json({
       success: true,
@@ -35,6 +122,82 @@ router.get('/', authenticateToken, async (req: Request, res: Response) => {
   }
 });
 
+// Folder and tag endpoints are registered before /:id so "folders" and "tags" are not taken for file ids
+
+// GET /api/files/folders
+router.get('/folders', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const folders = await folderService.getTree((req.user as any).userId);
+
+    res.json({
+      success: true,
+      data: { folders },
+    });
+  } catch (error) {
+    libraryError(res, error, 'INTERNAL_ERROR', 'Failed to retrieve folders');
+  }
+});
+
+// POST /api/files/folders
+router.post('/folders', authenticateToken, async (req: Request, res: Response) => {
+  const schema = z.object({ name: z.string(), parentId: z.string().nullable().optional() });
+  try {
+    const { name, parentId } = schema.parse(req.body);
+    const folder = await folderService.create((req.user as any).userId, name, parentId ?? null);
+
+    res.status(201).json({
+      success: true,
+      data: { folder },
+    });
+  } catch (error) {
+    libraryError(res, error, 'INTERNAL_ERROR', 'Failed to create folder');
+  }
+});
+
+// PATCH /api/files/folders/:folderId - rename, or move with parentId (null for the top level)
+router.patch('/folders/:folderId', authenticateToken, async (req: Request, res: Response) => {
+  const schema = z.object({ name: z.string().optional(), parentId: z.string().nullable().optional() });
+  try {
+    const changes = schema.parse(req.body);
+    const folder = await folderService.update((req.user as any).userId, req.params.folderId, changes);
+
+    res.json({
+      success: true,
+      data: { folder },
+    });
+  } catch (error) {
+    libraryError(res, error, 'INTERNAL_ERROR', 'Failed to update folder');
+  }
+});
+
+// DELETE /api/files/folders/:folderId
+router.delete('/folders/:folderId', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    await folderService.delete((req.user as any).userId, req.params.folderId);
+
+    res.json({
+      success: true,
+      data: { message: 'Folder deleted successfully' },
+    });
+  } catch (error) {
+    libraryError(res, error, 'INTERNAL_ERROR', 'Failed to delete folder');
+  }
+});
+
+// GET /api/files/tags
+router.get('/tags', authenticateToken, async (req: Request, res: Response) => {
+  try {
+    const tags = await fileUploadService.getUserTags((req.user as any).userId);
+
+    res.json({
+      success: true,
+      data: { tags },
+    });
+  } catch (error) {
+    libraryError(res, error, 'INTERNAL_ERROR', 'Failed to retrieve tags');
+  }
+});
+
 // GET /api/files/:id
 router.get('/:id', authenticateToken, async (req: Request, res: Response): Promise<void> => {
   try {
@@ -51,6 +214,12 @@ router.get('/:id', authenticateToken, async (req: Request, res: Response): Promi
             username: true,
           },
         },
+        folder: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
         _count: {
           select: {
             printJobs: true,
@@ -102,14 +271,42 @@ router.post('/upload', authenticateToken, fileUploadService.getUploadMiddleware(
 
     const userId = (req.user as any).userId;
     const folder = req.body.folder;
+    // Multipart fields are strings: a comma-separated list
+    const tags = typeof req.body.tags === 'string' ? req.body.tags.split(',') : undefined;
+    const versionOf = req.body.versionOf || undefined;
 
-    const savedFile = await fileUploadService.processUploadedFile(req.file, userId, folder);
+    const { file, duplicate, versionCandidates } = await fileUploadService.processUploadedFile(req.file, userId, {
+      folder,
+      tags,
+      versionOf,
+    });
 
-    res.status(201).json({
+    // A duplicate is the user's existing file; nothing new was created
+    res.status(duplicate ? 200 : 201).json({
       success: true,
-      data: { file: savedFile },
+      data: { file, duplicate, versionCandidates },
     });
   } catch (error) {
+    if (error instanceof Error && /not found$/.test(error.message)) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: error.message,
+        },
+      });
+      return;
+    }
+    if (error instanceof Error && /^Storage quota exceeded/.test(error.message)) {
+      res.status(413).json({
+        success: false,
+        error: {
+          code: 'QUOTA_EXCEEDED',
+          message: error.message,
+        },
+      });
+      return;
+    }
     console.error('Upload error:', error);
     res.status(500).json({
       success: false,
@@ -121,6 +318,38 @@ router.post('/upload', authenticateToken, fileUploadService.getUploadMiddleware(
   }
 });
 
+// PATCH /api/files/:id - rename, move to a folder (null for none), replace the tags or join another file's versions
+router.patch('/:id', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  const schema = z.object({
+    originalName: z.string().optional(),
+    folderId: z.string().nullable().optional(),
+    tags: z.array(z.string()).optional(),
+    versionOf: z.string().optional(),
+  });
+  try {
+    const changes = schema.parse(req.body);
+    const file = await fileUploadService.updateFile(req.params.id, (req.user as any).userId, changes);
+
+    if (!file) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'File not found',
+        },
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: { file },
+    });
+  } catch (error) {
+    libraryError(res, error, 'INTERNAL_ERROR', 'Failed to update file');
+  }
+});
+
 // DELETE /api/files/:id
 router.delete('/:id', authenticateToken, async (req: Request, res: Response): Promise<void> => {
   try {
@@ -154,6 +383,38 @@ router.delete('/:id', authenticateToken, async (req: Request, res: Response): Pr
   }
 });
 
+// GET /api/files/:id/versions
+router.get('/:id/versions', authenticateToken, async (req: Request, res: Response): Promise<void> => {
+  try {
+    const versions = await fileUploadService.getVersions(req.params.id, (req.user as any).userId);
+
+    if (!versions) {
+      res.status(404).json({
+        success: false,
+        error: {
+          code: 'NOT_FOUND',
+          message: 'File not found',
+        },
+      });
+      return;
+    }
+
+    res.json({
+      success: true,
+      data: { versions },
+    });
+  } catch (error) {
+    console.error('Get file versions error:', error);
+    res.status(500).json({
+      success: false,
+      error: {
+        code: 'INTERNAL_ERROR',
+        message: 'Failed to retrieve file versions',
+      },
+    });
+  }
+});
+
 // GET /api/files/:id/download
 router.get('/:id/download', authenticateToken, async (req: Request, res: Response): Promise<void> => {
   try {
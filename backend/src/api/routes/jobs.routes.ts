@@ -1,14 +1,30 @@
 import { Router, Request, Response } from 'express';
+import { EventType, Severity } from '@prisma/client';
 import { authenticateToken, requireOperator } from '../../middleware/auth.middleware';
 import { prisma } from '../../lib/prisma';
+import { jobService } from '../../services/jobs/JobService';
+import { printerRegistry } from '../../services/printer/PrinterRegistry';
+import { queueService } from '../../services/jobs/QueueService';
+import { printEventService } from '../../services/jobs/PrintEventService';
+import { recoveryService } from '../../services/jobs/RecoveryService';
+import { temperatureLogService } from '../../services/telemetry/TemperatureLogService';
+import { z } from 'zod';
 
 const router = Router();
 
+// Queue and start requests may name a printer; without one the default printer is used
+const targetPrinter = (printerId: unknown, res: Response) => {
+	const printer = typeof printerId === 'string' && printerId ? printerRegistry.get(printerId) : printerRegistry.default;
+	if (!printer) res.status(404).json({ success: false, error: { code: 'PRINTER_NOT_FOUND', message: 'Printer not found' } });
+	return printer;
+};
+
 // GET /api/jobs
 router.get('/', authenticateToken, async (req: Request, res: Response) => {
-	const { status, page = '1', limit = '20' } = req.query;
+	const { status, printerId, page = '1', limit = '20' } = req.query;
 	const where: any = {};
 	if (status) where.status = String(status).toUpperCase();
+	if (printerId) where.printerId = String(printerId);
 	const skip = (parseInt(String(page)) - 1) * parseInt(String(limit));
 	const take = parseInt(String(limit));
 	const [items, total] = await Promise.all([
@@ -18,34 +34,235 @@ router.get('/', authenticateToken, async (req: Request, res: Response) => {
 	return res.json({ success: true, data: { jobs: items }, meta: { page: Number(page), limit: Number(limit), total, pages: Math.ceil(total / take) } });
 });
 
+// Queue endpoints are registered before /:id so "queue" is not taken for a job id
+router.get('/queue', authenticateToken, async (req: Request, res: Response) => {
+	const printer = targetPrinter(req.query.printerId, res);
+	if (!printer) return;
+	const queue = await queueService.getState(printer.id);
+	return res.json({ success: true, data: queue });
+});
+
+router.post('/queue', authenticateToken, requireOperator, async (req: Request, res: Response) => {
+	const schema = z.object({ fileId: z.string().min(1), front: z.boolean().optional().default(false), printerId: z.string().optional() });
+	try {
+		const { fileId, front, printerId } = schema.parse(req.body);
+		const printer = targetPrinter(printerId, res);
+		if (!printer) return;
+		const job = await queueService.enqueue((req.user as any).userId, fileId, printer.id, { front });
+		return res.status(201).json({ success: true, data: { job } });
+	} catch (e: any) {
+		if (e?.issues) return res.status(400).json({ success: false, error: { code: 'VALIDATION_ERROR', message: 'Invalid input', details: e.issues } });
+		return res.status(400).json({ success: false, error: { code: 'QUEUE_ERROR', message: e?.message || 'Failed to queue job' } });
+	}
+});
+
+router.put('/queue/order', authenticateToken, requireOperator, async (req: Request, res: Response) => {
+	const schema = z.object({ jobIds: z.array(z.string().min(1)), printerId: z.string().optional() });
+	try {
+		const { jobIds, printerId } = schema.parse(req.body);
+		const printer = targetPrinter(printerId, res);
+		if (!printer) return;
+		await queueService.reorder(printer.id, jobIds);
+		return res.json({ success: true, data: await queueService.getState(printer.id) });
+	} catch (e: any) {
+		if (e?.issues) return res.status(400).json({ success: false, error: { code: 'VALIDATION_ERROR', message: 'Invalid input', details: e.issues } });
+		return res.status(400).json({ success: false, error: { code: 'QUEUE_ERROR', message: e?.message || 'Failed to reorder queue' } });
+	}
+});
+
+router.post('/queue/bed-clear', authenticateToken, requireOperator, async (req: Request, res: Response) => {
+	const printer = targetPrinter(req.body?.printerId, res);
+	if (!printer) return;
+	await queueService.confirmBedClear(printer.id);
+	return res.json({ success: true, data: await queueService.getState(printer.id) });
+});
+
+router.post('/queue/:id/front', authenticateToken, requireOperator, async (req: Request, res: Response) => {
+	try {
+		const printerId = await queueService.moveToFront(req.params.id);
+		return res.json({ success: true, data: await queueService.getState(printerId) });
+	} catch (e: any) {
+		return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: e?.message || 'Job is not queued' } });
+	}
+});
+
+router.delete('/queue/:id', authenticateToken, requireOperator, async (req: Request, res: Response) => {
+	try {
+		const printerId = await queueService.remove(req.params.id);
+		return res.json({ success: true, data: await queueService.getState(printerId) });
+	} catch (e: any) {
+		return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: e?.message || 'Job is not queued' } });
+	}
+});
+
 // GET /api/jobs/:id
+// Power-loss recovery; the list endpoint is registered before /:id like the queue
+router.get('/recovery', authenticateToken, async (_req: Request, res: Response) => {
+	const jobs = await recoveryService.getInterruptedJobs();
+	return res.json({ success: true, data: { jobs } });
+});
+
+const recoveryQuery = z.object({ layer: z.coerce.number().int().min(1).optional() });
+
+const recoveryError = (res: Response, e: any) => {
+	if (e?.issues) return res.status(400).json({ success: false, error: { code: 'VALIDATION_ERROR', message: 'Invalid input', details: e.issues } });
+	if (/Printer not found/.test(e?.message)) return res.status(404).json({ success: false, error: { code: 'PRINTER_NOT_FOUND', message: e.message } });
+	if (/already in progress/.test(e?.message)) return res.status(409).json({ success: false, error: { code: 'PRINTER_BUSY', message: e.message } });
+	if (/not awaiting recovery/.test(e?.message)) return res.status(409).json({ success: false, error: { code: 'NOT_RECOVERABLE', message: e.message } });
+	if (/^Layer /.test(e?.message)) return res.status(400).json({ success: false, error: { code: 'INVALID_LAYER', message: e.message } });
+	return res.status(500).json({ success: false, error: { code: 'RECOVERY_ERROR', message: e?.message || 'Recovery failed' } });
+};
+
 router.get('/:id', authenticateToken, async (req: Request, res: Response) => {
 	const job = await prisma.printJob.findUnique({ where: { id: req.params.id } });
 	if (!job) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Job not found' } });
-	return res.json({ success: true, data: { job, events: [], temperatures: [] } });
+	const [events, { points: temperatures }] = await Promise.all([
+		printEventService.getTimeline(job.id),
+		temperatureLogService.getCurve(job.id),
+	]);
+	return res.json({ success: true, data: { job, events, temperatures } });
+});
+
+router.get('/:id/events', authenticateToken, async (req: Request, res: Response) => {
+	const schema = z.object({
+		type: z.union([z.nativeEnum(EventType), z.array(z.nativeEnum(EventType))]).optional(),
+		severity: z.nativeEnum(Severity).optional(),
+	});
+	try {
+		const { type, severity } = schema.parse(req.query);
+		const job = await prisma.printJob.findUnique({ where: { id: req.params.id } });
+		if (!job) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Job not found' } });
+		const events = await printEventService.getTimeline(job.id, {
+			types: type === undefined ? undefined : Array.isArray(type) ? type : [type],
+			minSeverity: severity,
+		});
+		return res.json({ success: true, data: events });
+	} catch (e: any) {
+		if (e?.issues) return res.status(400).json({ success: false, error: { code: 'VALIDATION_ERROR', message: 'Invalid input', details: e.issues } });
+		return res.status(500).json({ success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to load events' } });
+	}
+});
+
+// What resuming would skip and send, so the operator can review it before confirming
+router.get('/:id/recovery', authenticateToken, async (req: Request, res: Response) => {
+	try {
+		const { layer } = recoveryQuery.parse(req.query);
+		return res.json({ success: true, data: await recoveryService.getPlan(req.params.id, { layer }) });
+	} catch (e: any) {
+		return recoveryError(res, e);
+	}
+});
+
+router.post('/:id/recovery/resume', authenticateToken, requireOperator, async (req: Request, res: Response) => {
+	try {
+		const { layer } = recoveryQuery.parse(req.body ?? {});
+		return res.status(202).json({ success: true, data: await recoveryService.resume(req.params.id, { layer }) });
+	} catch (e: any) {
+		return recoveryError(res, e);
+	}
+});
+
+router.post('/:id/recovery/abandon', authenticateToken, requireOperator, async (req: Request, res: Response) => {
+	try {
+		await recoveryService.abandon(req.params.id);
+		return res.json({ success: true });
+	} catch (e: any) {
+		return recoveryError(res, e);
+	}
+});
+
+router.get('/:id/temperatures', authenticateToken, async (req: Request, res: Response) => {
+	const schema = z.object({ resolution: z.coerce.number().int().min(1).max(3600).optional() });
+	try {
+		const { resolution } = schema.parse(req.query);
+		const job = await prisma.printJob.findUnique({ where: { id: req.params.id } });
+		if (!job) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: 'Job not found' } });
+		return res.json({ success: true, data: await temperatureLogService.getCurve(job.id, resolution) });
+	} catch (e: any) {
+		if (e?.issues) return res.status(400).json({ success: false, error: { code: 'VALIDATION_ERROR', message: 'Invalid input', details: e.issues } });
+		return res.status(500).json({ success: false, error: { code: 'INTERNAL_ERROR', message: 'Failed to load temperatures' } });
+	}
 });
 
-// Placeholder start/pause/resume/cancel endpoints (DB only for now)
 router.post('/start', authenticateToken, requireOperator, async (req: Request, res: Response) => {
-	const { fileId } = req.body;
+	const { fileId, printerId } = req.body;
 	if (!fileId) return res.status(400).json({ success: false, error: { code: 'VALIDATION_ERROR', message: 'fileId required' } });
-	const job = await prisma.printJob.create({ data: { userId: (req.user as any).userId, fileId, status: 'PRINTING', progress: 0, startedAt: new Date() } as any });
-	return res.status(201).json({ success: true, data: { job } });
+	const printer = targetPrinter(printerId, res);
+	if (!printer) return;
+	if (printer.isPrinting) return res.status(409).json({ success: false, error: { code: 'PRINTER_BUSY', message: 'A print is already in progress' } });
+	const userId = (req.user as any).userId;
+	// Checked before the job exists, so a request that cannot print leaves nothing in the queue
+	const file = await prisma.file.findFirst({ where: { id: String(fileId), userId }, select: { fileType: true } });
+	if (!file) return res.status(404).json({ success: false, error: { code: 'FILE_NOT_FOUND', message: 'File not found or access denied' } });
+	if (file.fileType !== 'GCODE') return res.status(400).json({ success: false, error: { code: 'INVALID_FILE_TYPE', message: 'Only G-code files can be printed' } });
+
+	let jobId: string | null = null;
+	try {
+		jobId = (await jobService.createJob({ userId, fileId: String(fileId), printerId: printer.id })).id;
+		await printer.startPrint(jobId);
+		const job = await prisma.printJob.findUnique({ where: { id: jobId } });
+		return res.status(201).json({ success: true, data: { job } });
+	} catch (e: any) {
+		// A start that was refused before the job was prepared would otherwise be started later by the queue
+		if (jobId) await cancelUnstartedJob(jobId, e?.message || 'Failed to start print');
+		if (/already in progress/.test(e?.message)) return res.status(409).json({ success: false, error: { code: 'PRINTER_BUSY', message: e.message } });
+		if (/not connected|No printer port|disconnected by an operator/.test(e?.message)) {
+			return res.status(409).json({ success: false, error: { code: 'PRINTER_NOT_CONNECTED', message: e.message } });
+		}
+		return res.status(500).json({ success: false, error: { code: 'PRINTER_ERROR', message: e?.message || 'Failed to start print' } });
+	}
 });
 
+const cancelUnstartedJob = async (jobId: string, reason: string) => {
+	try {
+		const job = await prisma.printJob.findUnique({ where: { id: jobId }, select: { status: true } });
+		if (job?.status === 'QUEUED') await jobService.transitionJob(jobId, 'CANCELLED', { errorMessage: reason });
+	} catch (e) {
+		console.error('Failed to cancel a job that could not be started:', e);
+	}
+};
+
+// Pause/resume only apply to a job currently streaming to one of the printers
+const requireActiveJob = (req: Request, res: Response) => {
+	const printer = printerRegistry.running(req.params.id);
+	if (!printer) res.status(409).json({ success: false, error: { code: 'JOB_NOT_ACTIVE', message: 'Job is not the active print' } });
+	return printer;
+};
+
 router.post('/:id/pause', authenticateToken, requireOperator, async (req: Request, res: Response) => {
-	const job = await prisma.printJob.update({ where: { id: req.params.id }, data: { status: 'PAUSED' } as any });
-	return res.json({ success: true, data: { job } });
+	const printer = requireActiveJob(req, res);
+	if (!printer) return;
+	try {
+		await printer.pause();
+		const job = await prisma.printJob.findUnique({ where: { id: req.params.id } });
+		return res.json({ success: true, data: { job } });
+	} catch (e: any) {
+		return res.status(500).json({ success: false, error: { code: 'PRINTER_ERROR', message: e?.message || 'Pause failed' } });
+	}
 });
 
 router.post('/:id/resume', authenticateToken, requireOperator, async (req: Request, res: Response) => {
-	const job = await prisma.printJob.update({ where: { id: req.params.id }, data: { status: 'PRINTING' } as any });
-	return res.json({ success: true, data: { job } });
+	const printer = requireActiveJob(req, res);
+	if (!printer) return;
+	try {
+		await printer.resume();
+		const job = await prisma.printJob.findUnique({ where: { id: req.params.id } });
+		return res.json({ success: true, data: { job } });
+	} catch (e: any) {
+		return res.status(500).json({ success: false, error: { code: 'PRINTER_ERROR', message: e?.message || 'Resume failed' } });
+	}
 });
 
 router.post('/:id/cancel', authenticateToken, requireOperator, async (req: Request, res: Response) => {
-	const job = await prisma.printJob.update({ where: { id: req.params.id }, data: { status: 'CANCELLED', completedAt: new Date() } as any });
-	return res.json({ success: true, data: { job } });
+	try {
+		const printer = printerRegistry.running(req.params.id);
+		if (printer) await printer.cancel();
+		else await jobService.transitionJob(req.params.id, 'CANCELLED');
+		const job = await prisma.printJob.findUnique({ where: { id: req.params.id } });
+		return res.json({ success: true, data: { job } });
+	} catch (e: any) {
+		return res.status(409).json({ success: false, error: { code: 'INVALID_STATE', message: e?.message || 'Cancel failed' } });
+	}
 });
 
 export default router;
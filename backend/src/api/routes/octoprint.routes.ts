@@ -0,0 +1,223 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { promises as fs } from 'fs';
+import { authenticateApiKey } from '../../middleware/auth.middleware';
+import { printerOf, resolvePrinter } from '../../middleware/printer.middleware';
+import { prisma } from '../../lib/prisma';
+import { fileUploadService } from '../../services/files/FileUploadService';
+import { queueService } from '../../services/jobs/QueueService';
+import type PrinterService from '../../services/printer/PrinterService';
+
+/**
+ * The subset of the OctoPrint REST API that slicers use for "send to OctoPrint": version
+ * check, upload (optionally printing right away), job state and control, and printer state.
+ * Mounted at /octoprint/api for the default printer and /octoprint/printers/:printerId/api
+ * for the others, so a slicer's host URL is http://<server>/octoprint[/printers/<id>].
+ * Requests authenticate with a user's API key; errors use OctoPrint's { error } shape.
+ */
+const router = Router({ mergeParams: true });
+
+const API_VERSION = '0.1';
+// The OctoPrint release whose API this mirrors; slicers only check that `text` starts with "OctoPrint"
+const SERVER_VERSION = '1.10.0';
+
+const PRINT_ROLES = ['ADMIN', 'OPERATOR'];
+
+// File picked by an upload with select=true, started by the "start" job command; each user selects their own per printer
+const selectedFiles = new Map<string, string>();
+const selectionKey = (printer: PrinterService, req: Request) => `${printer.id}:${(req.user as any).userId}`;
+
+const fail = (res: Response, status: number, error: string) => res.status(status).json({ error });
+
+// Multipart fields arrive as strings
+const flag = (value: unknown) => value === true || value === 'true';
+
+// Upload with OctoPrint's status codes: 415 for file types that cannot be stored
+const upload = (req: Request, res: Response, next: NextFunction) => {
+	fileUploadService.getUploadMiddleware()(req, res, (error?: any) => {
+		if (!error) return next();
+		return fail(res, /Unsupported file type/.test(error.message) ? 415 : 400, error.message);
+	});
+};
+
+const canPrint = (req: Request) => PRINT_ROLES.includes((req.user as any).role);
+
+const stateText = (printer: PrinterService) => {
+	const status = printer.getStatus();
+	if (!status.connected) return 'Offline';
+	if (status.state === 'error') return 'Error';
+	if (status.state === 'printing') return 'Printing';
+	if (status.state === 'paused') return 'Paused';
+	return printer.isPrinting ? 'Starting' : 'Operational';
+};
+
+// Queues the file at the front; it starts at once unless the printer is busy or waits for the bed to be cleared
+const printFile = async (req: Request, printer: PrinterService, fileId: string) => {
+	const job = await queueService.enqueue((req.user as any).userId, fileId, printer.id, { front: true });
+	return printer.currentJobId === job.id;
+};
+
+router.use(authenticateApiKey, resolvePrinter);
+
+router.get('/version', (_req: Request, res: Response) => {
+	return res.json({ api: API_VERSION, server: SERVER_VERSION, text: `OctoPrint ${SERVER_VERSION} (LezerPrint)` });
+});
+
+router.get('/server', (_req: Request, res: Response) => {
+	return res.json({ version: SERVER_VERSION, safemode: null });
+});
+
+router.post('/files/local', upload, async (req: Request, res: Response) => {
+	const printer = printerOf(res);
+	if (!req.file) return fail(res, 400, 'No file included');
+	const print = flag(req.body.print);
+	const select = flag(req.body.select) || print;
+	if (print && !canPrint(req)) {
+		await fs.unlink(req.file.path).catch(() => {});
+		return fail(res, 403, 'Insufficient permissions to start prints');
+	}
+
+	try {
+		const { file } = await fileUploadService.processUploadedFile(req.file, (req.user as any).userId, { folder: req.body.path });
+		if (select) selectedFiles.set(selectionKey(printer, req), file.id);
+		const effectivePrint = print && file.fileType === 'GCODE' ? await printFile(req, printer, file.id) : false;
+
+		const base = `${req.protocol}://${req.get('host')}/api/files/${file.id}`;
+		return res.status(201).location(base).json({
+			files: {
+				local: {
+					name: file.originalName,
+					display: file.originalName,
+					path: file.originalName,
+					origin: 'local',
+					refs: { resource: base, download: `${base}/download` },
+				},
+			},
+			done: true,
+			effectiveSelect: select,
+			effectivePrint,
+		});
+	} catch (e: any) {
+		if (/^Storage quota exceeded/.test(e?.message)) return fail(res, 413, e.message);
+		return fail(res, 500, e?.message || 'Upload failed');
+	}
+});
+
+router.get('/job', async (_req: Request, res: Response) => {
+	const printer = printerOf(res);
+	const status = printer.getStatus();
+	const job = printer.currentJobId
+		? await prisma.printJob.findUnique({ where: { id: printer.currentJobId }, include: { file: true, user: { select: { username: true } } } })
+		: null;
+	const metadata = (job?.file.metadata ?? {}) as { estimatedPrintTime?: number; filamentLength?: number };
+
+	const completion = status.currentJob?.progress ?? job?.progress ?? null;
+	const printTime = job?.startedAt ? Math.round((Date.now() - job.startedAt.getTime()) / 1000) : null;
+	// The printer's live estimate, else the file's analysis, else extrapolated from progress
+	let printTimeLeft: number | null = status.currentJob?.remainingTime ?? null;
+	let printTimeLeftOrigin: string | null = printTimeLeft === null ? null : 'estimate';
+	if (printTimeLeft === null && printTime !== null && metadata.estimatedPrintTime) {
+		printTimeLeft = Math.max(0, metadata.estimatedPrintTime - printTime);
+		printTimeLeftOrigin = 'analysis';
+	} else if (printTimeLeft === null && printTime !== null && completion) {
+		printTimeLeft = Math.round((printTime * (100 - completion)) / completion);
+		printTimeLeftOrigin = 'linear';
+	}
+
+	return res.json({
+		job: {
+			file: {
+				name: job?.file.originalName ?? null,
+				origin: job ? 'local' : null,
+				size: job ? Number(job.file.fileSize) : null,
+				date: job ? Math.floor(job.file.createdAt.getTime() / 1000) : null,
+			},
+			estimatedPrintTime: metadata.estimatedPrintTime ?? job?.estimatedTime ?? null,
+			lastPrintTime: null,
+			filament: metadata.filamentLength ? { tool0: { length: metadata.filamentLength, volume: null } } : null,
+			user: job?.user.username ?? null,
+		},
+		progress: {
+			completion,
+			filepos: status.currentJob && 'bytesAcked' in status.currentJob ? status.currentJob.bytesAcked : null,
+			printTime,
+			printTimeLeft,
+			printTimeLeftOrigin,
+		},
+		state: stateText(printer),
+		error: status.error ?? undefined,
+	});
+});
+
+router.post('/job', async (req: Request, res: Response) => {
+	const printer = printerOf(res);
+	if (!canPrint(req)) return fail(res, 403, 'Insufficient permissions');
+	const { command, action } = req.body ?? {};
+
+	try {
+		switch (command) {
+			case 'start': {
+				const fileId = selectedFiles.get(selectionKey(printer, req));
+				if (!fileId) return fail(res, 409, 'No file selected');
+				if (printer.isPrinting) return fail(res, 409, 'Printer is already printing');
+				await printFile(req, printer, fileId);
+				break;
+			}
+			case 'cancel':
+				if (!printer.isPrinting) return fail(res, 409, 'Printer is neither printing nor paused');
+				await printer.cancel();
+				break;
+			case 'pause': {
+				const state = printer.getStatus().state;
+				const target = action === 'pause' || action === 'resume' ? action : state === 'paused' ? 'resume' : 'pause';
+				if (target === 'pause' && state !== 'printing') return fail(res, 409, 'Printer is not printing');
+				if (target === 'resume' && state !== 'paused') return fail(res, 409, 'Printer is not paused');
+				if (target === 'pause') await printer.pause();
+				else await printer.resume();
+				break;
+			}
+			default:
+				return fail(res, 400, `Unknown command: ${command}`);
+		}
+		return res.status(204).end();
+	} catch (e: any) {
+		return fail(res, 409, e?.message || 'Job command failed');
+	}
+});
+
+router.get('/printer', (req: Request, res: Response) => {
+	const printer = printerOf(res);
+	const status = printer.getStatus();
+	if (!status.connected) return fail(res, 409, 'Printer is not operational');
+	const exclude = String(req.query.exclude ?? '').split(',');
+	const { temperatures: t, firmware } = status;
+
+	const temperature: Record<string, { actual: number | null; target: number | null; offset: number }> = {
+		tool0: { actual: t.hotendTemp ?? null, target: t.hotendTarget ?? null, offset: 0 },
+		bed: { actual: t.bedTemp ?? null, target: t.bedTarget ?? null, offset: 0 },
+	};
+	if (firmware.capabilities.chamberTemperature) {
+		temperature.chamber = { actual: t.chamberTemp ?? null, target: t.chamberTarget ?? null, offset: 0 };
+	}
+	const error = status.state === 'error';
+	const flags = {
+		operational: true,
+		printing: status.state === 'printing',
+		paused: status.state === 'paused',
+		pausing: false,
+		cancelling: false,
+		resuming: false,
+		finishing: false,
+		sdReady: firmware.capabilities.sdCard,
+		error,
+		ready: !printer.isPrinting && !error,
+		closedOrError: error,
+	};
+
+	return res.json({
+		...(exclude.includes('temperature') ? {} : { temperature }),
+		...(exclude.includes('sd') ? {} : { sd: { ready: firmware.capabilities.sdCard } }),
+		...(exclude.includes('state') ? {} : { state: { text: stateText(printer), flags, error: status.error ?? '' } }),
+	});
+});
+
+export default router;
@@ -1,22 +1,100 @@
 import { Router, Request, Response } from 'express';
-import { authenticateToken, requireOperator } from '../../middleware/auth.middleware';
-import { printerService } from '../../services/printer/PrinterService';
+import { authenticateToken, requireAdmin, requireOperator } from '../../middleware/auth.middleware';
+import { printerOf, resolvePrinter } from '../../middleware/printer.middleware';
+import { printerRegistry } from '../../services/printer/PrinterRegistry';
+import { COMMON_BAUD_RATES, listPorts, probePort } from '../../services/printer/PortDiscovery';
 import { z } from 'zod';
 
-const router = Router();
+// Mounted at /api/printers/:printerId and, for the default printer, at /api/printer
+const router = Router({ mergeParams: true });
 
-router.get('/status', authenticateToken, async (_req: Request, res: Response) => {
-	return res.json({ success: true, data: printerService.getStatus() });
+// Authenticated first so an unknown printer id is not told apart from a missing token
+router.use(authenticateToken, resolvePrinter);
+
+router.get('/status', async (_req: Request, res: Response) => {
+	return res.json({ success: true, data: printerOf(res).getStatus() });
+});
+
+router.get('/connection', async (_req: Request, res: Response) => {
+	return res.json({ success: true, data: printerOf(res).getConnection() });
+});
+
+router.get('/ports', requireOperator, async (_req: Request, res: Response) => {
+	try {
+		return res.json({ success: true, data: { ports: await listPorts() } });
+	} catch (e: any) {
+		return res.status(500).json({ success: false, error: { code: 'PRINTER_ERROR', message: e?.message || 'Failed to list ports' } });
+	}
+});
+
+// Probes one port, or every candidate except those in use by a printer, at common baud rates with M115
+router.post('/ports/probe', requireOperator, async (req: Request, res: Response) => {
+	const schema = z.object({
+		path: z.string().min(1).optional(),
+		baudRates: z.array(z.number().int().positive()).min(1).optional(),
+	});
+	try {
+		const { path, baudRates } = schema.parse(req.body ?? {});
+		const connections = printerRegistry.list().map((printer) => ({ printer, ...printer.getConnection() }));
+		const paths = path ? [path] : (await listPorts()).map((p) => p.path);
+		const results = [];
+		for (const candidate of paths) {
+			const connection = connections.find((c) => c.connected && c.path === candidate);
+			if (connection) {
+				results.push({
+					path: candidate,
+					baudRate: connection.baudRate,
+					firmware: connection.firmware,
+					connected: true,
+					printer: { id: connection.printer.id, name: connection.printer.name },
+				});
+				continue;
+			}
+			results.push(await probePort(candidate, baudRates ?? COMMON_BAUD_RATES));
+		}
+		return res.json({ success: true, data: { results } });
+	} catch (e: any) {
+		if (e?.issues) return res.status(400).json({ success: false, error: { code: 'VALIDATION_ERROR', message: 'Invalid input', details: e.issues } });
+		return res.status(500).json({ success: false, error: { code: 'PRINTER_ERROR', message: e?.message || 'Probe failed' } });
+	}
+});
+
+router.post('/connect', requireOperator, async (req: Request, res: Response) => {
+	const schema = z.object({
+		path: z.string().min(1).optional(),
+		baudRate: z.number().int().positive().optional(),
+		save: z.boolean().optional().default(true),
+	});
+	try {
+		const body = schema.parse(req.body ?? {});
+		const printer = printerOf(res);
+		const owner = body.path ? printerRegistry.portOwner(body.path, printer.id) : undefined;
+		if (owner) return res.status(409).json({ success: false, error: { code: 'PORT_IN_USE', message: `Port ${body.path} is in use by ${owner.name}` } });
+		return res.json({ success: true, data: await printer.connect(body) });
+	} catch (e: any) {
+		if (e?.issues) return res.status(400).json({ success: false, error: { code: 'VALIDATION_ERROR', message: 'Invalid input', details: e.issues } });
+		if (/while printing/.test(e?.message)) return res.status(409).json({ success: false, error: { code: 'PRINTER_BUSY', message: e.message } });
+		return res.status(500).json({ success: false, error: { code: 'CONNECTION_ERROR', message: e?.message || 'Connect failed' } });
+	}
+});
+
+router.post('/disconnect', requireOperator, async (_req: Request, res: Response) => {
+	try {
+		await printerOf(res).disconnect();
+		return res.json({ success: true, data: printerOf(res).getConnection() });
+	} catch (e: any) {
+		return res.status(409).json({ success: false, error: { code: 'PRINTER_BUSY', message: e?.message || 'Disconnect failed' } });
+	}
 });
 
-router.post('/command', authenticateToken, requireOperator, async (req: Request, res: Response) => {
+router.post('/command', requireOperator, async (req: Request, res: Response) => {
 	const schema = z.object({
 		command: z.string().min(1).max(120),
 		wait: z.boolean().optional().default(true),
 	});
 	try {
 		const { command, wait } = schema.parse(req.body);
-		const response = await printerService.sendCommand(command, wait);
+		const response = await printerOf(res).sendCommand(command, wait);
 		return res.json({ success: true, data: { response } });
 	} catch (e: any) {
 		if (e?.issues) return res.status(400).json({ success: false, error: { code: 'VALIDATION_ERROR', message: 'Invalid input', details: e.issues } });
@@ -24,11 +102,11 @@ router.post('/command', authenticateToken, requireOperator, async (req: Request,
 	}
 });
 
-router.post('/home', authenticateToken, requireOperator, async (req: Request, res: Response) => {
+router.post('/home', requireOperator, async (req: Request, res: Response) => {
 	const schema = z.object({ axes: z.union([z.literal('all'), z.array(z.enum(['X', 'Y', 'Z']))]).default('all') });
 	try {
 		const { axes } = schema.parse(req.body);
-		await printerService.home(axes as any);
+		await printerOf(res).home(axes as any);
 		return res.json({ success: true });
 	} catch (e: any) {
 		if (e?.issues) return res.status(400).json({ success: false, error: { code: 'VALIDATION_ERROR', message: 'Invalid input', details: e.issues } });
@@ -36,11 +114,11 @@ router.post('/home', authenticateToken, requireOperator, async (req: Request, re
 	}
 });
 
-router.post('/move', authenticateToken, requireOperator, async (req: Request, res: Response) => {
+router.post('/move', requireOperator, async (req: Request, res: Response) => {
 	const schema = z.object({ axis: z.enum(['X', 'Y', 'Z', 'E']), distance: z.number(), speed: z.number().min(1).max(10000) });
 	try {
 		const { axis, distance, speed } = schema.parse(req.body);
-		await printerService.move(axis, distance, speed);
+		await printerOf(res).move(axis, distance, speed);
 		return res.json({ success: true });
 	} catch (e: any) {
 		if (e?.issues) return res.status(400).json({ success: false, error: { code: 'VALIDATION_ERROR', message: 'Invalid input', details: e.issues } });
@@ -48,36 +126,136 @@ router.post('/move', authenticateToken, requireOperator, async (req: Request, re
 	}
 });
 
-router.post('/temperature', authenticateToken, requireOperator, async (req: Request, res: Response) => {
+router.post('/temperature', requireOperator, async (req: Request, res: Response) => {
 	const schema = z.object({ hotend: z.number().min(0).max(300).optional(), bed: z.number().min(0).max(120).optional(), chamber: z.number().min(0).max(80).optional() });
 	try {
 		const body = schema.parse(req.body);
-		await printerService.setTemperature(body);
+		await printerOf(res).setTemperature(body);
 		return res.json({ success: true });
 	} catch (e: any) {
 		if (e?.issues) return res.status(400).json({ success: false, error: { code: 'VALIDATION_ERROR', message: 'Invalid input', details: e.issues } });
+		if (/not supported/.test(e?.message)) return res.status(400).json({ success: false, error: { code: 'NOT_SUPPORTED', message: e.message } });
 		return res.status(500).json({ success: false, error: { code: 'PRINTER_ERROR', message: e?.message || 'Set temperature failed' } });
 	}
 });
 
-router.post('/emergency-stop', authenticateToken, requireOperator, async (_req: Request, res: Response) => {
-	await printerService.emergencyStop();
+router.post('/emergency-stop', requireOperator, async (_req: Request, res: Response) => {
+	await printerOf(res).emergencyStop();
 	return res.json({ success: true });
 });
 
-router.post('/pause', authenticateToken, requireOperator, async (_req: Request, res: Response) => {
-	await printerService.pause();
-	return res.json({ success: true });
+router.post('/pause', requireOperator, async (_req: Request, res: Response) => {
+	try {
+		await printerOf(res).pause();
+		return res.json({ success: true });
+	} catch (e: any) {
+		return res.status(500).json({ success: false, error: { code: 'PRINTER_ERROR', message: e?.message || 'Pause failed' } });
+	}
 });
 
-router.post('/resume', authenticateToken, requireOperator, async (_req: Request, res: Response) => {
-	await printerService.resume();
-	return res.json({ success: true });
+router.post('/resume', requireOperator, async (_req: Request, res: Response) => {
+	try {
+		await printerOf(res).resume();
+		return res.json({ success: true });
+	} catch (e: any) {
+		if (/not supported/.test(e?.message)) return res.status(400).json({ success: false, error: { code: 'NOT_SUPPORTED', message: e.message } });
+		return res.status(500).json({ success: false, error: { code: 'PRINTER_ERROR', message: e?.message || 'Resume failed' } });
+	}
+});
+
+// Dialog the firmware raised with //action:prompt_show, answered with M876
+router.get('/prompt', async (_req: Request, res: Response) => {
+	return res.json({ success: true, data: { prompt: printerOf(res).prompt } });
+});
+
+router.post('/prompt', requireOperator, async (req: Request, res: Response) => {
+	const schema = z.object({ choice: z.number().int().min(0) });
+	try {
+		const { choice } = schema.parse(req.body);
+		await printerOf(res).answerPrompt(choice);
+		return res.json({ success: true });
+	} catch (e: any) {
+		if (e?.issues) return res.status(400).json({ success: false, error: { code: 'VALIDATION_ERROR', message: 'Invalid input', details: e.issues } });
+		if (/No prompt/.test(e?.message)) return res.status(404).json({ success: false, error: { code: 'NOT_FOUND', message: e.message } });
+		if (/not supported/.test(e?.message)) return res.status(400).json({ success: false, error: { code: 'NOT_SUPPORTED', message: e.message } });
+		if (/Invalid prompt choice/.test(e?.message)) return res.status(400).json({ success: false, error: { code: 'VALIDATION_ERROR', message: e.message } });
+		return res.status(500).json({ success: false, error: { code: 'PRINTER_ERROR', message: e?.message || 'Answering the prompt failed' } });
+	}
 });
 
-router.post('/cancel', authenticateToken, requireOperator, async (_req: Request, res: Response) => {
-	await printerService.cancel();
+router.post('/cancel', requireOperator, async (_req: Request, res: Response) => {
+	await printerOf(res).cancel();
 	return res.json({ success: true });
 });
 
+router.get('/safety/thermal', async (_req: Request, res: Response) => {
+	return res.json({ success: true, data: { config: printerOf(res).thermal.getConfig(), fault: printerOf(res).thermal.activeFault } });
+});
+
+const heaterThresholds = z
+	.object({
+		enabled: z.boolean(),
+		heatingPeriodSec: z.number().min(5).max(600),
+		minRise: z.number().min(0.5).max(50),
+		hysteresis: z.number().min(1).max(30),
+		holdPeriodSec: z.number().min(5).max(900),
+		minTemp: z.number().min(-20).max(50),
+		maxTemp: z.number().min(30).max(500),
+		maxRate: z.number().min(1).max(100),
+		sensorTimeoutSec: z.number().min(5).max(600),
+	})
+	.partial();
+
+router.put('/safety/thermal', requireAdmin, async (req: Request, res: Response) => {
+	const schema = z.object({ hotend: heaterThresholds.optional(), bed: heaterThresholds.optional(), chamber: heaterThresholds.optional() });
+	try {
+		const body = schema.parse(req.body);
+		return res.json({ success: true, data: { config: await printerOf(res).thermal.updateConfig(body) } });
+	} catch (e: any) {
+		if (e?.issues) return res.status(400).json({ success: false, error: { code: 'VALIDATION_ERROR', message: 'Invalid input', details: e.issues } });
+		return res.status(500).json({ success: false, error: { code: 'INTERNAL_ERROR', message: e?.message || 'Failed to save thermal settings' } });
+	}
+});
+
+router.get('/build-volume', async (_req: Request, res: Response) => {
+	return res.json({ success: true, data: { buildVolume: printerOf(res).buildVolume } });
+});
+
+router.put('/build-volume', requireAdmin, async (req: Request, res: Response) => {
+	const axis = z.number().positive().max(5000);
+	const schema = z.object({ x: axis, y: axis, z: axis });
+	try {
+		const volume = schema.parse(req.body);
+		return res.json({ success: true, data: { buildVolume: await printerOf(res).setBuildVolume(volume) } });
+	} catch (e: any) {
+		if (e?.issues) return res.status(400).json({ success: false, error: { code: 'VALIDATION_ERROR', message: 'Invalid input', details: e.issues } });
+		return res.status(500).json({ success: false, error: { code: 'INTERNAL_ERROR', message: e?.message || 'Failed to save the build volume' } });
+	}
+});
+
+// Fault injection for a printer on the virtual port; unavailable with real hardware
+router.get('/virtual', requireAdmin, async (_req: Request, res: Response) => {
+	const virtual = printerOf(res).virtualPrinter;
+	if (!virtual) return res.status(404).json({ success: false, error: { code: 'NOT_VIRTUAL', message: 'Printer is not virtual' } });
+	return res.json({ success: true, data: virtual.getState() });
+});
+
+router.post('/virtual/faults', requireAdmin, async (req: Request, res: Response) => {
+	const schema = z.object({
+		fault: z.enum(['thermal-runaway', 'heater-failure', 'sensor-disconnect', 'resend', 'disconnect', 'filament-runout', 'clear']),
+		count: z.number().int().min(1).max(100).optional(),
+	});
+	try {
+		const { fault, count } = schema.parse(req.body);
+		const virtual = printerOf(res).virtualPrinter;
+		if (!virtual) return res.status(404).json({ success: false, error: { code: 'NOT_VIRTUAL', message: 'Printer is not virtual' } });
+		if (fault === 'clear') virtual.clearFaults();
+		else virtual.injectFault(fault, { count });
+		return res.json({ success: true, data: virtual.getState() });
+	} catch (e: any) {
+		if (e?.issues) return res.status(400).json({ success: false, error: { code: 'VALIDATION_ERROR', message: 'Invalid input', details: e.issues } });
+		return res.status(500).json({ success: false, error: { code: 'PRINTER_ERROR', message: e?.message || 'Fault injection failed' } });
+	}
+});
+
 export default router;
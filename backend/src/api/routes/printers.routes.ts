@@ -0,0 +1,72 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken, requireAdmin } from '../../middleware/auth.middleware';
+import { prisma } from '../../lib/prisma';
+import { printerRegistry } from '../../services/printer/PrinterRegistry';
+import printerApiRoutes from './printer.routes';
+import { PrinterDriverType } from '@prisma/client';
+import { z } from 'zod';
+
+const router = Router();
+
+const printerError = (res: Response, e: any, fallback: string) => {
+	if (e?.issues) return res.status(400).json({ success: false, error: { code: 'VALIDATION_ERROR', message: 'Invalid input', details: e.issues } });
+	if (/not found/.test(e?.message)) return res.status(404).json({ success: false, error: { code: 'PRINTER_NOT_FOUND', message: e.message } });
+	if (/already exists|in use/.test(e?.message)) return res.status(409).json({ success: false, error: { code: 'CONFLICT', message: e.message } });
+	if (/while printing/.test(e?.message)) return res.status(409).json({ success: false, error: { code: 'PRINTER_BUSY', message: e.message } });
+	return res.status(500).json({ success: false, error: { code: 'INTERNAL_ERROR', message: e?.message || fallback } });
+};
+
+router.get('/', authenticateToken, async (_req: Request, res: Response) => {
+	return res.json({ success: true, data: { printers: await printerRegistry.records() } });
+});
+
+router.post('/', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+	const schema = z.object({
+		name: z.string().trim().min(1).max(64),
+		driver: z.nativeEnum(PrinterDriverType).optional(),
+		port: z.string().min(1).optional(), // Moonraker URL for MOONRAKER printers
+		baudRate: z.number().int().positive().optional(),
+		cameraUrl: z.string().url().optional(),
+	});
+	try {
+		const printer = await printerRegistry.create(schema.parse(req.body));
+		return res.status(201).json({ success: true, data: { printer } });
+	} catch (e: any) {
+		return printerError(res, e, 'Failed to add printer');
+	}
+});
+
+router.get('/:printerId', authenticateToken, async (req: Request, res: Response) => {
+	const record = await prisma.printer.findUnique({ where: { id: req.params.printerId } });
+	if (!record) return res.status(404).json({ success: false, error: { code: 'PRINTER_NOT_FOUND', message: 'Printer not found' } });
+	return res.json({ success: true, data: { printer: printerRegistry.describe(record) } });
+});
+
+// Connection changes go through /:printerId/connect so they are probed first
+router.patch('/:printerId', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+	const schema = z.object({
+		name: z.string().trim().min(1).max(64).optional(),
+		cameraUrl: z.string().url().nullable().optional(),
+		enabled: z.boolean().optional(),
+	});
+	try {
+		const printer = await printerRegistry.update(req.params.printerId, schema.parse(req.body));
+		return res.json({ success: true, data: { printer } });
+	} catch (e: any) {
+		return printerError(res, e, 'Failed to update printer');
+	}
+});
+
+router.delete('/:printerId', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+	try {
+		await printerRegistry.remove(req.params.printerId);
+		return res.json({ success: true });
+	} catch (e: any) {
+		return printerError(res, e, 'Failed to remove printer');
+	}
+});
+
+// Status, connection, control and safety of one printer
+router.use('/:printerId', printerApiRoutes);
+
+export default router;
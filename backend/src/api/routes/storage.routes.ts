@@ -0,0 +1,60 @@
+import { Router, Request, Response } from 'express';
+import { authenticateToken, requireAdmin } from '../../middleware/auth.middleware';
+import { storageService } from '../../services/files/StorageService';
+import { reconciliationService } from '../../services/files/ReconciliationService';
+import { z } from 'zod';
+
+const router = Router();
+
+const storageError = (res: Response, e: any, fallback: string) => {
+	if (e?.issues) return res.status(400).json({ success: false, error: { code: 'VALIDATION_ERROR', message: 'Invalid input', details: e.issues } });
+	if (/User not found/.test(e?.message)) return res.status(404).json({ success: false, error: { code: 'USER_NOT_FOUND', message: e.message } });
+	if (/already running/.test(e?.message)) return res.status(409).json({ success: false, error: { code: 'RECONCILE_RUNNING', message: e.message } });
+	return res.status(500).json({ success: false, error: { code: 'INTERNAL_ERROR', message: e?.message || fallback } });
+};
+
+// GET /api/storage - the caller's own usage and quota
+router.get('/', authenticateToken, async (req: Request, res: Response) => {
+	try {
+		return res.json({ success: true, data: { usage: await storageService.getUsage((req.user as any).userId) } });
+	} catch (e: any) {
+		return storageError(res, e, 'Failed to retrieve storage usage');
+	}
+});
+
+// GET /api/storage/users - usage of every user
+router.get('/users', authenticateToken, requireAdmin, async (_req: Request, res: Response) => {
+	try {
+		return res.json({ success: true, data: await storageService.getReport() });
+	} catch (e: any) {
+		return storageError(res, e, 'Failed to retrieve storage usage');
+	}
+});
+
+// PUT /api/storage/users/:userId/quota - bytes, 0 for unlimited, null for the role's quota
+router.put('/users/:userId/quota', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+	const schema = z.object({ quotaBytes: z.number().int().nonnegative().nullable() });
+	try {
+		const { quotaBytes } = schema.parse(req.body);
+		return res.json({ success: true, data: { usage: await storageService.setQuota(req.params.userId, quotaBytes) } });
+	} catch (e: any) {
+		return storageError(res, e, 'Failed to set storage quota');
+	}
+});
+
+// GET /api/storage/reconcile - the last scheduled or requested run
+router.get('/reconcile', authenticateToken, requireAdmin, (_req: Request, res: Response) => {
+	return res.json({ success: true, data: { report: reconciliationService.last } });
+});
+
+// POST /api/storage/reconcile?dryRun=true
+router.post('/reconcile', authenticateToken, requireAdmin, async (req: Request, res: Response) => {
+	try {
+		const report = await reconciliationService.run(req.query.dryRun === 'true');
+		return res.json({ success: true, data: { report } });
+	} catch (e: any) {
+		return storageError(res, e, 'Failed to reconcile uploads');
+	}
+});
+
+export default router;
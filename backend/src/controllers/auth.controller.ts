@@ -2,6 +2,7 @@ import { Request, Response } from 'express';
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
 import { prisma } from '../lib/prisma';
+import { apiKeyService } from '../services/auth/ApiKeyService';
 import { z } from 'zod';
 
 // Validation schemas
@@ -240,4 +241,52 @@ export async function getProfile(req: Request, res: Response): Promise<void> {
   res.status(500).json({ error: 'Internal server error' });
   return;
   }
-}
\ No newline at end of file
+}
+const apiKeySchema = z.object({
+  name: z.string().trim().min(1).max(64),
+});
+
+export async function listApiKeys(req: Request, res: Response): Promise<void> {
+  try {
+    const apiKeys = await apiKeyService.list(req.user!.userId);
+    res.json({ apiKeys });
+  } catch (error) {
+    console.error('List API keys error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+// The key itself is only returned here; afterwards just its prefix is known
+export async function createApiKey(req: Request, res: Response): Promise<void> {
+  try {
+    const { name } = apiKeySchema.parse(req.body);
+    const { apiKey, key } = await apiKeyService.create(req.user!.userId, name);
+    res.status(201).json({ message: 'API key created', apiKey, key });
+  } catch (error) {
+    console.error('Create API key error:', error);
+
+    if (error instanceof z.ZodError) {
+      res.status(400).json({
+        error: 'Invalid input data',
+        details: error.issues
+      });
+      return;
+    }
+
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
+
+export async function revokeApiKey(req: Request, res: Response): Promise<void> {
+  try {
+    const revoked = await apiKeyService.revoke(req.user!.userId, req.params.id);
+    if (!revoked) {
+      res.status(404).json({ error: 'API key not found' });
+      return;
+    }
+    res.json({ message: 'API key revoked' });
+  } catch (error) {
+    console.error('Revoke API key error:', error);
+    res.status(500).json({ error: 'Internal server error' });
+  }
+}
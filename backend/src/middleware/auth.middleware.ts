@@ -1,6 +1,7 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
 import { prisma } from '../lib/prisma';
+import { apiKeyService } from '../services/auth/ApiKeyService';
 
 // Extend Request interface to include user
 declare global {
@@ -64,6 +65,32 @@ export const authenticateToken = async (req: Request, res: Response, next: NextF
   }
 };
 
+// API key authentication as OctoPrint clients send it: X-Api-Key header, Bearer token or ?apikey=
+export const authenticateApiKey = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  try {
+    const header = req.headers['x-api-key'];
+    const bearer = req.headers.authorization?.match(/^Bearer\s+(\S+)$/i)?.[1];
+    const key = (typeof header === 'string' && header) || bearer || (typeof req.query.apikey === 'string' ? req.query.apikey : undefined);
+
+    if (!key) {
+      res.status(401).json({ error: 'API key required' });
+      return;
+    }
+
+    const user = await apiKeyService.authenticate(key);
+    if (!user) {
+      res.status(403).json({ error: 'Invalid API key' });
+      return;
+    }
+
+    req.user = user;
+    next();
+  } catch (error) {
+    console.error('API key authentication error:', error);
+    res.status(500).json({ error: 'Authentication failed' });
+  }
+};
+
 // Middleware to check user roles
 export const requireRole = (roles: string[]) => {
   return (req: Request, res: Response, next: NextFunction): void => {
@@ -0,0 +1,17 @@
+import { Request, Response, NextFunction } from 'express';
+import type PrinterService from '../services/printer/PrinterService';
+import { printerRegistry } from '../services/printer/PrinterRegistry';
+
+// Resolves :printerId into res.locals.printer; routes mounted without one (/api/printer) get the default printer
+export const resolvePrinter = (req: Request, res: Response, next: NextFunction): void => {
+  const { printerId } = req.params;
+  const printer = printerId ? printerRegistry.get(printerId) : printerRegistry.default;
+  if (!printer) {
+    res.status(404).json({ success: false, error: { code: 'PRINTER_NOT_FOUND', message: 'Printer not found' } });
+    return;
+  }
+  res.locals.printer = printer;
+  next();
+};
+
+export const printerOf = (res: Response): PrinterService => res.locals.printer;
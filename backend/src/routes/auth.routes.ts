@@ -4,7 +4,10 @@ import {
   login, 
   refreshToken, 
   logout, 
-  getProfile 
+  getProfile,
+  listApiKeys,
+  createApiKey,
+  revokeApiKey
 } from '../controllers/auth.controller';
 import { authenticateToken } from '../middleware/auth.middleware';
 
@@ -18,5 +21,8 @@ router.post('/refresh', refreshToken);
 // Protected routes
 router.post('/logout', authenticateToken, logout);
 router.get('/profile', authenticateToken, getProfile);
+router.get('/api-keys', authenticateToken, listApiKeys);
+router.post('/api-keys', authenticateToken, createApiKey);
+router.delete('/api-keys/:id', authenticateToken, revokeApiKey);
 
 export default router;
\ No newline at end of file
@@ -1,21 +1,44 @@
 import express from 'express';
-import { Request, Response } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import { authenticateToken } from '../middleware/auth.middleware';
 import { CameraService } from '../services/cameraService';
+import { printerRegistry } from '../services/printer/PrinterRegistry';
 
 const router = express.Router();
 
-// Get camera service instance (will be injected)
-let cameraService: CameraService;
+// One camera per printer, registered as printers come and go
+const cameraServices = new Map<string, CameraService>();
 
-export const setCameraService = (service: CameraService) => {
-  cameraService = service;
+export const setCameraService = (printerId: string, service: CameraService) => {
+  cameraServices.get(printerId)?.stopStream();
+  cameraServices.set(printerId, service);
 };
 
+export const getCameraService = (printerId: string): CameraService | undefined => cameraServices.get(printerId);
+
+export const removeCameraService = (printerId: string) => {
+  cameraServices.get(printerId)?.stopStream();
+  cameraServices.delete(printerId);
+};
+
+// Camera of ?printerId=, or of the default printer
+const resolveCamera = (req: Request, res: Response, next: NextFunction): void => {
+  const printerId = typeof req.query.printerId === 'string' ? req.query.printerId : printerRegistry.default?.id;
+  const camera = printerId ? cameraServices.get(printerId) : undefined;
+  if (!camera) {
+    res.status(404).json({ error: 'Camera not found' });
+    return;
+  }
+  res.locals.camera = camera;
+  next();
+};
+
+const cameraOf = (res: Response): CameraService => res.locals.camera;
+
 // GET /api/camera/status - Get camera status and settings
-router.get('/status', authenticateToken, async (req: Request, res: Response) => {
+router.get('/status', authenticateToken, resolveCamera, async (req: Request, res: Response) => {
   try {
-    const status = cameraService.getStreamStatus();
+    const status = cameraOf(res).getStreamStatus();
     res.json(status);
   } catch (error) {
     console.error('Error getting camera status:', error);
@@ -27,14 +50,14 @@ router.get('/status', authenticateToken, async (req: Request, res: Response) =>
 });
 
 // POST /api/camera/start - Start camera stream
-router.post('/start', authenticateToken, async (req: Request, res: Response) => {
+router.post('/start', authenticateToken, resolveCamera, async (req: Request, res: Response) => {
   try {
-    const success = cameraService.startStream();
+    const success = cameraOf(res).startStream();
     
     if (success) {
       res.json({ 
         message: 'Camera stream started successfully',
-        status: cameraService.getStreamStatus()
+        status: cameraOf(res).getStreamStatus()
       });
     } else {
       res.status(500).json({ error: 'Failed to start camera stream' });
@@ -49,12 +72,12 @@ router.post('/start', authenticateToken, async (req: Request, res: Response) =>
 });
 
 // POST /api/camera/stop - Stop camera stream
-router.post('/stop', authenticateToken, async (req: Request, res: Response) => {
+router.post('/stop', authenticateToken, resolveCamera, async (req: Request, res: Response) => {
   try {
-    cameraService.stopStream();
+    cameraOf(res).stopStream();
     res.json({ 
       message: 'Camera stream stopped successfully',
-      status: cameraService.getStreamStatus()
+      status: cameraOf(res).getStreamStatus()
     });
   } catch (error) {
     console.error('Error stopping camera stream:', error);
@@ -66,9 +89,9 @@ router.post('/stop', authenticateToken, async (req: Request, res: Response) => {
 });
 
 // POST /api/camera/snapshot - Take a snapshot
-router.post('/snapshot', authenticateToken, async (req: Request, res: Response) => {
+router.post('/snapshot', authenticateToken, resolveCamera, async (req: Request, res: Response) => {
   try {
-    const result = await cameraService.takeSnapshot();
+    const result = await cameraOf(res).takeSnapshot();
     
     if (result.success) {
       res.json({
@@ -92,7 +115,7 @@ router.post('/snapshot', authenticateToken, async (req: Request, res: Response)
 });
 
 // PUT /api/camera/settings - Update camera settings
-router.put('/settings', authenticateToken, async (req: Request, res: Response) => {
+router.put('/settings', authenticateToken, resolveCamera, async (req: Request, res: Response) => {
   try {
     const { enabled, streamUrl, resolution, framerate, rotation } = req.body;
     
@@ -129,11 +152,11 @@ router.put('/settings', authenticateToken, async (req: Request, res: Response) =
       ...(rotation !== undefined && { rotation }),
     };
 
-    cameraService.updateSettings(settings);
+    cameraOf(res).updateSettings(settings);
     
   res.json({
       message: 'Camera settings updated successfully',
-      settings: cameraService.getSettings()
+      settings: cameraOf(res).getSettings()
     });
   return;
   } catch (error) {
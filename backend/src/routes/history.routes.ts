@@ -18,7 +18,7 @@ router.get('/jobs', authenticateToken, async (req: Request, res: Response) => {
     const { page = '1', limit = '20', status, sortBy = 'createdAt', sortOrder = 'desc' } = req.query;
     const userId = (req as any).user?.id;
 
-    let jobs = historyService.getAllJobs(userId);
+    let jobs = await historyService.getAllJobs(userId);
 
     // Filter by status
     if (status && status !== 'all') {
@@ -70,7 +70,7 @@ router.get('/jobs', authenticateToken, async (req: Request, res: Response) => {
 router.get('/jobs/:id', authenticateToken, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-  const job = historyService.getJobById(id);
+  const job = await historyService.getJobById(id);
 
     if (!job) {
   res.status(404).json({ error: 'Print job not found' });
@@ -98,7 +98,7 @@ router.get('/jobs/:id', authenticateToken, async (req: Request, res: Response) =
 // GET /api/history/current - Get current print job
 router.get('/current', authenticateToken, async (req: Request, res: Response) => {
   try {
-    const currentJob = historyService.getCurrentJob();
+    const currentJob = await historyService.getCurrentJob();
   res.json({ job: currentJob });
   return;
   } catch (error) {
@@ -114,7 +114,7 @@ router.get('/current', authenticateToken, async (req: Request, res: Response) =>
 router.get('/statistics', authenticateToken, async (req: Request, res: Response) => {
   try {
     const userId = (req as any).user?.id;
-    const statistics = historyService.getStatistics(userId);
+    const statistics = await historyService.getStatistics(userId);
     
   res.json({ statistics });
   return;
@@ -224,7 +224,7 @@ router.put('/jobs/:id/cancel', authenticateToken, async (req: Request, res: Resp
 router.delete('/jobs/:id', authenticateToken, async (req: Request, res: Response) => {
   try {
     const { id } = req.params;
-    const job = historyService.getJobById(id);
+    const job = await historyService.getJobById(id);
 
     if (!job) {
   res.status(404).json({ error: 'Print job not found' });
@@ -262,7 +262,7 @@ router.delete('/jobs/:id', authenticateToken, async (req: Request, res: Response
 // GET /api/history/demo/jobs - Public demo endpoint (no auth required)
 router.get('/demo/jobs', async (req: Request, res: Response) => {
   try {
-    const jobs = historyService.getAllJobs();
+    const jobs = await historyService.getAllJobs();
     
   res.json({
       jobs: jobs.slice(0, 10), // Show recent 10 jobs for demo
@@ -278,7 +278,7 @@ router.get('/demo/jobs', async (req: Request, res: Response) => {
 // GET /api/history/demo/statistics - Public demo statistics endpoint
 router.get('/demo/statistics', async (req: Request, res: Response) => {
   try {
-    const statistics = historyService.getStatistics();
+    const statistics = await historyService.getStatistics();
     
   res.json({
       statistics,
@@ -20,6 +20,7 @@ const sendCommandSchema = z.object({
     .max(200, 'Command too long')
     .regex(/^[A-Z][0-9]*(\s+[A-Z][-\d.]+)*$/i, 'Invalid G-code format'),
   priority: z.boolean().optional().default(false),
+  printerId: z.string().optional(),
   sessionId: z.string().optional(),
 });
 
@@ -116,7 +117,8 @@ router.post('/command', authenticateToken, async (req: Request, res: Response) =
       body.command,
       userId,
       body.priority,
-      body.sessionId
+      body.sessionId,
+      body.printerId
     );
     
     res.status(201).json({
@@ -246,7 +248,8 @@ router.post('/emergency-stop', authenticateToken, async (req: Request, res: Resp
   try {
     const userId = (req as any).user?.id;
     
-    await terminalService.emergencyStop(userId);
+    const printerId = typeof req.body?.printerId === 'string' ? req.body.printerId : undefined;
+    await terminalService.emergencyStop(userId, printerId);
     
   res.json({
       success: true,
@@ -1,44 +1,51 @@
 import express from 'express';
 import { createServer } from 'http';
-import { Server } from 'socket.io';
 import cors from 'cors';
 import helmet from 'helmet';
 import morgan from 'morgan';
 import dotenv from 'dotenv';
+import { Printer } from '@prisma/client';
 import authRoutes from './routes/auth.routes';
-import cameraRoutes, { setCameraService } from './routes/camera.routes';
+import cameraRoutes, { getCameraService, removeCameraService, setCameraService } from './routes/camera.routes';
 import historyRoutes, { setHistoryService } from './routes/history.routes';
 import printerApiRoutes from './api/routes/printer.routes';
+import printersApiRoutes from './api/routes/printers.routes';
 import filesApiRoutes from './api/routes/files.routes';
 import jobsApiRoutes from './api/routes/jobs.routes';
 import analyticsApiRoutes from './api/routes/analytics.routes';
+import octoprintApiRoutes from './api/routes/octoprint.routes';
+import storageApiRoutes from './api/routes/storage.routes';
 import { CameraService } from './services/cameraService';
 import { PrintHistoryService } from './services/printHistoryService';
+import { queueService } from './services/jobs/QueueService';
+import { printEventService } from './services/jobs/PrintEventService';
+import { recoveryService } from './services/jobs/RecoveryService';
+import { fileUploadService } from './services/files/FileUploadService';
+import { chunkedUploadService } from './services/files/ChunkedUploadService';
+import { reconciliationService } from './services/files/ReconciliationService';
+import PrinterService from './services/printer/PrinterService';
+import { printerRegistry } from './services/printer/PrinterRegistry';
+import { temperatureLogService } from './services/telemetry/TemperatureLogService';
+import { WebSocketServer } from './websocket/WebSocketServer';
 
 // Load environment variables
 dotenv.config();
 
+const allowedOrigins = [
+  process.env.FRONTEND_URL || "http://localhost:3000",
+  "http://localhost:3002",
+  "http://10.100.102.88:3000"
+];
+
 const app = express();
 const httpServer = createServer(app);
-const io = new Server(httpServer, {
-  cors: { 
-    origin: [
-      process.env.FRONTEND_URL || "http://localhost:3000",
-      "http://localhost:3002",
-      "http://10.100.102.88:3000"
-    ],
-    methods: ["GET", "POST"]
-  }
-});
+const wsServer = new WebSocketServer(httpServer, { origins: allowedOrigins });
+const io = wsServer.getIO();
 
 // Middleware
 app.use(helmet());
 app.use(cors({
-  origin: [
-    process.env.FRONTEND_URL || "http://localhost:3000",
-    "http://localhost:3002",
-    "http://10.100.102.88:3000"
-  ],
+  origin: allowedOrigins,
   credentials: true
 }));
 app.use(express.json({ limit: '50mb' }));
@@ -64,34 +71,69 @@ app.get('/api/status', (req, res) => {
 });
 
 // Initialize services
-const cameraService = new CameraService(io);
 const historyService = new PrintHistoryService(io);
-setCameraService(cameraService);
 setHistoryService(historyService);
 
+// Every printer gets its own telemetry, event, recovery and queue wiring and its own camera
+printerRegistry.on('added', (printer: PrinterService, record: Printer) => {
+  wsServer.bindPrinter(printer);
+  printEventService.bindPrinter(printer);
+  recoveryService.bindPrinter(printer);
+  queueService.bindPrinter(printer);
+  temperatureLogService.bindPrinter(printer);
+  setCameraService(printer.id, new CameraService(io, printer.id, { enabled: !!record.cameraUrl, streamUrl: record.cameraUrl ?? undefined }));
+});
+printerRegistry.on('updated', (record: Printer) => {
+  getCameraService(record.id)?.updateSettings({ enabled: !!record.cameraUrl, streamUrl: record.cameraUrl ?? undefined });
+});
+printerRegistry.on('removed', (printerId: string) => removeCameraService(printerId));
+
+queueService.on('updated', (queue) => wsServer.broadcastQueue(queue));
+printEventService.on('event', (event) => wsServer.broadcastJobEvent(event));
+recoveryService.on('interrupted', ({ jobId, reason }) => {
+  wsServer.broadcastAlert({
+    id: `recovery_${jobId}_${Date.now()}`,
+    type: 'warning',
+    title: 'Print interrupted',
+    message: `${reason}. The job can be resumed from the recovery panel.`,
+    timestamp: Date.now(),
+    metadata: { jobId },
+  });
+});
+// Printers must be known before interrupted jobs are parked, and those before the queues look for work
+printerRegistry
+  .init()
+  .catch((error) => console.error('Failed to load printers:', error))
+  .then(() => recoveryService.init())
+  .catch((error) => console.error('Failed to check for interrupted prints:', error))
+  .finally(() => queueService.init().catch((error) => console.error('Failed to start print queue:', error)));
+temperatureLogService.init();
+fileUploadService.init();
+chunkedUploadService.init();
+reconciliationService.init();
+
 // API Routes
 app.use('/api/auth', authRoutes);
 app.use('/api/camera', cameraRoutes);
 app.use('/api/history', historyRoutes);
+app.use('/api/printers', printersApiRoutes);
+// Single-printer API kept for existing clients: acts on the default printer
 app.use('/api/printer', printerApiRoutes);
 app.use('/api/files', filesApiRoutes);
 app.use('/api/jobs', jobsApiRoutes);
 app.use('/api/analytics', analyticsApiRoutes);
-
-// WebSocket connection handling
-io.on('connection', (socket) => {
-  console.log('Client connected:', socket.id);
-  
-  socket.on('disconnect', () => {
-    console.log('Client disconnected:', socket.id);
-  });
-  
-  // Send initial status
-  socket.emit('status', { 
-    connected: true,
-    message: 'Connected to LezerPrint server'
-  });
-});
+app.use('/api/storage', storageApiRoutes);
+// OctoPrint-compatible API for slicers: their host URL is http://<server>/octoprint, or
+// http://<server>/octoprint/printers/<printerId> to send to a printer other than the default one
+app.use('/octoprint/printers/:printerId/api', octoprintApiRoutes);
+app.use('/octoprint/api', octoprintApiRoutes);
+// Thumbnails are named after their upload's random file name; the frontend runs on another origin
+app.use(
+  '/uploads/thumbnails',
+  express.static(fileUploadService.thumbnailDirectory, {
+    setHeaders: (res) => res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin'),
+  })
+);
 
 // Start server
 const PORT = process.env.PORT || 3001;
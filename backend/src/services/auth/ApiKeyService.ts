@@ -0,0 +1,63 @@
+import crypto from 'crypto';
+import { prisma } from '../../lib/prisma';
+
+// Keys look like "lzp_<48 hex chars>"; the prefix makes them easy to spot in configs and logs
+const KEY_PREFIX = 'lzp_';
+const KEY_BYTES = 24;
+const DISPLAY_LENGTH = KEY_PREFIX.length + 6;
+// lastUsedAt is only refreshed this often, so every request does not cost a write
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+const keySelect = { id: true, name: true, prefix: true, lastUsedAt: true, createdAt: true } as const;
+
+/**
+ * Per-user API keys for clients that cannot log in, like slicers using the OctoPrint API.
+ * A key acts with its owner's role and is shown once, when it is created.
+ */
+export class ApiKeyService {
+  isApiKey(value: string): boolean {
+    return value.startsWith(KEY_PREFIX);
+  }
+
+  async create(userId: string, name: string) {
+    const key = `${KEY_PREFIX}${crypto.randomBytes(KEY_BYTES).toString('hex')}`;
+    const apiKey = await prisma.apiKey.create({
+      data: { userId, name, keyHash: this.hash(key), prefix: key.slice(0, DISPLAY_LENGTH) },
+      select: keySelect,
+    });
+    return { apiKey, key };
+  }
+
+  async list(userId: string) {
+    return prisma.apiKey.findMany({ where: { userId }, select: keySelect, orderBy: { createdAt: 'desc' } });
+  }
+
+  async revoke(userId: string, id: string): Promise<boolean> {
+    const { count } = await prisma.apiKey.deleteMany({ where: { id, userId } });
+    return count > 0;
+  }
+
+  // The active user the key belongs to, or null for unknown keys and deactivated users
+  async authenticate(key: string): Promise<{ userId: string; role: string } | null> {
+    if (!this.isApiKey(key)) return null;
+    const apiKey = await prisma.apiKey.findUnique({
+      where: { keyHash: this.hash(key) },
+      include: { user: { select: { id: true, role: true, isActive: true } } },
+    });
+    if (!apiKey || !apiKey.user.isActive) return null;
+
+    if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+      prisma.apiKey
+        .update({ where: { id: apiKey.id }, data: { lastUsedAt: new Date() } })
+        .catch((error) => console.error('Failed to update API key usage:', error));
+    }
+    return { userId: apiKey.user.id, role: apiKey.user.role };
+  }
+
+  // Keys are long random strings, so a plain SHA-256 is enough to keep them out of the database
+  private hash(key: string): string {
+    return crypto.createHash('sha256').update(key).digest('hex');
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
@@ -1,6 +1,7 @@
 import { Server } from 'socket.io';
 import { createReadStream, existsSync } from 'fs';
 import { join } from 'path';
+import { printerRoom } from '../websocket/WebSocketServer';
 
 export interface CameraSettings {
   enabled: boolean;
@@ -21,8 +22,9 @@ export class CameraService {
     rotation: 0,
   };
 
-  constructor(io: Server) {
+  constructor(io: Server, private readonly printerId: string, settings: Partial<CameraSettings> = {}) {
     this.io = io;
+    this.settings = { ...this.settings, ...settings };
   }
 
   public getSettings(): CameraSettings {
@@ -69,7 +71,7 @@ export class CameraService {
       this.streamInterval = undefined;
     }
 
-    this.io.emit('camera:stream-stopped');
+    this.io.to(printerRoom(this.printerId, 'camera')).emit('camera:stream-stopped', { printerId: this.printerId });
     console.log('Camera stream stopped');
   }
 
@@ -112,6 +114,7 @@ export class CameraService {
 
       // Generate mock frame data
       const mockFrame = {
+        printerId: this.printerId,
         timestamp: Date.now(),
         frameNumber: Math.floor(Math.random() * 10000),
         quality: 'good',
@@ -119,7 +122,7 @@ export class CameraService {
         data: 'data:image/svg+xml;base64,' + Buffer.from(this.generateMockCameraFrame()).toString('base64'),
       };
 
-      this.io.emit('camera:frame', mockFrame);
+      this.io.to(printerRoom(this.printerId, 'camera')).emit('camera:frame', mockFrame);
     }, 1000 / this.settings.framerate);
   }
 
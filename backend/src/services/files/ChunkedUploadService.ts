@@ -0,0 +1,328 @@
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ALLOWED_EXTENSIONS, fileUploadService } from './FileUploadService';
+import { storageService } from './StorageService';
+
+export interface UploadSession {
+  uploadId: string;
+  userId: string;
+  fileName: string; // the client's file name
+  fileSize: number;
+  chunkSize: number;
+  totalChunks: number;
+  checksum: string; // SHA-256 of the whole file, hex
+  folder?: string;
+  tags?: string[];
+  versionOf?: string;
+  createdAt: number;
+}
+
+export interface UploadStatus {
+  uploadId: string;
+  fileName: string;
+  fileSize: number;
+  chunkSize: number;
+  totalChunks: number;
+  received: number[]; // chunk indices already stored; a resuming client sends the rest
+}
+
+export interface UploadProgress {
+  uploadId: string;
+  fileName: string;
+  receivedBytes: number;
+  totalBytes: number;
+  progress: number; // percent
+  chunksReceived: number;
+  totalChunks: number;
+}
+
+export interface StartUploadRequest {
+  uploadId?: string; // to resume; a new session is created when it is unknown
+  fileName: string;
+  fileSize: number;
+  checksum: string;
+  chunkSize?: number;
+  folder?: string;
+  tags?: string[];
+  versionOf?: string; // id of a file the upload is the next version of
+}
+
+export class UploadError extends Error {
+  constructor(readonly code: string, message: string) {
+    super(message);
+  }
+}
+
+const MIN_CHUNK_SIZE = 64 * 1024;
+export const MAX_CHUNK_SIZE = 2 * 1024 * 1024;
+const DEFAULT_CHUNK_SIZE = 1024 * 1024;
+// Sessions nobody has sent a chunk to for this long are deleted with their chunks
+const SESSION_TTL_MS = 24 * 60 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 60 * 60 * 1000;
+const MANIFEST = 'upload.json';
+const UPLOAD_ID = /^[A-Za-z0-9_-]{8,64}$/;
+const SHA256 = /^[0-9a-f]{64}$/;
+const CHUNK_FILE = /^(\d+)\.part$/;
+
+type Entry = { session: UploadSession; received: Set<number>; finishing: boolean };
+
+/**
+ * Resumable uploads in fixed-size chunks, for large files over unreliable connections. Each
+ * session lives in uploads/temp/<uploadId>: a manifest plus one file per chunk, so a client
+ * that lost its connection (or a restarted server) picks up with the chunks already stored.
+ * Once all chunks are in, they are assembled, checked against the SHA-256 the client sent at
+ * the start, and the file is processed like a regular upload.
+ */
+export class ChunkedUploadService {
+  private sessions = new Map<string, Entry>();
+  private maxFileSize = parseInt(process.env.MAX_CHUNKED_UPLOAD_SIZE || String(4 * 1024 ** 3)); // 4GB default
+  private timer: NodeJS.Timeout | null = null;
+
+  init(): void {
+    this.timer = setInterval(() => this.cleanup(), CLEANUP_INTERVAL_MS);
+    this.cleanup();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async start(userId: string, request: StartUploadRequest): Promise<UploadStatus> {
+    const { fileName, fileSize, folder, tags, versionOf } = request;
+    const checksum = typeof request.checksum === 'string' ? request.checksum.toLowerCase() : '';
+
+    if (request.uploadId !== undefined) {
+      const entry = await this.find(request.uploadId, userId);
+      if (entry) {
+        const { session } = entry;
+        if (session.fileName !== fileName || session.fileSize !== fileSize || session.checksum !== checksum) {
+          throw new UploadError('UPLOAD_MISMATCH', 'The upload was started for a different file');
+        }
+        return this.status(entry);
+      }
+    }
+
+    if (typeof fileName !== 'string' || !fileName.trim()) throw new UploadError('INVALID_REQUEST', 'fileName is required');
+    if (!ALLOWED_EXTENSIONS.includes(path.extname(fileName).toLowerCase())) {
+      throw new UploadError('UNSUPPORTED_TYPE', `Unsupported file type: ${fileName}. Allowed: STL, OBJ, 3MF, G-code`);
+    }
+    if (!Number.isInteger(fileSize) || fileSize <= 0) throw new UploadError('INVALID_REQUEST', 'fileSize must be a positive integer');
+    if (fileSize > this.maxFileSize) throw new UploadError('FILE_TOO_LARGE', `Files are limited to ${this.maxFileSize} bytes`);
+    if (!SHA256.test(checksum)) throw new UploadError('INVALID_REQUEST', 'checksum must be the SHA-256 of the file, in hex');
+    if (tags !== undefined && (!Array.isArray(tags) || tags.some((tag) => typeof tag !== 'string'))) {
+      throw new UploadError('INVALID_REQUEST', 'tags must be a list of strings');
+    }
+    // Checked now rather than after the whole file has been sent, with the user's other open uploads counted as stored
+    await storageService.assertCanStore(userId, fileSize, await this.reservedBytes(userId)).catch((error) => {
+      throw new UploadError('QUOTA_EXCEEDED', error.message);
+    });
+    if (versionOf !== undefined) {
+      if (typeof versionOf !== 'string') throw new UploadError('INVALID_REQUEST', 'versionOf must be a file id');
+      await fileUploadService.versionBase(versionOf, userId).catch((error) => {
+        throw new UploadError('FILE_NOT_FOUND', error.message);
+      });
+    }
+
+    // A client may choose the id, as long as it is not taken by someone else's upload
+    const chosen = request.uploadId;
+    const uploadId = typeof chosen === 'string' && UPLOAD_ID.test(chosen) && !(await this.exists(chosen)) ? chosen : crypto.randomUUID();
+    const requested = Number.isInteger(request.chunkSize) ? request.chunkSize! : DEFAULT_CHUNK_SIZE;
+    const chunkSize = Math.min(MAX_CHUNK_SIZE, Math.max(MIN_CHUNK_SIZE, requested));
+    const session: UploadSession = {
+      uploadId,
+      userId,
+      fileName: fileName.trim(),
+      fileSize,
+      chunkSize,
+      totalChunks: Math.ceil(fileSize / chunkSize),
+      checksum,
+      folder: typeof folder === 'string' ? folder : undefined,
+      tags,
+      versionOf,
+      createdAt: Date.now(),
+    };
+    await fs.mkdir(this.directory(uploadId), { recursive: true });
+    await fs.writeFile(path.join(this.directory(uploadId), MANIFEST), JSON.stringify(session));
+    const entry: Entry = { session, received: new Set(), finishing: false };
+    this.sessions.set(uploadId, entry);
+    return this.status(entry);
+  }
+
+  async writeChunk(userId: string, uploadId: string, index: number, data: Buffer): Promise<UploadProgress> {
+    const entry = await this.get(uploadId, userId);
+    const { session } = entry;
+    if (!Number.isInteger(index) || index < 0 || index >= session.totalChunks) {
+      throw new UploadError('INVALID_CHUNK', `Chunk index must be between 0 and ${session.totalChunks - 1}`);
+    }
+    if (!Buffer.isBuffer(data) || data.length !== this.chunkLength(session, index)) {
+      throw new UploadError('INVALID_CHUNK', `Chunk ${index} must be ${this.chunkLength(session, index)} bytes`);
+    }
+    if (entry.finishing) throw new UploadError('UPLOAD_FINISHING', 'The upload is already being assembled');
+
+    // Written aside and renamed, so an interrupted write never counts as a stored chunk
+    const target = path.join(this.directory(uploadId), `${index}.part`);
+    await fs.writeFile(`${target}.tmp`, data);
+    await fs.rename(`${target}.tmp`, target);
+    entry.received.add(index);
+    return this.progress(entry);
+  }
+
+  /**
+   * Assembles the chunks, verifies the checksum and hands the file to FileUploadService.
+   * A checksum mismatch discards the session; the client has to upload the file again.
+   */
+  async finish(userId: string, uploadId: string) {
+    const entry = await this.get(uploadId, userId);
+    const { session } = entry;
+    const missing = session.totalChunks - entry.received.size;
+    if (missing > 0) throw new UploadError('UPLOAD_INCOMPLETE', `${missing} of ${session.totalChunks} chunks are missing`);
+    if (entry.finishing) throw new UploadError('UPLOAD_FINISHING', 'The upload is already being assembled');
+    entry.finishing = true;
+
+    const directory = this.directory(uploadId);
+    const assembled = path.join(directory, 'assembled');
+    try {
+      const hash = crypto.createHash('sha256');
+      const output = await fs.open(assembled, 'w');
+      try {
+        for (let index = 0; index < session.totalChunks; index++) {
+          const data = await fs.readFile(path.join(directory, `${index}.part`));
+          hash.update(data);
+          await output.write(data);
+        }
+      } finally {
+        await output.close();
+      }
+      if (hash.digest('hex') !== session.checksum) {
+        await this.discard(uploadId);
+        throw new UploadError('CHECKSUM_MISMATCH', 'The assembled file does not match its checksum; upload it again');
+      }
+
+      const fileName = fileUploadService.storedFileName(session.fileName);
+      const filePath = path.join(fileUploadService.directoryFor(session.fileName), fileName);
+      await fs.rename(assembled, filePath);
+      await this.discard(uploadId);
+      return await fileUploadService.processUploadedFile(
+        { path: filePath, filename: fileName, originalname: session.fileName, size: session.fileSize },
+        userId,
+        { folder: session.folder, tags: session.tags, versionOf: session.versionOf, sha256: session.checksum }
+      );
+    } catch (error) {
+      entry.finishing = false;
+      if (error instanceof Error && /^Storage quota exceeded/.test(error.message)) throw new UploadError('QUOTA_EXCEEDED', error.message);
+      throw error;
+    }
+  }
+
+  async cancel(userId: string, uploadId: string): Promise<void> {
+    await this.get(uploadId, userId);
+    await this.discard(uploadId);
+  }
+
+  private async get(uploadId: string, userId: string): Promise<Entry> {
+    const entry = await this.find(uploadId, userId);
+    if (!entry) throw new UploadError('UPLOAD_NOT_FOUND', 'Upload not found or expired');
+    return entry;
+  }
+
+  // Sessions survive restarts: an unknown id is looked up on disk, with the chunks stored so far
+  private async find(uploadId: unknown, userId: string): Promise<Entry | null> {
+    if (typeof uploadId !== 'string' || !UPLOAD_ID.test(uploadId)) return null;
+    let entry = this.sessions.get(uploadId);
+    if (!entry) {
+      const directory = this.directory(uploadId);
+      let session: UploadSession;
+      try {
+        session = JSON.parse(await fs.readFile(path.join(directory, MANIFEST), 'utf8'));
+      } catch {
+        return null;
+      }
+      const received = new Set<number>();
+      for (const name of await fs.readdir(directory)) {
+        const match = name.match(CHUNK_FILE);
+        if (!match) continue;
+        const index = parseInt(match[1], 10);
+        const { size } = await fs.stat(path.join(directory, name));
+        if (index < session.totalChunks && size === this.chunkLength(session, index)) received.add(index);
+      }
+      entry = { session, received, finishing: false };
+      this.sessions.set(uploadId, entry);
+    }
+    return entry.session.userId === userId ? entry : null;
+  }
+
+  // Declared sizes of the user's unfinished uploads, including those only on disk after a restart
+  private async reservedBytes(userId: string): Promise<number> {
+    const names = await fs.readdir(fileUploadService.tempDirectory).catch(() => [] as string[]);
+    let bytes = 0;
+    for (const uploadId of names) {
+      const entry = await this.find(uploadId, userId);
+      if (entry) bytes += entry.session.fileSize;
+    }
+    return bytes;
+  }
+
+  private async exists(uploadId: string): Promise<boolean> {
+    if (this.sessions.has(uploadId)) return true;
+    return fs.access(this.directory(uploadId)).then(
+      () => true,
+      () => false
+    );
+  }
+
+  private status({ session, received }: Entry): UploadStatus {
+    return {
+      uploadId: session.uploadId,
+      fileName: session.fileName,
+      fileSize: session.fileSize,
+      chunkSize: session.chunkSize,
+      totalChunks: session.totalChunks,
+      received: [...received].sort((a, b) => a - b),
+    };
+  }
+
+  private progress({ session, received }: Entry): UploadProgress {
+    let receivedBytes = 0;
+    received.forEach((index) => (receivedBytes += this.chunkLength(session, index)));
+    return {
+      uploadId: session.uploadId,
+      fileName: session.fileName,
+      receivedBytes,
+      totalBytes: session.fileSize,
+      progress: Math.round((receivedBytes / session.fileSize) * 1000) / 10,
+      chunksReceived: received.size,
+      totalChunks: session.totalChunks,
+    };
+  }
+
+  // Every chunk is chunkSize bytes except the last one
+  private chunkLength(session: UploadSession, index: number): number {
+    return index < session.totalChunks - 1 ? session.chunkSize : session.fileSize - session.chunkSize * (session.totalChunks - 1);
+  }
+
+  private directory(uploadId: string): string {
+    return path.join(fileUploadService.tempDirectory, uploadId);
+  }
+
+  private async discard(uploadId: string): Promise<void> {
+    this.sessions.delete(uploadId);
+    await fs.rm(this.directory(uploadId), { recursive: true, force: true });
+  }
+
+  // A session directory's mtime moves with every chunk renamed into it
+  private async cleanup(): Promise<void> {
+    try {
+      const names = await fs.readdir(fileUploadService.tempDirectory);
+      for (const uploadId of names.filter((name) => UPLOAD_ID.test(name))) {
+        const { mtimeMs } = await fs.stat(this.directory(uploadId));
+        if (Date.now() - mtimeMs > SESSION_TTL_MS && !this.sessions.get(uploadId)?.finishing) await this.discard(uploadId);
+      }
+    } catch (error) {
+      console.error('Failed to clean up chunked uploads:', error);
+    }
+  }
+}
+
+export const chunkedUploadService = new ChunkedUploadService();
@@ -1,19 +1,123 @@
 import multer from 'multer';
 import path from 'path';
 import crypto from 'crypto';
-import { promises as fs } from 'fs';
-import sharp from 'sharp';
+import { createReadStream, promises as fs } from 'fs';
+import { Prisma } from '@prisma/client';
 import { prisma } from '../../lib/prisma';
+import { GCodeParser, type BoundingBox, type GCodeAnalysis, type LayerStats } from '../printer/GCodeParser';
+import { printerRegistry } from '../printer/PrinterRegistry';
+import { OBJParser, type OBJAnalysis, type OBJObject } from './OBJParser';
+import { STLParser, type MeshCheck, type STLAnalysis } from './STLParser';
+import { ThreeMFParser, type ThreeMFAnalysis, type ThreeMFObject, type ThreeMFPlate } from './ThreeMFParser';
+import { folderService } from './FolderService';
+import { storageService } from './StorageService';
+import { thumbnailService } from './ThumbnailService';
 
 export interface FileMetadata {
   dimensions?: { width: number; height: number; depth: number };
+  bounds?: BoundingBox; // mesh extent, or the extent of the extruding moves for G-code
   layerCount?: number;
-  volume?: number;
-  surfaceArea?: number;
-  estimatedPrintTime?: number;
-  filamentLength?: number;
+  volume?: number; // mm³
+  surfaceArea?: number; // mm²
+  // STL, OBJ and 3MF analysis
+  triangleCount?: number;
+  mesh?: MeshCheck | null;
+  objects?: (OBJObject | ThreeMFObject)[];
+  materials?: string[]; // OBJ `usemtl` names
+  colors?: string[]; // 3MF object and material colours
+  application?: string; // the program that wrote a 3MF
+  plates?: ThreeMFPlate[]; // G-code sliced into a 3MF
+  // Printers whose build volume the model does not fit
+  exceedsBuildVolume?: string[];
+  estimatedPrintTime?: number; // seconds; the slicer's estimate when the file has one
+  filamentLength?: number; // mm, all extruders
+  // G-code analysis
+  filamentPerExtruder?: number[];
+  layers?: LayerStats[];
+  maxTemperatures?: GCodeAnalysis['maxTemperatures'];
+  analyzedPrintTime?: number; // seconds, planned with default machine limits
+  slicer?: string;
+  layerHeight?: number;
+  material?: string;
 }
 
+export interface FileListOptions {
+  type?: string;
+  folderId?: string; // 'root' for files outside any folder
+  recursive?: boolean; // include the folder's subfolders
+  q?: string; // every word must appear in the name, tags or searchable metadata
+  tags?: string[]; // files carrying all of them
+  minWidth?: number;
+  maxWidth?: number;
+  minDepth?: number;
+  maxDepth?: number;
+  minHeight?: number;
+  maxHeight?: number;
+  minPrintTime?: number; // seconds
+  maxPrintTime?: number;
+  page?: number;
+  limit?: number;
+  sort?: 'name' | 'date' | 'size';
+  order?: 'asc' | 'desc';
+}
+
+export interface FileChanges {
+  originalName?: string;
+  folderId?: string | null; // null moves the file out of its folder
+  tags?: string[];
+  versionOf?: string; // makes the file the next version of this one
+}
+
+export interface UploadOptions {
+  folder?: string; // a folder path; missing folders are created
+  tags?: string[];
+  versionOf?: string; // id of a file the upload is the next version of
+  sha256?: string; // when the caller has already hashed the contents
+}
+
+export interface VersionCandidate {
+  id: string;
+  originalName: string;
+  version: number;
+  folderId: string | null;
+  createdAt: Date;
+}
+
+export interface UploadResult {
+  file: any;
+  duplicate: boolean; // the user already has this content; `file` is their existing file
+  versionCandidates: VersionCandidate[];
+}
+
+export const ALLOWED_EXTENSIONS = ['.stl', '.obj', '.3mf', '.gcode', '.gco', '.g'];
+const FILE_INCLUDE = {
+  user: {
+    select: {
+      id: true,
+      username: true,
+    },
+  },
+  folder: {
+    select: {
+      id: true,
+      name: true,
+    },
+  },
+} satisfies Prisma.FileInclude;
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 32;
+// Range filters of GET /api/files and the metadata they apply to
+const RANGE_FILTERS: [keyof FileListOptions, string[], 'gte' | 'lte'][] = [
+  ['minWidth', ['dimensions', 'width'], 'gte'],
+  ['maxWidth', ['dimensions', 'width'], 'lte'],
+  ['minDepth', ['dimensions', 'depth'], 'gte'],
+  ['maxDepth', ['dimensions', 'depth'], 'lte'],
+  ['minHeight', ['dimensions', 'height'], 'gte'],
+  ['maxHeight', ['dimensions', 'height'], 'lte'],
+  ['minPrintTime', ['estimatedPrintTime'], 'gte'],
+  ['maxPrintTime', ['estimatedPrintTime'], 'lte'],
+];
+
 export class FileUploadService {
   private upload!: multer.Multer;
   private uploadDir: string;
@@ -42,16 +146,10 @@ export class FileUploadService {
   private setupMulter(): void {
     const storage = multer.diskStorage({
       destination: (req, file, cb) => {
-        const fileType = this.getFileTypeFromMime(file.mimetype);
-        const subfolder = fileType === 'GCODE' ? 'gcode' : 'stl';
-        cb(null, path.join(this.uploadDir, subfolder));
+        cb(null, this.directoryFor(file.originalname));
       },
       filename: (req, file, cb) => {
-        const uniqueSuffix = crypto.randomUUID();
-        const ext = path.extname(file.originalname);
-        const baseName = path.basename(file.originalname, ext);
-        const safeName = this.sanitizeFilename(baseName);
-        cb(null, `${safeName}-${uniqueSuffix}${ext}`);
+        cb(null, this.storedFileName(file.originalname));
       },
     });
 
@@ -64,22 +162,42 @@ export class FileUploadService {
         const allowedTypes = [
           'application/octet-stream', // STL files
           'model/stl',
+          'model/obj',
+          'model/3mf',
+          'application/vnd.ms-package.3dmanufacturing-3dmodel+xml',
           'text/plain', // G-code files
           'application/x-gcode',
         ];
 
-        const allowedExtensions = ['.stl', '.gcode', '.gco', '.g'];
         const ext = path.extname(file.originalname).toLowerCase();
 
-        if (allowedTypes.includes(file.mimetype) || allowedExtensions.includes(ext)) {
+        if (allowedTypes.includes(file.mimetype) || ALLOWED_EXTENSIONS.includes(ext)) {
           cb(null, true);
         } else {
-          cb(new Error(`Unsupported file type: ${file.originalname}. Allowed: STL, G-code`));
+          cb(new Error(`Unsupported file type: ${file.originalname}. Allowed: STL, OBJ, 3MF, G-code`));
         }
       },
     });
   }
 
+  // G-code is kept in gcode/, models in stl/
+  public directoryFor(originalName: string): string {
+    const subfolder = this.getFileTypeFromExtension(originalName) === 'GCODE' ? 'gcode' : 'stl';
+    return path.join(this.uploadDir, subfolder);
+  }
+
+  public storedFileName(originalName: string): string {
+    const uniqueSuffix = crypto.randomUUID();
+    const ext = path.extname(originalName);
+    const baseName = path.basename(originalName, ext);
+    const safeName = this.sanitizeFilename(baseName);
+    return `${safeName}-${uniqueSuffix}${ext}`;
+  }
+
+  public get tempDirectory(): string {
+    return path.join(this.uploadDir, 'temp');
+  }
+
   private sanitizeFilename(filename: string): string {
     return filename
       .replace(/[^a-zA-Z0-9.-]/g, '_')
@@ -87,16 +205,6 @@ export class FileUploadService {
       .substring(0, 100); // Limit length
   }
 
-  private getFileTypeFromMime(mimetype: string): 'STL' | 'GCODE' | 'OBJ' | 'THREEMF' {
-    if (mimetype.includes('stl') || mimetype === 'application/octet-stream') {
-      return 'STL';
-    }
-    if (mimetype.includes('text') || mimetype.includes('gcode')) {
-      return 'GCODE';
-    }
-    return 'STL'; // Default
-  }
-
   private getFileTypeFromExtension(filename: string): 'STL' | 'GCODE' | 'OBJ' | 'THREEMF' {
     const ext = path.extname(filename).toLowerCase();
     
@@ -116,6 +224,53 @@ export class FileUploadService {
     }
   }
 
+  // Served statically, so <img> tags can load thumbnails without a token
+  public get thumbnailDirectory(): string {
+    return this.thumbnailDir;
+  }
+
+  // Where uploaded files are kept, see directoryFor()
+  public get storageDirectories(): string[] {
+    return [path.join(this.uploadDir, 'gcode'), path.join(this.uploadDir, 'stl')];
+  }
+
+  // On-disk location of a /uploads/thumbnails/ URL
+  public thumbnailPath(thumbnailUrl: string): string {
+    return path.join(this.thumbnailDir, path.basename(thumbnailUrl));
+  }
+
+  // Files stored before search and deduplication existed have no search text or hash; fill them in once at startup
+  public async init(): Promise<void> {
+    try {
+      const files = await prisma.file.findMany({
+        where: { searchText: '' },
+        select: { id: true, originalName: true, tags: true, metadata: true },
+      });
+      for (const file of files) {
+        await prisma.file.update({
+          where: { id: file.id },
+          data: { searchText: this.searchTextFor(file.originalName, file.tags, file.metadata as FileMetadata | null) },
+        });
+      }
+    } catch (error) {
+      console.error('Failed to index files for search:', error);
+    }
+
+    try {
+      const files = await prisma.file.findMany({
+        where: { sha256: null },
+        select: { id: true, filePath: true },
+      });
+      for (const file of files) {
+        const sha256 = await this.hashFile(file.filePath).catch(() => null);
+        if (!sha256) continue; // missing on disk
+        await prisma.file.update({ where: { id: file.id }, data: { sha256 } });
+      }
+    } catch (error) {
+      console.error('Failed to hash stored files:', error);
+    }
+  }
+
   public getUploadMiddleware() {
     return this.upload.single('file');
   }
@@ -124,68 +279,215 @@ export class FileUploadService {
     return this.upload.array('files', maxFiles);
   }
 
+  /**
+   * Stores an upload from multer, or a file assembled from chunks, that is already on disk.
+   * Content the user already has is not stored again: the upload is removed and the existing
+   * file returned with `duplicate` set. Content another user uploaded is shared, along with its
+   * metadata and thumbnail. `versionOf` adds the upload to that file's version history, in its
+   * folder and with its tags unless others are given; without it, files of the same name are
+   * returned as `versionCandidates` so the client can offer to make it their next version.
+   */
   public async processUploadedFile(
-    file: Express.Multer.File,
+    file: Pick<Express.Multer.File, 'path' | 'filename' | 'originalname' | 'size'>,
     userId: string,
-    folder?: string
-  ): Promise<any> {
+    options: UploadOptions = {}
+  ): Promise<UploadResult> {
+    let generatedThumbnail: string | null = null;
     try {
       const fileType = this.getFileTypeFromExtension(file.originalname);
       const fileSize = BigInt(file.size);
+      const sha256 = options.sha256 ?? (await this.hashFile(file.path));
+      const base = options.versionOf ? await this.versionBase(options.versionOf, userId) : null;
 
-      // Generate metadata
-      const metadata = await this.generateMetadata(file.path, fileType);
+      const existing = await prisma.file.findFirst({
+        where: { userId, sha256, fileType },
+        include: FILE_INCLUDE,
+      });
+      if (existing) {
+        await fs.unlink(file.path);
+        return { file: existing, duplicate: true, versionCandidates: [] };
+      }
+      await storageService.assertCanStore(userId, file.size);
 
-      // Generate thumbnail for STL files
-      let thumbnailUrl: string | null = null;
-      if (fileType === 'STL') {
-        thumbnailUrl = await this.generateThumbnail(file.path, file.filename);
+      const folderId = options.folder !== undefined || !base ? await folderService.ensurePath(userId, options.folder) : base.folderId;
+      const fileTags = this.normalizeTags(options.tags ?? base?.tags ?? []);
+
+      // Stored for someone else already: point at their copy
+      const stored = await prisma.file.findFirst({
+        where: { sha256, fileType },
+        select: { fileName: true, filePath: true, metadata: true, thumbnailUrl: true },
+      });
+      let metadata: FileMetadata;
+      let thumbnailUrl: string | null;
+      if (stored) {
+        await fs.unlink(file.path);
+        metadata = (stored.metadata ?? {}) as FileMetadata;
+        thumbnailUrl = stored.thumbnailUrl;
+      } else {
+        // Generate metadata
+        metadata = await this.generateMetadata(file.path, fileType);
+        thumbnailUrl = generatedThumbnail = await this.generateThumbnail(file.path, file.filename, fileType, metadata.bounds);
       }
 
+      const { versionGroup, version } = base ? await this.nextVersion(base) : { versionGroup: null, version: 1 };
+
       // Save to database
       const savedFile = await prisma.file.create({
         data: {
           userId,
           originalName: file.originalname,
-          fileName: file.filename, // This field is required
-          filePath: file.path,
+          fileName: stored ? stored.fileName : file.filename, // This field is required
+          filePath: stored ? stored.filePath : file.path,
           fileType,
           fileSize,
+          sha256,
+          metadata: metadata as Prisma.InputJsonObject,
+          thumbnailUrl,
+          folderId,
+          tags: fileTags,
+          searchText: this.searchTextFor(file.originalname, fileTags, metadata),
+          versionGroup,
+          version,
         },
-        include: {
-          user: {
-            select: {
-              id: true,
-              username: true,
-            },
-          },
-        },
+        include: FILE_INCLUDE,
       });
 
-      return savedFile;
+      const versionCandidates = base ? [] : await this.versionCandidates(userId, savedFile.id, file.originalname);
+      return { file: savedFile, duplicate: false, versionCandidates };
     } catch (error) {
-      // Clean up file on error
-      try {
-        await fs.unlink(file.path);
-      } catch (unlinkError) {
-        console.error('Failed to clean up file:', unlinkError);
+      // Clean up file and thumbnail on error
+      for (const leftover of [file.path, generatedThumbnail && this.thumbnailPath(generatedThumbnail)]) {
+        if (!leftover) continue;
+        try {
+          await fs.unlink(leftover);
+        } catch (unlinkError) {
+          if ((unlinkError as NodeJS.ErrnoException).code !== 'ENOENT') {
+            console.error('Failed to clean up file:', unlinkError);
+          }
+        }
       }
       throw error;
     }
   }
 
+  // The file an upload or an existing file becomes the next version of
+  public async versionBase(fileId: string, userId: string) {
+    const file = await prisma.file.findFirst({
+      where: {
+        id: fileId,
+        userId,
+      },
+    });
+    if (!file) {
+      throw new Error('File to add a version to not found');
+    }
+    return file;
+  }
+
+  // The first version's id becomes the group's once it has a second version
+  private async nextVersion(base: { id: string; versionGroup: string | null; version: number }) {
+    const versionGroup = base.versionGroup ?? base.id;
+    if (!base.versionGroup) {
+      await prisma.file.update({ where: { id: base.id }, data: { versionGroup } });
+    }
+    const latest = await prisma.file.aggregate({
+      where: { versionGroup },
+      _max: { version: true },
+    });
+    return { versionGroup, version: (latest._max.version ?? base.version) + 1 };
+  }
+
+  // The latest version of each of the user's other files with this name
+  private async versionCandidates(userId: string, fileId: string, originalName: string): Promise<VersionCandidate[]> {
+    const files = await prisma.file.findMany({
+      where: {
+        userId,
+        id: { not: fileId },
+        originalName: { equals: originalName, mode: 'insensitive' },
+      },
+      select: { id: true, originalName: true, version: true, versionGroup: true, folderId: true, createdAt: true },
+      orderBy: { version: 'desc' },
+    });
+
+    const latest = new Map<string, VersionCandidate>();
+    for (const { versionGroup, ...candidate } of files) {
+      const group = versionGroup ?? candidate.id;
+      if (!latest.has(group)) latest.set(group, candidate);
+    }
+    return [...latest.values()];
+  }
+
+  // Every version of the file's logical file, oldest first, with how its prints went
+  public async getVersions(fileId: string, userId: string) {
+    const file = await prisma.file.findFirst({
+      where: {
+        id: fileId,
+        userId,
+      },
+    });
+
+    if (!file) {
+      return null;
+    }
+
+    const versions = file.versionGroup
+      ? await prisma.file.findMany({
+          where: { userId, versionGroup: file.versionGroup },
+          orderBy: { version: 'asc' },
+        })
+      : [file];
+    const jobs = await prisma.printJob.groupBy({
+      by: ['fileId', 'status'],
+      where: { fileId: { in: versions.map((version) => version.id) } },
+      _count: { _all: true },
+    });
+
+    return versions.map((version) => {
+      const count = (status: string) =>
+        jobs.find((job) => job.fileId === version.id && job.status === status)?._count._all ?? 0;
+      const completed = count('COMPLETED');
+      const failed = count('FAILED');
+      const cancelled = count('CANCELLED');
+      const finished = completed + failed + cancelled;
+      return {
+        id: version.id,
+        version: version.version,
+        originalName: version.originalName,
+        fileSize: version.fileSize,
+        sha256: version.sha256,
+        thumbnailUrl: version.thumbnailUrl,
+        createdAt: version.createdAt,
+        printCount: version.printCount,
+        jobs: { completed, failed, cancelled },
+        // Share of finished prints that completed; null before any finished
+        successRate: finished ? Math.round((completed / finished) * 10000) / 100 : null,
+      };
+    });
+  }
+
+  private async hashFile(filePath: string): Promise<string> {
+    const hash = crypto.createHash('sha256');
+    for await (const chunk of createReadStream(filePath)) {
+      hash.update(chunk);
+    }
+    return hash.digest('hex');
+  }
+
   private async generateMetadata(filePath: string, fileType: string): Promise<FileMetadata> {
     const metadata: FileMetadata = {};
 
     try {
       if (fileType === 'STL') {
-        metadata.dimensions = await this.analyzeSTLFile(filePath);
+        Object.assign(metadata, this.stlMetadata(await STLParser.analyzeFile(filePath)));
+      } else if (fileType === 'OBJ') {
+        Object.assign(metadata, this.objMetadata(await OBJParser.analyzeFile(filePath)));
+      } else if (fileType === 'THREEMF') {
+        Object.assign(metadata, this.threeMFMetadata(await ThreeMFParser.analyzeFile(filePath)));
       } else if (fileType === 'GCODE') {
-        const gcodeData = await this.analyzeGCodeFile(filePath);
-        metadata.layerCount = gcodeData.layerCount;
-        metadata.estimatedPrintTime = gcodeData.estimatedTime;
-        metadata.filamentLength = gcodeData.filamentLength;
+        Object.assign(metadata, this.gcodeMetadata(await GCodeParser.analyzeFile(filePath)));
       }
+      const oversize = this.oversizeFor(metadata.dimensions, fileType !== 'GCODE');
+      if (oversize.length) metadata.exceedsBuildVolume = oversize;
     } catch (error) {
       console.error('Failed to generate metadata:', error);
     }
@@ -193,90 +495,202 @@ export class FileUploadService {
     return metadata;
   }
 
-  private async analyzeSTLFile(filePath: string): Promise<{ width: number; height: number; depth: number }> {
-    // This is a simplified implementation
-    // In a real implementation, you'd parse the STL file to get actual dimensions
-    const stats = await fs.stat(filePath);
-    
-    // Mock dimensions based on file size (replace with actual STL parsing)
-    const size = Math.cbrt(stats.size / 1000); // Rough estimate
-    
+  private stlMetadata(analysis: Omit<STLAnalysis, 'format'>): FileMetadata {
+    const { bounds } = analysis;
     return {
-      width: size,
-      height: size,
-      depth: size,
+      dimensions: bounds
+        ? {
+            width: round(bounds.max.x - bounds.min.x),
+            depth: round(bounds.max.y - bounds.min.y),
+            height: round(bounds.max.z - bounds.min.z),
+          }
+        : undefined,
+      bounds: bounds ?? undefined,
+      volume: analysis.volume,
+      surfaceArea: analysis.surfaceArea,
+      triangleCount: analysis.triangleCount,
+      mesh: analysis.mesh,
     };
   }
 
-  private async analyzeGCodeFile(filePath: string): Promise<{
-    layerCount: number;
-    estimatedTime: number;
-    filamentLength: number;
-  }> {
-    try {
-      const content = await fs.readFile(filePath, 'utf-8');
-      const lines = content.split('\n');
-
-      let layerCount = 0;
-      let estimatedTime = 0;
-      let filamentLength = 0;
-
-      for (const line of lines) {
-        const trimmed = line.trim();
-        
-        // Count layer changes
-        if (trimmed.includes('LAYER:') || trimmed.includes(';LAYER ')) {
-          layerCount++;
-        }
+  private objMetadata(analysis: OBJAnalysis): FileMetadata {
+    return {
+      ...this.stlMetadata(analysis),
+      objects: analysis.objects,
+      materials: analysis.materials.length ? analysis.materials : undefined,
+    };
+  }
 
-        // Extract time estimate from comments
-        if (trimmed.includes('estimated printing time')) {
-          const timeMatch = trimmed.match(/(\d+)h\s*(\d+)m/);
-          if (timeMatch) {
-            estimatedTime = parseInt(timeMatch[1]) * 3600 + parseInt(timeMatch[2]) * 60;
-          }
-        }
+  private threeMFMetadata(analysis: ThreeMFAnalysis): FileMetadata {
+    return {
+      ...this.stlMetadata(analysis),
+      objects: analysis.objects,
+      colors: analysis.colors,
+      application: analysis.application ?? undefined,
+      plates: analysis.plates.length ? analysis.plates : undefined,
+    };
+  }
 
-        // Extract filament usage
-        if (trimmed.includes('filament used')) {
-          const filamentMatch = trimmed.match(/([\d.]+)m/);
-          if (filamentMatch) {
-            filamentLength = parseFloat(filamentMatch[1]) * 1000; // Convert to mm
-          }
-        }
-      }
+  // Ids of printers the model does not fit; a model can still be turned on the bed, G-code cannot
+  private oversizeFor(dimensions: FileMetadata['dimensions'], rotatable: boolean): string[] {
+    if (!dimensions) return [];
+    const { width, depth, height } = dimensions;
+    return printerRegistry
+      .list()
+      .filter(({ buildVolume: { x, y, z } }) => {
+        const fits = (width <= x && depth <= y) || (rotatable && width <= y && depth <= x);
+        return !fits || height > z;
+      })
+      .map((printer) => printer.id);
+  }
 
-      return { layerCount, estimatedTime, filamentLength };
-    } catch (error) {
-      console.error('Failed to analyze G-code file:', error);
-      return { layerCount: 0, estimatedTime: 0, filamentLength: 0 };
-    }
+  private gcodeMetadata(analysis: GCodeAnalysis): FileMetadata {
+    const { bounds, metadata } = analysis;
+    return {
+      dimensions: bounds
+        ? {
+            width: round(bounds.max.x - bounds.min.x),
+            depth: round(bounds.max.y - bounds.min.y),
+            height: round(bounds.max.z),
+          }
+        : undefined,
+      bounds: bounds ?? undefined,
+      layerCount: analysis.layers.length,
+      layers: analysis.layers,
+      estimatedPrintTime: metadata.estimatedTime ?? analysis.estimatedTime,
+      analyzedPrintTime: analysis.estimatedTime,
+      filamentLength: round(analysis.filament.reduce((sum, length) => sum + length, 0)),
+      filamentPerExtruder: analysis.filament,
+      maxTemperatures: analysis.maxTemperatures,
+      slicer: metadata.slicer,
+      layerHeight: metadata.layerHeight,
+      material: metadata.material,
+    };
   }
 
-  private async generateThumbnail(filePath: string, filename: string): Promise<string> {
+  private async generateThumbnail(
+    filePath: string,
+    filename: string,
+    fileType: string,
+    bounds: BoundingBox | undefined
+  ): Promise<string | null> {
     try {
-      // For now, return a placeholder thumbnail
-      // In a real implementation, you'd generate a 3D preview image
-      const thumbnailName = `${path.parse(filename).name}.jpg`;
-      const thumbnailPath = path.join(this.thumbnailDir, thumbnailName);
-
-      // Create a simple placeholder image
-      await sharp({
-        create: {
-          width: 200,
-          height: 200,
-          channels: 3,
-          background: { r: 240, g: 240, b: 240 },
-        },
-      })
-        .jpeg({ quality: 80 })
-        .toFile(thumbnailPath);
+      const image = await thumbnailService.generate(filePath, fileType, bounds);
+      if (!image) return null;
 
+      const thumbnailName = `${path.parse(filename).name}.jpg`;
+      await fs.writeFile(path.join(this.thumbnailDir, thumbnailName), image);
       return `/uploads/thumbnails/${thumbnailName}`;
     } catch (error) {
       console.error('Failed to generate thumbnail:', error);
-      return '';
+      return null;
+    }
+  }
+
+  // Renames, moves and retags a file; its search text follows
+  public async updateFile(fileId: string, userId: string, changes: FileChanges) {
+    const file = await prisma.file.findFirst({
+      where: {
+        id: fileId,
+        userId,
+      },
+    });
+
+    if (!file) {
+      return null;
+    }
+
+    const originalName = changes.originalName !== undefined ? changes.originalName.trim() : file.originalName;
+    if (!originalName) {
+      throw new Error('File name is required');
     }
+    // The type is taken from the extension, so it stays
+    if (path.extname(originalName).toLowerCase() !== path.extname(file.originalName).toLowerCase()) {
+      throw new Error('The file extension cannot be changed');
+    }
+    if (changes.folderId) {
+      await folderService.get(userId, changes.folderId);
+    }
+    const tags = changes.tags !== undefined ? this.normalizeTags(changes.tags) : file.tags;
+
+    // Only a file without versions of its own can join another's history
+    let versioning = {};
+    if (changes.versionOf) {
+      if (file.versionGroup) {
+        throw new Error('A file that already has versions cannot become a version of another');
+      }
+      const base = await this.versionBase(changes.versionOf, userId);
+      if (base.id === file.id || base.fileType !== file.fileType) {
+        throw new Error('A file can only become a version of another file of the same type');
+      }
+      versioning = await this.nextVersion(base);
+    }
+
+    return prisma.file.update({
+      where: { id: fileId },
+      data: {
+        originalName,
+        folderId: changes.folderId !== undefined ? changes.folderId : file.folderId,
+        tags,
+        searchText: this.searchTextFor(originalName, tags, file.metadata as FileMetadata | null),
+        ...versioning,
+      },
+      include: {
+        folder: {
+          select: {
+            id: true,
+            name: true,
+          },
+        },
+      },
+    });
+  }
+
+  // Every tag the user has given a file, most used first
+  public async getUserTags(userId: string): Promise<{ tag: string; count: number }[]> {
+    const files = await prisma.file.findMany({
+      where: { userId, tags: { isEmpty: false } },
+      select: { tags: true },
+    });
+
+    const counts = new Map<string, number>();
+    for (const file of files) {
+      for (const tag of file.tags) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+    return [...counts]
+      .map(([tag, count]) => ({ tag, count }))
+      .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+  }
+
+  // Tags are trimmed and lowercased, so "PLA" and "pla " are the same tag
+  private normalizeTags(tags: string[]): string[] {
+    const normalized = new Set<string>();
+    for (const tag of tags) {
+      const clean = String(tag).trim().replace(/\s+/g, ' ').toLowerCase();
+      if (!clean) continue;
+      if (clean.length > MAX_TAG_LENGTH) {
+        throw new Error(`Tags are limited to ${MAX_TAG_LENGTH} characters`);
+      }
+      normalized.add(clean);
+    }
+    if (normalized.size > MAX_TAGS) {
+      throw new Error(`A file can have at most ${MAX_TAGS} tags`);
+    }
+    return [...normalized];
+  }
+
+  // Lowercased words the q filter matches: the name, tags, and what the slicer or model says about the print
+  private searchTextFor(originalName: string, tags: string[], metadata: FileMetadata | null): string {
+    const terms = [originalName, ...tags];
+    if (metadata) {
+      const { material, slicer, application, layerHeight, objects, materials, plates } = metadata;
+      terms.push(material ?? '', slicer ?? '', application ?? '');
+      if (layerHeight) terms.push(`${layerHeight}mm`);
+      for (const object of objects ?? []) terms.push(object.name ?? '');
+      terms.push(...(materials ?? []));
+      for (const plate of plates ?? []) terms.push(plate.material ?? '');
+    }
+    return [...new Set(terms.map((term) => term.trim().toLowerCase()).filter(Boolean))].join(' ');
   }
 
   public async deleteFile(fileId: string, userId: string): Promise<boolean> {
@@ -292,23 +706,31 @@ export class FileUploadService {
         return false;
       }
 
-      // Delete physical file
-      try {
-        await fs.unlink(file.filePath);
-      } catch (error) {
-        console.error('Failed to delete physical file:', error);
+      // Delete physical file, unless another upload of the same content still uses it
+      const sharedWith = await prisma.file.count({
+        where: { filePath: file.filePath, id: { not: fileId } },
+      });
+      if (!sharedWith) {
+        try {
+          await fs.unlink(file.filePath);
+        } catch (error) {
+          console.error('Failed to delete physical file:', error);
+        }
       }
 
-      // Delete thumbnail if exists
-      // Note: thumbnailUrl field not yet implemented in schema
-      // if (file.thumbnailUrl) {
-      //   try {
-      //     const thumbnailPath = path.join(process.cwd(), 'public', file.thumbnailUrl);
-      //     await fs.unlink(thumbnailPath);
-      //   } catch (error) {
-      //     console.error('Failed to delete thumbnail:', error);
-      //   }
-      // }
+      // Delete thumbnail if exists; uploads of the same content share it too
+      if (file.thumbnailUrl) {
+        const thumbnailSharedWith = await prisma.file.count({
+          where: { thumbnailUrl: file.thumbnailUrl, id: { not: fileId } },
+        });
+        if (!thumbnailSharedWith) {
+          try {
+            await fs.unlink(this.thumbnailPath(file.thumbnailUrl));
+          } catch (error) {
+            console.error('Failed to delete thumbnail:', error);
+          }
+        }
+      }
 
       // Delete from database
       await prisma.file.delete({
@@ -348,18 +770,13 @@ export class FileUploadService {
     }
   }
 
-  public async getUserFiles(
-    userId: string,
-    options: {
-      type?: string;
-      page?: number;
-      limit?: number;
-      sort?: 'name' | 'date' | 'size';
-      order?: 'asc' | 'desc';
-    } = {}
-  ) {
+  public async getUserFiles(userId: string, options: FileListOptions = {}) {
     const {
       type,
+      folderId,
+      recursive = false,
+      q,
+      tags,
       page = 1,
       limit = 20,
       sort = 'date',
@@ -367,9 +784,31 @@ export class FileUploadService {
     } = options;
 
     const where: any = { userId };
+    const conditions: any[] = [];
     if (type) {
       where.fileType = type;
     }
+    if (folderId === 'root') {
+      where.folderId = null;
+    } else if (folderId) {
+      where.folderId = recursive ? { in: await folderService.descendantIds(userId, folderId) } : folderId;
+    }
+    if (tags?.length) {
+      where.tags = { hasEvery: tags.map((tag) => tag.trim().toLowerCase()) };
+    }
+    // Each word on its own, so "benchy petg" finds "3DBenchy.gcode" sliced for PETG
+    for (const word of (q || '').toLowerCase().split(/\s+/).filter(Boolean)) {
+      conditions.push({ searchText: { contains: word } });
+    }
+    for (const [option, metadataPath, bound] of RANGE_FILTERS) {
+      const value = options[option];
+      if (typeof value === 'number' && Number.isFinite(value)) {
+        conditions.push({ metadata: { path: metadataPath, [bound]: value } });
+      }
+    }
+    if (conditions.length) {
+      where.AND = conditions;
+    }
 
     const orderBy: any = {};
     if (sort === 'name') {
@@ -393,6 +832,12 @@ export class FileUploadService {
               username: true,
             },
           },
+          folder: {
+            select: {
+              id: true,
+              name: true,
+            },
+          },
           _count: {
             select: {
               printJobs: true,
@@ -412,4 +857,6 @@ export class FileUploadService {
   }
 }
 
+const round = (value: number) => Math.round(value * 100) / 100;
+
 export const fileUploadService = new FileUploadService();
@@ -0,0 +1,152 @@
+import { prisma } from '../../lib/prisma';
+
+export interface FolderNode {
+  id: string;
+  name: string;
+  parentId: string | null;
+  fileCount: number;
+  children: FolderNode[];
+}
+
+const MAX_NAME_LENGTH = 100;
+const MAX_DEPTH = 16;
+
+/**
+ * Nested folders of a user's file library. Names are unique among siblings and compared
+ * case-insensitively; a folder can only be deleted once it holds no files or subfolders.
+ * Uploads address folders by path ("prints/2024/gifts"), missing folders are created.
+ */
+export class FolderService {
+  // The user's folders as a tree, children sorted by name
+  async getTree(userId: string): Promise<FolderNode[]> {
+    const folders = await prisma.folder.findMany({
+      where: { userId },
+      orderBy: { name: 'asc' },
+      include: { _count: { select: { files: true } } },
+    });
+
+    const nodes = new Map<string, FolderNode>();
+    for (const folder of folders) {
+      nodes.set(folder.id, { id: folder.id, name: folder.name, parentId: folder.parentId, fileCount: folder._count.files, children: [] });
+    }
+    const roots: FolderNode[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.parentId ? nodes.get(node.parentId) : undefined;
+      if (parent) parent.children.push(node);
+      else roots.push(node);
+    }
+    return roots;
+  }
+
+  async create(userId: string, name: string, parentId: string | null = null) {
+    const cleanName = this.validName(name);
+    if (parentId) await this.get(userId, parentId);
+    await this.assertNameFree(userId, parentId, cleanName);
+    if (parentId && (await this.depth(parentId)) >= MAX_DEPTH) {
+      throw new Error(`Folders cannot be nested more than ${MAX_DEPTH} levels deep`);
+    }
+    return prisma.folder.create({ data: { userId, name: cleanName, parentId } });
+  }
+
+  // Renames and/or moves a folder; parentId null moves it to the top level
+  async update(userId: string, folderId: string, changes: { name?: string; parentId?: string | null }) {
+    const folder = await this.get(userId, folderId);
+    const name = changes.name !== undefined ? this.validName(changes.name) : folder.name;
+    const parentId = changes.parentId !== undefined ? changes.parentId : folder.parentId;
+
+    if (parentId !== folder.parentId && parentId) {
+      await this.get(userId, parentId);
+      if ((await this.descendantIds(userId, folderId)).includes(parentId)) {
+        throw new Error('A folder cannot be moved into itself or one of its subfolders');
+      }
+      if ((await this.depth(parentId)) + (await this.height(folderId)) > MAX_DEPTH) {
+        throw new Error(`Folders cannot be nested more than ${MAX_DEPTH} levels deep`);
+      }
+    }
+    if (name.toLowerCase() !== folder.name.toLowerCase() || parentId !== folder.parentId) {
+      await this.assertNameFree(userId, parentId, name, folderId);
+    }
+
+    return prisma.folder.update({ where: { id: folderId }, data: { name, parentId } });
+  }
+
+  async delete(userId: string, folderId: string): Promise<void> {
+    const folder = await this.get(userId, folderId);
+    const [files, children] = await Promise.all([
+      prisma.file.count({ where: { folderId } }),
+      prisma.folder.count({ where: { parentId: folderId } }),
+    ]);
+    if (files || children) throw new Error(`Folder "${folder.name}" is not empty`);
+    await prisma.folder.delete({ where: { id: folderId } });
+  }
+
+  async get(userId: string, folderId: string) {
+    const folder = await prisma.folder.findFirst({ where: { id: folderId, userId } });
+    if (!folder) throw new Error('Folder not found');
+    return folder;
+  }
+
+  // Id of the folder at a slash-separated path, creating the missing ones; null for an empty path
+  async ensurePath(userId: string, folderPath: string | undefined | null): Promise<string | null> {
+    const names = (folderPath || '')
+      .split(/[\\/]+/)
+      .map((name) => name.trim())
+      .filter((name) => name && name !== '.');
+    if (names.length > MAX_DEPTH) throw new Error(`Folders cannot be nested more than ${MAX_DEPTH} levels deep`);
+
+    let parentId: string | null = null;
+    for (const name of names) {
+      const cleanName = this.validName(name);
+      const existing: { id: string } | null = await prisma.folder.findFirst({
+        where: { userId, parentId, name: { equals: cleanName, mode: 'insensitive' } },
+        select: { id: true },
+      });
+      parentId = existing ? existing.id : (await prisma.folder.create({ data: { userId, name: cleanName, parentId } })).id;
+    }
+    return parentId;
+  }
+
+  // Ids of a folder and everything below it, for listings that include subfolders
+  async descendantIds(userId: string, folderId: string): Promise<string[]> {
+    const folders = await prisma.folder.findMany({ where: { userId }, select: { id: true, parentId: true } });
+    const ids = [folderId];
+    for (let i = 0; i < ids.length; i++) {
+      for (const folder of folders) if (folder.parentId === ids[i]) ids.push(folder.id);
+    }
+    return ids;
+  }
+
+  private validName(name: unknown): string {
+    const cleanName = typeof name === 'string' ? name.trim() : '';
+    if (!cleanName) throw new Error('Folder name is required');
+    if (cleanName.length > MAX_NAME_LENGTH) throw new Error(`Folder names are limited to ${MAX_NAME_LENGTH} characters`);
+    if (/[\\/]/.test(cleanName) || cleanName === '.' || cleanName === '..') throw new Error('Folder names cannot contain slashes');
+    return cleanName;
+  }
+
+  private async assertNameFree(userId: string, parentId: string | null, name: string, exceptId?: string) {
+    const sibling = await prisma.folder.findFirst({
+      where: { userId, parentId, name: { equals: name, mode: 'insensitive' }, ...(exceptId ? { id: { not: exceptId } } : {}) },
+    });
+    if (sibling) throw new Error(`A folder named "${name}" already exists here`);
+  }
+
+  // Number of folders from the top level down to this one, itself included
+  private async depth(folderId: string): Promise<number> {
+    let depth = 0;
+    for (let id: string | null = folderId; id; depth++) {
+      id = (await prisma.folder.findUnique({ where: { id }, select: { parentId: true } }))?.parentId ?? null;
+    }
+    return depth;
+  }
+
+  // Levels of folders from this one to its deepest subfolder, itself included
+  private async height(folderId: string): Promise<number> {
+    const children = await prisma.folder.findMany({ where: { parentId: folderId }, select: { id: true } });
+    let deepest = 0;
+    for (const child of children) deepest = Math.max(deepest, await this.height(child.id));
+    return deepest + 1;
+  }
+}
+
+export const folderService = new FolderService();
@@ -0,0 +1,135 @@
+import { createReadStream } from 'fs';
+import { createInterface } from 'readline';
+import { STLParser, type FacetHandler, type STLAnalysis, type Vec3 } from './STLParser';
+
+export interface OBJObject {
+  name: string | null; // null for faces written before any `o` or `g` line
+  triangleCount: number;
+  materials: string[]; // `usemtl` names used by its faces
+}
+
+export interface OBJAnalysis extends Omit<STLAnalysis, 'format'> {
+  objects: OBJObject[];
+  materials: string[];
+  materialLibraries: string[]; // `mtllib` files; they are not uploaded with the model
+}
+
+const NO_NORMAL: Vec3 = [0, 0, 0];
+
+/**
+ * Wavefront OBJ reader. Vertices are kept in memory, faces (triangles and polygons, fanned into
+ * triangles) stream through the same measurements as STL. Objects come from `o` lines, or from
+ * `g` groups in files that have none. Like STL, OBJ carries no units and millimetres are assumed.
+ *
+ *   const analysis = await OBJParser.analyzeFile(path);
+ */
+export class OBJParser {
+  static async analyzeFile(filePath: string): Promise<OBJAnalysis> {
+    const mesh = new STLParser();
+    const objects: OBJObject[] = [];
+    // Named objects by name, for files that switch back and forth between many of them
+    const named = new Map<string, OBJObject>();
+    const materials = new Set<string>();
+    const libraries = new Set<string>();
+    let current: OBJObject | null = null;
+    let material: string | null = null;
+
+    await readOBJ(filePath, {
+      facet: (a, b, c) => {
+        if (!current) {
+          current = { name: null, triangleCount: 0, materials: [] };
+          objects.push(current);
+        }
+        current.triangleCount++;
+        if (material && !current.materials.includes(material)) current.materials.push(material);
+        mesh.addFacet(NO_NORMAL, a, b, c);
+      },
+      object: (name) => {
+        current = named.get(name) ?? null;
+        if (!current) {
+          current = { name, triangleCount: 0, materials: [] };
+          named.set(name, current);
+          objects.push(current);
+        }
+      },
+      material: (name) => {
+        material = name;
+        materials.add(name);
+      },
+      library: (name) => libraries.add(name),
+    });
+
+    const { format, ...analysis } = mesh.analyze('ascii');
+    return {
+      ...analysis,
+      objects: objects.filter((object) => object.triangleCount > 0),
+      materials: [...materials],
+      materialLibraries: [...libraries],
+    };
+  }
+
+  static async readFacets(filePath: string, onFacet: FacetHandler): Promise<void> {
+    await readOBJ(filePath, { facet: (a, b, c) => onFacet(NO_NORMAL, a, b, c) });
+  }
+}
+
+type OBJHandlers = {
+  facet: (a: Vec3, b: Vec3, c: Vec3) => void;
+  object?: (name: string) => void;
+  material?: (name: string) => void;
+  library?: (name: string) => void;
+};
+
+async function readOBJ(filePath: string, on: OBJHandlers) {
+  const lines = createInterface({ input: createReadStream(filePath, { encoding: 'utf8' }), crlfDelay: Infinity });
+  const vertices: number[] = [];
+  let hasObjects = false;
+
+  // 1-based, or negative counting back from the latest vertex
+  const vertex = (token: string): Vec3 | null => {
+    const index = parseInt(token, 10);
+    const count = vertices.length / 3;
+    const i = index < 0 ? count + index : index - 1;
+    if (!Number.isInteger(i) || i < 0 || i >= count) return null;
+    return [vertices[i * 3], vertices[i * 3 + 1], vertices[i * 3 + 2]];
+  };
+
+  for await (const raw of lines) {
+    const line = raw.trim();
+    if (!line || line[0] === '#') continue;
+    const space = line.search(/\s/);
+    const keyword = space < 0 ? line : line.slice(0, space);
+    const rest = space < 0 ? '' : line.slice(space + 1).trim();
+
+    switch (keyword) {
+      case 'v': {
+        // Vertex colours may follow the position
+        const [x, y, z] = rest.split(/\s+/).map(Number);
+        vertices.push(x || 0, y || 0, z || 0);
+        break;
+      }
+      case 'f': {
+        // "f 1 2 3", "f 1/1 2/2 3/3", "f 1//1 2//2 3//3"; polygons are fanned from the first corner
+        const corners = rest.split(/\s+/).map((token) => vertex(token.split('/')[0]));
+        if (corners.some((corner) => !corner)) break;
+        for (let i = 1; i + 1 < corners.length; i++) on.facet(corners[0]!, corners[i]!, corners[i + 1]!);
+        break;
+      }
+      case 'o':
+        hasObjects = true;
+        on.object?.(rest);
+        break;
+      case 'g':
+        if (!hasObjects && rest) on.object?.(rest);
+        break;
+      case 'usemtl':
+        if (rest) on.material?.(rest);
+        break;
+      case 'mtllib':
+        if (rest) on.library?.(rest);
+        break;
+    }
+  }
+}
+
+export default OBJParser;
@@ -0,0 +1,153 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { prisma } from '../../lib/prisma';
+import { fileUploadService } from './FileUploadService';
+
+export interface MissingFile {
+  id: string;
+  userId: string;
+  originalName: string;
+  filePath: string;
+}
+
+export interface ReconciliationReport {
+  dryRun: boolean;
+  orphanedFiles: string[]; // uploads on disk without a file row
+  orphanedThumbnails: string[];
+  reclaimedBytes: number;
+  missingFiles: MissingFile[]; // rows whose file is gone from disk; reported, not deleted
+  startedAt: Date;
+  finishedAt: Date;
+}
+
+const RECONCILE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+// Multer writes an upload to disk before its row exists, and thumbnails are written before the row too
+const GRACE_PERIOD_MS = 60 * 60 * 1000;
+
+/**
+ * Brings the upload directory and the files table back in line: uploads and thumbnails no row
+ * refers to (interrupted or failed uploads, files deleted before thumbnails were cleaned up) are
+ * deleted, and rows whose file has disappeared are reported. Runs daily, and on demand from
+ * POST /api/storage/reconcile, where `dryRun` only reports.
+ */
+export class ReconciliationService {
+  private timer: NodeJS.Timeout | null = null;
+  private running: { dryRun: boolean; report: Promise<ReconciliationReport> } | null = null;
+  private lastReport: ReconciliationReport | null = null;
+
+  init(): void {
+    this.timer = setInterval(() => this.scheduledRun(), RECONCILE_INTERVAL_MS);
+    this.scheduledRun();
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  get last(): ReconciliationReport | null {
+    return this.lastReport;
+  }
+
+  // A run already in progress is shared when it is of the same kind; a dry run never stands in for a real one or the other way round
+  async run(dryRun = false): Promise<ReconciliationReport> {
+    if (this.running) {
+      if (this.running.dryRun === dryRun) return this.running.report;
+      throw new Error('Reconciliation is already running');
+    }
+    this.running = { dryRun, report: this.reconcile(dryRun) };
+    try {
+      const report = await this.running.report;
+      if (!dryRun) this.lastReport = report;
+      return report;
+    } finally {
+      this.running = null;
+    }
+  }
+
+  private async scheduledRun(): Promise<void> {
+    try {
+      const report = await this.run();
+      if (report.missingFiles.length) console.warn(`${report.missingFiles.length} files are missing from the upload directory`);
+    } catch (error) {
+      console.error('Failed to reconcile uploads:', error);
+    }
+  }
+
+  private async reconcile(dryRun: boolean): Promise<ReconciliationReport> {
+    const startedAt = new Date();
+    const files = await prisma.file.findMany({
+      select: { id: true, userId: true, originalName: true, filePath: true, thumbnailUrl: true },
+    });
+    const filePaths = new Set(files.map((file) => path.resolve(file.filePath)));
+    const thumbnails = new Set(files.filter((file) => file.thumbnailUrl).map((file) => path.basename(file.thumbnailUrl!)));
+
+    // An empty table more likely means the wrong database than a library nobody uses; nothing is deleted then
+    if (!files.length) dryRun = true;
+
+    const report: ReconciliationReport = {
+      dryRun,
+      orphanedFiles: [],
+      orphanedThumbnails: [],
+      reclaimedBytes: 0,
+      missingFiles: [],
+      startedAt,
+      finishedAt: startedAt,
+    };
+
+    for (const directory of fileUploadService.storageDirectories) {
+      for (const filePath of await this.staleFiles(directory)) {
+        if (filePaths.has(path.resolve(filePath))) continue;
+        report.reclaimedBytes += await this.remove(filePath, dryRun);
+        report.orphanedFiles.push(filePath);
+      }
+    }
+    for (const filePath of await this.staleFiles(fileUploadService.thumbnailDirectory)) {
+      if (thumbnails.has(path.basename(filePath))) continue;
+      report.reclaimedBytes += await this.remove(filePath, dryRun);
+      report.orphanedThumbnails.push(filePath);
+    }
+
+    for (const file of files) {
+      const exists = await fs.access(file.filePath).then(
+        () => true,
+        () => false
+      );
+      if (!exists) report.missingFiles.push({ id: file.id, userId: file.userId, originalName: file.originalName, filePath: file.filePath });
+    }
+
+    report.finishedAt = new Date();
+    return report;
+  }
+
+  // Files in a directory that have not been written to for the grace period
+  private async staleFiles(directory: string): Promise<string[]> {
+    let names: string[];
+    try {
+      names = await fs.readdir(directory);
+    } catch {
+      return [];
+    }
+    const stale: string[] = [];
+    for (const name of names) {
+      const filePath = path.join(directory, name);
+      const stats = await fs.stat(filePath).catch(() => null);
+      if (stats?.isFile() && Date.now() - stats.mtimeMs > GRACE_PERIOD_MS) stale.push(filePath);
+    }
+    return stale;
+  }
+
+  // Bytes freed, or that would be; a file that is already gone frees none
+  private async remove(filePath: string, dryRun: boolean): Promise<number> {
+    try {
+      const { size } = await fs.stat(filePath);
+      if (!dryRun) await fs.unlink(filePath);
+      return size;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return 0;
+      throw error;
+    }
+  }
+}
+
+export const reconciliationService = new ReconciliationService();
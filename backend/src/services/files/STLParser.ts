@@ -0,0 +1,212 @@
+import { createReadStream, promises as fs } from 'fs';
+import { createInterface } from 'readline';
+
+export type Vec3 = [number, number, number];
+
+export type FacetHandler = (normal: Vec3, a: Vec3, b: Vec3, c: Vec3) => void;
+
+export interface MeshCheck {
+  watertight: boolean; // every edge is shared by exactly two facets
+  manifold: boolean; // no edge is shared by more than two facets
+  boundaryEdges: number; // edges of holes and open borders
+  nonManifoldEdges: number;
+  inconsistentEdges: number; // shared by two facets wound the same way, i.e. one of them is flipped
+  invertedNormals: number; // facets whose stored normal points against their winding
+  insideOut: boolean; // the mesh encloses negative volume: every facet faces inwards
+}
+
+export interface STLAnalysis {
+  format: 'binary' | 'ascii';
+  triangleCount: number;
+  bounds: { min: { x: number; y: number; z: number }; max: { x: number; y: number; z: number } } | null;
+  volume: number; // mm³
+  surfaceArea: number; // mm²
+  // null for meshes above MAX_TOPOLOGY_TRIANGLES, which are too large to check in memory
+  mesh: MeshCheck | null;
+}
+
+const HEADER_BYTES = 80;
+const FACET_BYTES = 50;
+// Edge keys pack two vertex indices into one number below 2^53
+const VERTEX_INDEX_BITS = 26;
+const MAX_TOPOLOGY_TRIANGLES = 2_000_000;
+// Facet and edge direction counts share one number: forward * DIRECTION + backward
+const DIRECTION = 65536;
+
+/**
+ * Streaming STL analyzer for binary and ASCII files: bounds, volume (signed tetrahedra),
+ * surface area, and a topology check over shared edges for holes, non-manifold edges and
+ * flipped facets. STL carries no units; millimetres are assumed, as slicers do.
+ *
+ *   const analysis = await STLParser.analyzeFile(path);
+ */
+export class STLParser {
+  private triangles = 0;
+  private min: Vec3 | null = null;
+  private max: Vec3 | null = null;
+  private signedVolume = 0;
+  private area = 0;
+  private invertedNormals = 0;
+  private vertices: Map<string, number> | null = new Map();
+  private edges: Map<number, number> | null = new Map();
+
+  static async analyzeFile(filePath: string): Promise<STLAnalysis> {
+    const parser = new STLParser();
+    const format = await STLParser.readFacets(filePath, (normal, a, b, c) => parser.addFacet(normal, a, b, c));
+    return parser.analyze(format);
+  }
+
+  // Streams every facet of a binary or ASCII STL file to `onFacet`
+  static async readFacets(filePath: string, onFacet: FacetHandler): Promise<STLAnalysis['format']> {
+    if (await isBinary(filePath)) {
+      await readBinary(filePath, onFacet);
+      return 'binary';
+    }
+    await readAscii(filePath, onFacet);
+    return 'ascii';
+  }
+
+  addFacet(normal: Vec3, a: Vec3, b: Vec3, c: Vec3) {
+    this.triangles++;
+    for (const v of [a, b, c]) this.extend(v);
+
+    const ab: Vec3 = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+    const ac: Vec3 = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+    const cross: Vec3 = [ab[1] * ac[2] - ab[2] * ac[1], ab[2] * ac[0] - ab[0] * ac[2], ab[0] * ac[1] - ab[1] * ac[0]];
+    const doubleArea = Math.hypot(cross[0], cross[1], cross[2]);
+    this.area += doubleArea / 2;
+    // Tetrahedron from the origin: a · (b × c) / 6
+    this.signedVolume +=
+      (a[0] * (b[1] * c[2] - b[2] * c[1]) + a[1] * (b[2] * c[0] - b[0] * c[2]) + a[2] * (b[0] * c[1] - b[1] * c[0])) / 6;
+    // Many exporters write a zero normal; only a stated one can disagree with the winding
+    if (doubleArea > 0 && normal[0] * cross[0] + normal[1] * cross[1] + normal[2] * cross[2] < 0) this.invertedNormals++;
+
+    if (this.triangles > MAX_TOPOLOGY_TRIANGLES) {
+      this.vertices = null;
+      this.edges = null;
+    }
+    if (!this.vertices || !this.edges) return;
+    const ia = this.vertexIndex(a);
+    const ib = this.vertexIndex(b);
+    const ic = this.vertexIndex(c);
+    // Degenerate facets collapse onto an edge or a point and join nothing
+    if (ia === ib || ib === ic || ic === ia) return;
+    this.addEdge(ia, ib);
+    this.addEdge(ib, ic);
+    this.addEdge(ic, ia);
+  }
+
+  analyze(format: STLAnalysis['format']): STLAnalysis {
+    const round = (value: number) => Math.round(value * 100) / 100;
+    const point = (v: Vec3) => ({ x: round(v[0]), y: round(v[1]), z: round(v[2]) });
+    return {
+      format,
+      triangleCount: this.triangles,
+      bounds: this.min && this.max ? { min: point(this.min), max: point(this.max) } : null,
+      volume: round(Math.abs(this.signedVolume)),
+      surfaceArea: round(this.area),
+      mesh: this.checkMesh(),
+    };
+  }
+
+  private checkMesh(): MeshCheck | null {
+    if (!this.edges) return null;
+    let boundaryEdges = 0;
+    let nonManifoldEdges = 0;
+    let inconsistentEdges = 0;
+    for (const directions of this.edges.values()) {
+      const forward = Math.floor(directions / DIRECTION);
+      const backward = directions % DIRECTION;
+      const count = forward + backward;
+      if (count === 1) boundaryEdges++;
+      else if (count > 2) nonManifoldEdges++;
+      else if (forward !== backward) inconsistentEdges++;
+    }
+    return {
+      watertight: boundaryEdges === 0 && nonManifoldEdges === 0 && this.triangles > 0,
+      manifold: nonManifoldEdges === 0,
+      boundaryEdges,
+      nonManifoldEdges,
+      inconsistentEdges,
+      invertedNormals: this.invertedNormals,
+      insideOut: this.signedVolume < 0,
+    };
+  }
+
+  private extend(v: Vec3) {
+    if (!this.min || !this.max) {
+      this.min = [...v];
+      this.max = [...v];
+      return;
+    }
+    for (let axis = 0; axis < 3; axis++) {
+      if (v[axis] < this.min[axis]) this.min[axis] = v[axis];
+      if (v[axis] > this.max[axis]) this.max[axis] = v[axis];
+    }
+  }
+
+  private vertexIndex(v: Vec3): number {
+    const key = `${v[0]},${v[1]},${v[2]}`;
+    let index = this.vertices!.get(key);
+    if (index === undefined) {
+      index = this.vertices!.size;
+      this.vertices!.set(key, index);
+    }
+    return index;
+  }
+
+  // Counts each undirected edge by the direction the facet walks it in
+  private addEdge(from: number, to: number) {
+    const [low, high] = from < to ? [from, to] : [to, from];
+    const key = low * 2 ** VERTEX_INDEX_BITS + high;
+    this.edges!.set(key, (this.edges!.get(key) ?? 0) + (from < to ? DIRECTION : 1));
+  }
+}
+
+// Binary files are exactly 84 bytes plus 50 per facet; ASCII ones may also start with "solid"
+async function isBinary(filePath: string): Promise<boolean> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    if (size < HEADER_BYTES + 4) return false;
+    const header = Buffer.alloc(HEADER_BYTES + 4);
+    await handle.read(header, 0, header.length, 0);
+    return size === HEADER_BYTES + 4 + header.readUInt32LE(HEADER_BYTES) * FACET_BYTES;
+  } finally {
+    await handle.close();
+  }
+}
+
+async function readBinary(filePath: string, onFacet: FacetHandler) {
+  let remainder = Buffer.alloc(0);
+  for await (const chunk of createReadStream(filePath, { start: HEADER_BYTES + 4 })) {
+    const buffer = remainder.length ? Buffer.concat([remainder, chunk as Buffer]) : (chunk as Buffer);
+    let offset = 0;
+    for (; offset + FACET_BYTES <= buffer.length; offset += FACET_BYTES) {
+      const f = (index: number) => buffer.readFloatLE(offset + index * 4);
+      onFacet([f(0), f(1), f(2)], [f(3), f(4), f(5)], [f(6), f(7), f(8)], [f(9), f(10), f(11)]);
+    }
+    remainder = Buffer.from(buffer.subarray(offset));
+  }
+}
+
+async function readAscii(filePath: string, onFacet: FacetHandler) {
+  const lines = createInterface({ input: createReadStream(filePath, { encoding: 'utf8' }), crlfDelay: Infinity });
+  let normal: Vec3 = [0, 0, 0];
+  let corners: Vec3[] = [];
+  for await (const raw of lines) {
+    const words = raw.trim().split(/\s+/);
+    if (words[0] === 'facet' && words[1] === 'normal') {
+      normal = [Number(words[2]) || 0, Number(words[3]) || 0, Number(words[4]) || 0];
+      corners = [];
+    } else if (words[0] === 'vertex') {
+      // Rounded to single precision like binary STL, so shared corners match exactly
+      corners.push([Math.fround(Number(words[1])), Math.fround(Number(words[2])), Math.fround(Number(words[3]))]);
+    } else if (words[0] === 'endfacet') {
+      if (corners.length === 3 && corners.every((v) => v.every(Number.isFinite))) onFacet(normal, corners[0], corners[1], corners[2]);
+      corners = [];
+    }
+  }
+}
+
+export default STLParser;
@@ -0,0 +1,120 @@
+import { UserRole } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+
+export interface StorageUsage {
+  userId: string;
+  usedBytes: number; // every file counts in full, also when its contents are shared with another upload
+  fileCount: number;
+  quotaBytes: number | null; // null for unlimited
+  quotaSource: 'user' | 'role';
+}
+
+export interface UserStorageUsage extends StorageUsage {
+  username: string;
+  email: string;
+  role: UserRole;
+}
+
+// Defaults for the STORAGE_QUOTA_<ROLE> variables; 0 is unlimited
+const ROLE_QUOTA_DEFAULTS: Record<UserRole, number> = {
+  ADMIN: 0,
+  OPERATOR: 10 * 1024 ** 3,
+  VIEWER: 1024 ** 3,
+};
+
+/**
+ * Per-user storage quotas. A user's quota comes from STORAGE_QUOTA_<ROLE> unless an admin
+ * has set one for them. Usage is the size of the user's files, so deduplicated uploads still
+ * count against every user who has them.
+ *
+ *   await storageService.assertCanStore(userId, file.size);
+ */
+export class StorageService {
+  private roleQuotas: Record<UserRole, number>;
+
+  constructor() {
+    this.roleQuotas = { ...ROLE_QUOTA_DEFAULTS };
+    for (const role of Object.values(UserRole)) {
+      const value = process.env[`STORAGE_QUOTA_${role}`];
+      if (value !== undefined && value !== '') this.roleQuotas[role] = parseInt(value);
+    }
+  }
+
+  async getUsage(userId: string): Promise<StorageUsage> {
+    const user = await prisma.user.findUnique({
+      where: { id: userId },
+      select: { role: true, storageQuota: true },
+    });
+    if (!user) throw new Error('User not found');
+
+    const usage = await prisma.file.aggregate({
+      where: { userId },
+      _sum: { fileSize: true },
+      _count: { _all: true },
+    });
+    return {
+      userId,
+      usedBytes: Number(usage._sum.fileSize ?? 0),
+      fileCount: usage._count._all,
+      ...this.quotaFor(user),
+    };
+  }
+
+  // Throws when storing `bytes` more would take the user over their quota; `reservedBytes` are promised to unfinished uploads
+  async assertCanStore(userId: string, bytes: number, reservedBytes = 0): Promise<void> {
+    const { usedBytes, quotaBytes } = await this.getUsage(userId);
+    if (quotaBytes !== null && usedBytes + reservedBytes + bytes > quotaBytes) {
+      const reserved = reservedBytes ? ` (${reservedBytes} more reserved by unfinished uploads)` : '';
+      throw new Error(`Storage quota exceeded: ${usedBytes} of ${quotaBytes} bytes used${reserved}, the file needs ${bytes}`);
+    }
+  }
+
+  // Usage of every user, largest first, and the bytes actually on disk once shared contents are counted once
+  async getReport(): Promise<{ users: UserStorageUsage[]; totalBytes: number; storedBytes: number; fileCount: number }> {
+    const [users, usage, stored] = await Promise.all([
+      prisma.user.findMany({ select: { id: true, username: true, email: true, role: true, storageQuota: true } }),
+      prisma.file.groupBy({ by: ['userId'], _sum: { fileSize: true }, _count: { _all: true } }),
+      prisma.file.findMany({ distinct: ['filePath'], select: { fileSize: true } }),
+    ]);
+
+    const report = users.map((user): UserStorageUsage => {
+      const row = usage.find((entry) => entry.userId === user.id);
+      return {
+        userId: user.id,
+        username: user.username,
+        email: user.email,
+        role: user.role,
+        usedBytes: Number(row?._sum.fileSize ?? 0),
+        fileCount: row?._count._all ?? 0,
+        ...this.quotaFor(user),
+      };
+    });
+    return {
+      users: report.sort((a, b) => b.usedBytes - a.usedBytes),
+      totalBytes: report.reduce((sum, user) => sum + user.usedBytes, 0),
+      storedBytes: stored.reduce((sum, file) => sum + Number(file.fileSize), 0),
+      fileCount: report.reduce((sum, user) => sum + user.fileCount, 0),
+    };
+  }
+
+  // A per-user quota in bytes, 0 for unlimited; null returns the user to their role's quota
+  async setQuota(userId: string, quotaBytes: number | null): Promise<StorageUsage> {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { id: true } });
+    if (!user) throw new Error('User not found');
+    await prisma.user.update({
+      where: { id: userId },
+      data: { storageQuota: quotaBytes === null ? null : BigInt(quotaBytes) },
+    });
+    return this.getUsage(userId);
+  }
+
+  private quotaFor(user: { role: UserRole; storageQuota: bigint | null }): Pick<StorageUsage, 'quotaBytes' | 'quotaSource'> {
+    const quota = user.storageQuota !== null ? Number(user.storageQuota) : this.roleQuotas[user.role];
+    return {
+      quotaBytes: quota > 0 ? quota : null,
+      quotaSource: user.storageQuota !== null ? 'user' : 'role',
+    };
+  }
+}
+
+export const storageService = new StorageService();
@@ -0,0 +1,434 @@
+import { GCodeParser, type GCodeAnalysis } from '../printer/GCodeParser';
+import { STLParser, type FacetHandler, type STLAnalysis, type Vec3 } from './STLParser';
+import { ZipArchive } from './ZipArchive';
+
+export interface ThreeMFObject {
+  id: string;
+  name: string | null;
+  triangleCount: number; // per instance
+  instances: number; // build items placing it on the plate
+  color: string | null; // "#RRGGBB", from its material or the filament of its extruder
+}
+
+// A plate the slicer sliced into the package (Bambu Studio, OrcaSlicer "gcode.3mf" files)
+export interface ThreeMFPlate {
+  plate: number;
+  estimatedPrintTime: number; // seconds; the slicer's estimate when the G-code has one
+  analyzedPrintTime: number;
+  layerCount: number;
+  filamentLength: number; // mm
+  maxTemperatures: GCodeAnalysis['maxTemperatures'];
+  material?: string;
+}
+
+export interface ThreeMFAnalysis extends Omit<STLAnalysis, 'format'> {
+  unit: string; // as declared by the package; every figure is converted to millimetres
+  application: string | null; // "PrusaSlicer-2.7.1", "BambuStudio-01.08.04.51", ...
+  objects: ThreeMFObject[];
+  colors: string[];
+  thumbnail: string | null; // package path of the embedded preview
+  plates: ThreeMFPlate[];
+}
+
+type Matrix = number[]; // 3MF's 3×4 row-major affine transform
+
+type ModelObject = {
+  id: string;
+  name: string | null;
+  color: string | null;
+  vertices: number[];
+  triangles: number[];
+  components: { objectId: string; path: string; transform: Matrix }[];
+};
+
+type Model = {
+  unit: string;
+  metadata: Record<string, string>;
+  objects: Map<string, ModelObject>;
+  build: { objectId: string; path: string; transform: Matrix }[];
+  colors: Set<string>;
+};
+
+const IDENTITY: Matrix = [1, 0, 0, 0, 1, 0, 0, 0, 1, 0, 0, 0];
+const NO_NORMAL: Vec3 = [0, 0, 0];
+const UNITS: Record<string, number> = { micron: 0.001, millimeter: 1, centimeter: 10, inch: 25.4, foot: 304.8, meter: 1000 };
+const DEFAULT_MODEL = '3D/3dmodel.model';
+const MODEL_RELATIONSHIP = /\/3dmodel$/;
+const THUMBNAIL_RELATIONSHIP = /\/metadata\/thumbnail$/;
+// Model parts are read whole; larger ones are refused rather than exhausting memory
+const MAX_MODEL_BYTES = 256 * 1024 * 1024;
+const MAX_GCODE_BYTES = 512 * 1024 * 1024;
+// Components may nest, but not endlessly
+const MAX_DEPTH = 16;
+// Nested components multiply: a few bytes of XML can place billions of triangles, so the placed total is capped
+const MAX_PLACED_TRIANGLES = 5_000_000;
+const MAX_PLACED_OBJECTS = 100_000;
+const PLATE_GCODE = /^Metadata\/plate_(\d+)\.gcode$/i;
+
+const TAG = /<(\/?)([A-Za-z_][\w:.-]*)([^>]*)>/g;
+const ATTRIBUTE = /([\w:.-]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+
+/**
+ * 3MF package reader: the ZIP is opened in place and the model XML parsed with the core
+ * materials and production extensions (components in separate model parts). Build items are
+ * placed with their transforms and measured like an STL. Object names and extruder colours
+ * are also taken from PrusaSlicer and Bambu Studio project configs, and plate G-code that a
+ * slicer stored in the package is analyzed like an uploaded G-code file.
+ *
+ *   const analysis = await ThreeMFParser.analyzeFile(path);
+ */
+export class ThreeMFParser {
+  private models = new Map<string, Model>();
+  private root = DEFAULT_MODEL;
+  private thumbnailPath: string | null = null;
+  private placedTriangles = 0;
+  private placedObjects = 0;
+
+  private constructor(private zip: ZipArchive) {}
+
+  static async analyzeFile(filePath: string): Promise<ThreeMFAnalysis> {
+    return ThreeMFParser.withPackage(filePath, (parser) => parser.analyze());
+  }
+
+  static async readFacets(filePath: string, onFacet: FacetHandler): Promise<void> {
+    await ThreeMFParser.withPackage(filePath, async (parser) => {
+      const root = await parser.model(parser.root);
+      const scale = UNITS[root.unit] ?? 1;
+      for (const item of root.build) {
+        await parser.place(item.path, item.objectId, item.transform, scale, [], (a, b, c) => onFacet(NO_NORMAL, a, b, c));
+      }
+    });
+  }
+
+  // The embedded preview image (PNG or JPEG), or null
+  static async readThumbnail(filePath: string): Promise<Buffer | null> {
+    return ThreeMFParser.withPackage(filePath, async (parser) =>
+      parser.thumbnailPath ? parser.zip.read(parser.thumbnailPath, MAX_MODEL_BYTES) : null
+    );
+  }
+
+  private static async withPackage<T>(filePath: string, use: (parser: ThreeMFParser) => Promise<T>): Promise<T> {
+    const zip = await ZipArchive.open(filePath);
+    try {
+      const parser = new ThreeMFParser(zip);
+      await parser.readRelationships();
+      return await use(parser);
+    } finally {
+      await zip.close();
+    }
+  }
+
+  private async analyze(): Promise<ThreeMFAnalysis> {
+    const root = await this.model(this.root);
+    const scale = UNITS[root.unit] ?? 1;
+    const config = await this.readConfig();
+    const mesh = new STLParser();
+    const objects = new Map<string, ThreeMFObject>();
+    const colors = new Set<string>();
+
+    for (const item of root.build) {
+      const key = `${item.path}#${item.objectId}`;
+      let object = objects.get(key);
+      if (!object) {
+        const source = (await this.model(item.path)).objects.get(item.objectId);
+        const extruder = config.extruders.get(item.objectId);
+        object = {
+          id: item.objectId,
+          name: source?.name ?? config.names.get(item.objectId) ?? null,
+          triangleCount: 0,
+          instances: 0,
+          color: source?.color ?? (extruder ? config.filamentColors[extruder - 1] ?? null : null),
+        };
+        objects.set(key, object);
+      }
+      object.instances++;
+      let triangles = 0;
+      await this.place(item.path, item.objectId, item.transform, scale, [], (a, b, c) => {
+        triangles++;
+        mesh.addFacet(NO_NORMAL, a, b, c);
+      });
+      object.triangleCount = triangles;
+      if (object.color) colors.add(object.color);
+    }
+    for (const model of this.models.values()) model.colors.forEach((color) => colors.add(color));
+
+    const { format, ...analysis } = mesh.analyze('binary');
+    return {
+      ...analysis,
+      unit: root.unit,
+      application: root.metadata.Application ?? null,
+      objects: [...objects.values()],
+      colors: [...colors],
+      thumbnail: this.thumbnailPath,
+      plates: await this.readPlates(),
+    };
+  }
+
+  // The root model part and the package thumbnail, as declared in _rels/.rels
+  private async readRelationships() {
+    if (this.zip.get('_rels/.rels')) {
+      const xml = (await this.zip.read('_rels/.rels', MAX_MODEL_BYTES)).toString('utf8');
+      for (const { name, attributes } of tags(xml)) {
+        if (name !== 'Relationship' || !attributes.Target) continue;
+        const target = attributes.Target.replace(/^\//, '');
+        if (MODEL_RELATIONSHIP.test(attributes.Type ?? '')) this.root = target;
+        if (THUMBNAIL_RELATIONSHIP.test(attributes.Type ?? '') && this.zip.get(target)) this.thumbnailPath = target;
+      }
+    }
+    // Bambu Studio keeps its plate previews outside the relationships
+    this.thumbnailPath ??= ['Metadata/plate_1.png', 'Metadata/thumbnail.png'].find((path) => this.zip.get(path)) ?? null;
+  }
+
+  /**
+   * Walks an object and its components, handing out transformed triangles in millimetres.
+   * `ancestors` are the objects the walk came through; meeting one again is a cycle.
+   */
+  private async place(path: string, objectId: string, transform: Matrix, scale: number, ancestors: string[], onTriangle: (a: Vec3, b: Vec3, c: Vec3) => void) {
+    if (ancestors.length > MAX_DEPTH) return;
+    const key = `${path}#${objectId}`;
+    if (ancestors.includes(key)) throw new Error(`Invalid 3MF: object ${objectId} contains itself`);
+    const object = (await this.model(path)).objects.get(objectId);
+    if (!object) return;
+    const { vertices, triangles } = object;
+    this.placedObjects++;
+    this.placedTriangles += triangles.length / 3;
+    if (this.placedObjects > MAX_PLACED_OBJECTS || this.placedTriangles > MAX_PLACED_TRIANGLES) {
+      throw new Error(`3MF model is too complex: its components place more than ${MAX_PLACED_TRIANGLES} triangles or ${MAX_PLACED_OBJECTS} objects`);
+    }
+    const point = (index: number): Vec3 => {
+      const [x, y, z] = [vertices[index * 3], vertices[index * 3 + 1], vertices[index * 3 + 2]];
+      const m = transform;
+      return [
+        (x * m[0] + y * m[3] + z * m[6] + m[9]) * scale,
+        (x * m[1] + y * m[4] + z * m[7] + m[10]) * scale,
+        (x * m[2] + y * m[5] + z * m[8] + m[11]) * scale,
+      ];
+    };
+    const count = vertices.length / 3;
+    for (let i = 0; i + 2 < triangles.length; i += 3) {
+      const [v1, v2, v3] = [triangles[i], triangles[i + 1], triangles[i + 2]];
+      if (v1 >= count || v2 >= count || v3 >= count) continue;
+      onTriangle(point(v1), point(v2), point(v3));
+    }
+    for (const component of object.components) {
+      await this.place(component.path, component.objectId, multiply(component.transform, transform), scale, [...ancestors, key], onTriangle);
+    }
+  }
+
+  private async model(path: string): Promise<Model> {
+    let model = this.models.get(path);
+    if (!model) {
+      model = parseModel((await this.zip.read(path, MAX_MODEL_BYTES)).toString('utf8'), path);
+      this.models.set(path, model);
+    }
+    return model;
+  }
+
+  /**
+   * Object names, extruders and filament colours from the slicer's project files:
+   * Metadata/model_settings.config and project_settings.config (Bambu Studio, OrcaSlicer),
+   * Metadata/Slic3r_PE_model.config and Slic3r_PE.config (PrusaSlicer).
+   */
+  private async readConfig() {
+    const names = new Map<string, string>();
+    const extruders = new Map<string, number>();
+    let filamentColors: (string | null)[] = [];
+
+    for (const path of ['Metadata/model_settings.config', 'Metadata/Slic3r_PE_model.config']) {
+      if (!this.zip.get(path)) continue;
+      let objectId: string | null = null;
+      let inPart = false;
+      for (const { closing, selfClosing, name, attributes } of tags((await this.zip.read(path, MAX_MODEL_BYTES)).toString('utf8'))) {
+        if (name === 'object') objectId = closing ? null : attributes.id ?? null;
+        else if ((name === 'part' || name === 'volume') && !selfClosing) inPart = !closing;
+        else if (name === 'metadata' && objectId && !inPart) {
+          if (attributes.key === 'name' && attributes.value) names.set(objectId, attributes.value);
+          if (attributes.key === 'extruder') extruders.set(objectId, parseInt(attributes.value, 10) || 1);
+        }
+      }
+    }
+
+    if (this.zip.get('Metadata/project_settings.config')) {
+      try {
+        const settings = JSON.parse((await this.zip.read('Metadata/project_settings.config', MAX_MODEL_BYTES)).toString('utf8'));
+        if (Array.isArray(settings.filament_colour)) filamentColors = settings.filament_colour.map(normalizeColor);
+      } catch (error) {
+        console.error('Failed to read 3MF project settings:', error);
+      }
+    } else if (this.zip.get('Metadata/Slic3r_PE.config')) {
+      const text = (await this.zip.read('Metadata/Slic3r_PE.config', MAX_MODEL_BYTES)).toString('utf8');
+      const match = text.match(/^; (?:extruder|filament)_colour = (.+)$/m);
+      if (match) filamentColors = match[1].split(';').map(normalizeColor);
+    }
+    return { names, extruders, filamentColors: filamentColors.filter((color): color is string => color !== null) };
+  }
+
+  private async readPlates(): Promise<ThreeMFPlate[]> {
+    const plates: ThreeMFPlate[] = [];
+    for (const name of this.zip.entries.keys()) {
+      const match = name.match(PLATE_GCODE);
+      if (!match) continue;
+      const parser = new GCodeParser();
+      const gcode = await this.zip.read(name, MAX_GCODE_BYTES);
+      for (let start = 0; start < gcode.length; ) {
+        const newline = gcode.indexOf(0x0a, start);
+        const end = newline < 0 ? gcode.length : newline;
+        parser.feed(gcode.toString('utf8', start, end));
+        start = end + 1;
+      }
+      const analysis = parser.analyze();
+      plates.push({
+        plate: parseInt(match[1], 10),
+        estimatedPrintTime: analysis.metadata.estimatedTime ?? analysis.estimatedTime,
+        analyzedPrintTime: analysis.estimatedTime,
+        layerCount: analysis.layers.length,
+        filamentLength: Math.round(analysis.filament.reduce((sum, length) => sum + length, 0) * 100) / 100,
+        maxTemperatures: analysis.maxTemperatures,
+        material: analysis.metadata.material,
+      });
+    }
+    return plates.sort((a, b) => a.plate - b.plate);
+  }
+}
+
+function parseModel(xml: string, path: string): Model {
+  const model: Model = { unit: 'millimeter', metadata: {}, objects: new Map(), build: [], colors: new Set() };
+  // Material groups by id: base materials and colour groups both index colours by position
+  const groups = new Map<string, (string | null)[]>();
+  let group: (string | null)[] | null = null;
+  let object: (ModelObject & { pid?: string; pindex?: string }) | null = null;
+  let metadata: { name: string; start: number } | null = null;
+
+  for (const { closing, selfClosing, name, attributes, start, end } of tags(xml)) {
+    switch (name) {
+      case 'model':
+        if (!closing && attributes.unit) model.unit = attributes.unit;
+        break;
+      case 'metadata':
+        // Only the model's own metadata; objects may carry theirs in metadata groups
+        if (object) break;
+        if (!closing && !selfClosing && attributes.name) metadata = { name: attributes.name, start: end };
+        else if (closing && metadata) {
+          model.metadata[metadata.name.replace(/^.*:/, '')] = decodeEntities(xml.slice(metadata.start, start).trim());
+          metadata = null;
+        }
+        break;
+      case 'basematerials':
+      case 'colorgroup':
+        if (closing) group = null;
+        else if (attributes.id) groups.set(attributes.id, (group = []));
+        break;
+      case 'base':
+      case 'color':
+        group?.push(normalizeColor(attributes.displaycolor ?? attributes.color));
+        break;
+      case 'object':
+        if (closing) {
+          if (object) model.objects.set(object.id, object);
+          object = null;
+        } else if (attributes.id) {
+          const color = attributes.pid ? groups.get(attributes.pid)?.[parseInt(attributes.pindex ?? '0', 10)] ?? null : null;
+          object = { id: attributes.id, name: attributes.name || null, color, vertices: [], triangles: [], components: [], pid: attributes.pid, pindex: attributes.pindex };
+          if (color) model.colors.add(color);
+          if (selfClosing) {
+            model.objects.set(object.id, object);
+            object = null;
+          }
+        }
+        break;
+      case 'vertex':
+        object?.vertices.push(Number(attributes.x) || 0, Number(attributes.y) || 0, Number(attributes.z) || 0);
+        break;
+      case 'triangle': {
+        if (!object) break;
+        object.triangles.push(parseInt(attributes.v1, 10), parseInt(attributes.v2, 10), parseInt(attributes.v3, 10));
+        const pid = attributes.pid ?? object.pid;
+        const index = attributes.p1 ?? (attributes.pid ? '0' : object.pindex);
+        const color = pid ? groups.get(pid)?.[parseInt(index ?? '0', 10)] : null;
+        if (color) model.colors.add(color);
+        break;
+      }
+      case 'component':
+        if (object && attributes.objectid) {
+          object.components.push({ objectId: attributes.objectid, path: modelPath(attributes.path, path), transform: parseTransform(attributes.transform) });
+        }
+        break;
+      case 'item':
+        if (attributes.objectid && attributes.printable !== '0') {
+          model.build.push({ objectId: attributes.objectid, path: modelPath(attributes.path, path), transform: parseTransform(attributes.transform) });
+        }
+        break;
+    }
+  }
+  return model;
+}
+
+type Tag = { closing: boolean; selfClosing: boolean; name: string; attributes: Record<string, string>; start: number; end: number };
+
+// Element tags in document order, names and attributes without their namespace prefix
+function* tags(xml: string): Generator<Tag> {
+  TAG.lastIndex = 0;
+  for (let match = TAG.exec(xml); match; match = TAG.exec(xml)) {
+    const attributes: Record<string, string> = {};
+    const body = match[3];
+    if (body.includes('=')) {
+      ATTRIBUTE.lastIndex = 0;
+      for (let attribute = ATTRIBUTE.exec(body); attribute; attribute = ATTRIBUTE.exec(body)) {
+        attributes[attribute[1].replace(/^.*:/, '')] = decodeEntities(attribute[2] ?? attribute[3]);
+      }
+    }
+    yield {
+      closing: match[1] === '/',
+      selfClosing: body.endsWith('/'),
+      name: match[2].replace(/^.*:/, ''),
+      attributes,
+      start: match.index,
+      end: TAG.lastIndex,
+    };
+  }
+}
+
+function decodeEntities(text: string): string {
+  if (!text.includes('&')) return text;
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, decimal) => String.fromCodePoint(parseInt(decimal, 10)))
+    .replace(/&amp;/g, '&');
+}
+
+// Production extension paths are absolute within the package; without one, the referencing part
+function modelPath(path: string | undefined, current: string): string {
+  return path ? path.replace(/^\//, '') : current;
+}
+
+function parseTransform(value: string | undefined): Matrix {
+  const numbers = value?.trim().split(/\s+/).map(Number);
+  return numbers && numbers.length === 12 && numbers.every(Number.isFinite) ? numbers : IDENTITY;
+}
+
+// `inner` applied first, then `outer`
+function multiply(inner: Matrix, outer: Matrix): Matrix {
+  const result: Matrix = [];
+  for (let row = 0; row < 4; row++) {
+    for (let column = 0; column < 3; column++) {
+      let value = row === 3 ? outer[9 + column] : 0;
+      for (let k = 0; k < 3; k++) value += inner[row * 3 + k] * outer[k * 3 + column];
+      result.push(value);
+    }
+  }
+  return result;
+}
+
+// "#RRGGBB" from "#RGB", "#RRGGBB" or "#RRGGBBAA"
+function normalizeColor(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+  let hex = value.trim().replace(/^#/, '').toUpperCase();
+  if (/^[0-9A-F]{3}$/.test(hex)) hex = hex.replace(/./g, (digit) => digit + digit);
+  return /^[0-9A-F]{6}([0-9A-F]{2})?$/.test(hex) ? `#${hex.slice(0, 6)}` : null;
+}
+
+export default ThreeMFParser;
@@ -0,0 +1,210 @@
+import sharp from 'sharp';
+import { GCodeParser, type BoundingBox, type Point3 } from '../printer/GCodeParser';
+import { OBJParser } from './OBJParser';
+import { STLParser, type FacetHandler, type Vec3 } from './STLParser';
+import { ThreeMFParser } from './ThreeMFParser';
+
+type RGB = [number, number, number];
+
+const THUMBNAIL_SIZE = 200;
+// Rendered at twice the size and scaled down, which smooths the edges
+const SUPERSAMPLE = 2;
+const MARGIN = 0.08;
+const BACKGROUND: RGB = [240, 240, 240];
+const MODEL_COLOR: RGB = [59, 130, 246];
+// Toolpaths shade from the first layer to the last
+const PATH_BOTTOM: RGB = [37, 99, 235];
+const PATH_TOP: RGB = [249, 115, 22];
+const AMBIENT = 0.35;
+
+const MESH_READERS: Record<string, (filePath: string, onFacet: FacetHandler) => Promise<unknown>> = {
+  STL: (filePath, onFacet) => STLParser.readFacets(filePath, onFacet),
+  OBJ: (filePath, onFacet) => OBJParser.readFacets(filePath, onFacet),
+  THREEMF: (filePath, onFacet) => ThreeMFParser.readFacets(filePath, onFacet),
+};
+
+// Isometric camera looking down from the front right: screen right, screen up, towards the viewer
+const RIGHT: Vec3 = [1 / Math.SQRT2, 1 / Math.SQRT2, 0];
+const UP: Vec3 = [-1 / Math.sqrt(6), 1 / Math.sqrt(6), 2 / Math.sqrt(6)];
+const VIEW: Vec3 = [1 / Math.sqrt(3), -1 / Math.sqrt(3), 1 / Math.sqrt(3)];
+// Light from over the viewer's left shoulder, in screen coordinates
+const LIGHT: Vec3 = normalize([-0.35, 0.5, 1]);
+
+/**
+ * Headless preview images for uploads. G-code and 3MF files use the thumbnail their slicer
+ * embedded when there is one; otherwise meshes (STL, OBJ, 3MF) are rasterized with flat shading
+ * and toolpaths drawn as lines, both from an isometric camera. Returns a JPEG, or null when there
+ * is nothing to show.
+ *
+ *   const jpeg = await thumbnailService.generate(path, 'STL', metadata.bounds);
+ */
+export class ThumbnailService {
+  async generate(filePath: string, fileType: string, bounds: BoundingBox | undefined): Promise<Buffer | null> {
+    const embedded = await this.embedded(filePath, fileType);
+    if (embedded) return embedded;
+    if (!bounds) return null;
+
+    const canvas = new Canvas(THUMBNAIL_SIZE * SUPERSAMPLE, bounds);
+    const readMesh = MESH_READERS[fileType];
+    if (readMesh) {
+      await readMesh(filePath, (_normal, a, b, c) => canvas.triangle(a, b, c, MODEL_COLOR));
+    } else if (fileType === 'GCODE') {
+      const height = bounds.max.z - bounds.min.z;
+      await GCodeParser.analyzeFile(filePath, {
+        onSegment: (from, to) => {
+          const t = height > 0 ? (to.z - bounds.min.z) / height : 0;
+          canvas.line(from, to, mix(PATH_BOTTOM, PATH_TOP, t));
+        },
+      });
+    } else {
+      return null;
+    }
+    return canvas.toJpeg();
+  }
+
+  // The slicer's preview fitted to the thumbnail size; of several in G-code the largest, QOI cannot be decoded here
+  private async embedded(filePath: string, fileType: string): Promise<Buffer | null> {
+    let image: Buffer | null = null;
+    if (fileType === 'GCODE') {
+      const [largest] = (await GCodeParser.readThumbnails(filePath))
+        .filter((thumbnail) => thumbnail.format !== 'qoi' && thumbnail.data.length)
+        .sort((a, b) => b.width * b.height - a.width * a.height);
+      image = largest?.data ?? null;
+    } else if (fileType === 'THREEMF') {
+      image = await ThreeMFParser.readThumbnail(filePath);
+    }
+    if (!image) return null;
+    const background = { r: BACKGROUND[0], g: BACKGROUND[1], b: BACKGROUND[2] };
+    try {
+      return await sharp(image)
+        .flatten({ background })
+        .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, { fit: 'contain', background })
+        .jpeg({ quality: 80 })
+        .toBuffer();
+    } catch (error) {
+      console.error('Failed to decode embedded thumbnail:', error);
+      return null;
+    }
+  }
+}
+
+// RGB pixels with a depth buffer; larger depth is closer to the camera
+class Canvas {
+  private pixels: Uint8Array;
+  private depth: Float32Array;
+  private scale: number;
+  private offsetX: number;
+  private offsetY: number;
+
+  constructor(private size: number, bounds: BoundingBox) {
+    this.pixels = new Uint8Array(size * size * 3);
+    for (let i = 0; i < this.pixels.length; i += 3) this.pixels.set(BACKGROUND, i);
+    this.depth = new Float32Array(size * size).fill(-Infinity);
+
+    // Fit the projected corners of the bounding box
+    let minX = Infinity;
+    let maxX = -Infinity;
+    let minY = Infinity;
+    let maxY = -Infinity;
+    for (const x of [bounds.min.x, bounds.max.x]) {
+      for (const y of [bounds.min.y, bounds.max.y]) {
+        for (const z of [bounds.min.z, bounds.max.z]) {
+          const sx = dot([x, y, z], RIGHT);
+          const sy = -dot([x, y, z], UP);
+          minX = Math.min(minX, sx);
+          maxX = Math.max(maxX, sx);
+          minY = Math.min(minY, sy);
+          maxY = Math.max(maxY, sy);
+        }
+      }
+    }
+    this.scale = (size * (1 - 2 * MARGIN)) / Math.max(maxX - minX, maxY - minY, 1e-6);
+    this.offsetX = size / 2 - ((minX + maxX) / 2) * this.scale;
+    this.offsetY = size / 2 - ((minY + maxY) / 2) * this.scale;
+  }
+
+  triangle(a: Vec3, b: Vec3, c: Vec3, color: RGB) {
+    const ab: Vec3 = [b[0] - a[0], b[1] - a[1], b[2] - a[2]];
+    const ac: Vec3 = [c[0] - a[0], c[1] - a[1], c[2] - a[2]];
+    const normal = normalize([ab[1] * ac[2] - ab[2] * ac[1], ab[2] * ac[0] - ab[0] * ac[2], ab[0] * ac[1] - ab[1] * ac[0]]);
+    // Lit from both sides, so open meshes and flipped facets still read
+    const light = Math.abs(dot(normal, RIGHT) * LIGHT[0] + dot(normal, UP) * LIGHT[1] + dot(normal, VIEW) * LIGHT[2]);
+    const shade = shaded(color, AMBIENT + (1 - AMBIENT) * light);
+
+    const [x0, y0, z0] = this.project(a);
+    const [x1, y1, z1] = this.project(b);
+    const [x2, y2, z2] = this.project(c);
+    const area = (x1 - x0) * (y2 - y0) - (x2 - x0) * (y1 - y0);
+    if (Math.abs(area) < 1e-9) return;
+    const left = Math.max(0, Math.floor(Math.min(x0, x1, x2)));
+    const right = Math.min(this.size - 1, Math.ceil(Math.max(x0, x1, x2)));
+    const top = Math.max(0, Math.floor(Math.min(y0, y1, y2)));
+    const bottom = Math.min(this.size - 1, Math.ceil(Math.max(y0, y1, y2)));
+    for (let y = top; y <= bottom; y++) {
+      const py = y + 0.5;
+      for (let x = left; x <= right; x++) {
+        const px = x + 0.5;
+        // Barycentric weights; all share the sign of the area inside the triangle
+        const w0 = ((x1 - px) * (y2 - py) - (x2 - px) * (y1 - py)) / area;
+        const w1 = ((x2 - px) * (y0 - py) - (x0 - px) * (y2 - py)) / area;
+        const w2 = 1 - w0 - w1;
+        if (w0 < 0 || w1 < 0 || w2 < 0) continue;
+        this.plot(x, y, w0 * z0 + w1 * z1 + w2 * z2, shade);
+      }
+    }
+  }
+
+  // A line SUPERSAMPLE pixels wide, so it stays one pixel wide once scaled down
+  line(from: Point3, to: Point3, color: RGB) {
+    const [x0, y0, z0] = this.project([from.x, from.y, from.z]);
+    const [x1, y1, z1] = this.project([to.x, to.y, to.z]);
+    const steps = Math.max(1, Math.ceil(Math.max(Math.abs(x1 - x0), Math.abs(y1 - y0))));
+    for (let i = 0; i <= steps; i++) {
+      const t = i / steps;
+      const x = Math.floor(x0 + (x1 - x0) * t);
+      const y = Math.floor(y0 + (y1 - y0) * t);
+      const z = z0 + (z1 - z0) * t;
+      for (let dy = 0; dy < SUPERSAMPLE; dy++) {
+        for (let dx = 0; dx < SUPERSAMPLE; dx++) this.plot(x + dx, y + dy, z, color);
+      }
+    }
+  }
+
+  toJpeg(): Promise<Buffer> {
+    return sharp(Buffer.from(this.pixels.buffer), { raw: { width: this.size, height: this.size, channels: 3 } })
+      .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE)
+      .jpeg({ quality: 80 })
+      .toBuffer();
+  }
+
+  private project(p: Vec3): Vec3 {
+    return [dot(p, RIGHT) * this.scale + this.offsetX, -dot(p, UP) * this.scale + this.offsetY, dot(p, VIEW)];
+  }
+
+  private plot(x: number, y: number, z: number, color: RGB) {
+    if (x < 0 || y < 0 || x >= this.size || y >= this.size) return;
+    const index = y * this.size + x;
+    if (z < this.depth[index]) return;
+    this.depth[index] = z;
+    this.pixels.set(color, index * 3);
+  }
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function normalize(v: Vec3): Vec3 {
+  const length = Math.hypot(v[0], v[1], v[2]) || 1;
+  return [v[0] / length, v[1] / length, v[2] / length];
+}
+
+function shaded(color: RGB, factor: number): RGB {
+  return [Math.round(color[0] * factor), Math.round(color[1] * factor), Math.round(color[2] * factor)];
+}
+
+function mix(a: RGB, b: RGB, t: number): RGB {
+  return [Math.round(a[0] + (b[0] - a[0]) * t), Math.round(a[1] + (b[1] - a[1]) * t), Math.round(a[2] + (b[2] - a[2]) * t)];
+}
+
+export const thumbnailService = new ThumbnailService();
@@ -0,0 +1,153 @@
+import { promises as fs } from 'fs';
+import { promisify } from 'util';
+import { inflateRaw } from 'zlib';
+
+const inflate = promisify(inflateRaw);
+
+export interface ZipEntry {
+  name: string;
+  method: number; // 0 stored, 8 deflated
+  compressedSize: number;
+  size: number;
+  headerOffset: number;
+}
+
+const END_OF_DIRECTORY = 0x06054b50;
+const ZIP64_LOCATOR = 0x07064b50;
+const ZIP64_END_OF_DIRECTORY = 0x06064b50;
+const DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_HEADER = 0x04034b50;
+const ZIP64_EXTRA = 0x0001;
+// The end record sits in the last 22 bytes, plus a comment of up to 64 KB
+const MAX_TAIL = 22 + 0xffff;
+const OVERFLOW = 0xffffffff;
+
+/**
+ * Random-access ZIP reader for 3MF packages: only the central directory is read up front and
+ * entries are inflated one at a time, on request. Stored and deflated entries, ZIP64 included.
+ *
+ *   const zip = await ZipArchive.open(path);
+ *   try { const xml = (await zip.read('3D/3dmodel.model')).toString('utf8'); } finally { await zip.close(); }
+ */
+export class ZipArchive {
+  readonly entries = new Map<string, ZipEntry>();
+  private size = 0;
+
+  private constructor(private handle: fs.FileHandle) {}
+
+  static async open(filePath: string): Promise<ZipArchive> {
+    const handle = await fs.open(filePath, 'r');
+    const archive = new ZipArchive(handle);
+    try {
+      await archive.readDirectory();
+      return archive;
+    } catch (error) {
+      await handle.close();
+      throw error;
+    }
+  }
+
+  // Entry names are matched without a leading slash, as 3MF relationships write them
+  get(name: string): ZipEntry | undefined {
+    return this.entries.get(name.replace(/^\//, ''));
+  }
+
+  // Contents of an entry; `maxBytes` refuses entries that would inflate beyond it
+  async read(name: string, maxBytes = Infinity): Promise<Buffer> {
+    const entry = this.get(name);
+    if (!entry) throw new Error(`Missing ZIP entry: ${name}`);
+    // Both sizes come from the archive itself, so neither is trusted to bound the other
+    if (entry.size > maxBytes || entry.compressedSize > maxBytes) {
+      throw new Error(`ZIP entry too large: ${name} (${Math.max(entry.size, entry.compressedSize)} bytes)`);
+    }
+
+    const header = await this.readAt(entry.headerOffset, 30);
+    if (header.readUInt32LE(0) !== LOCAL_HEADER) throw new Error(`Corrupt ZIP entry: ${name}`);
+    const start = entry.headerOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+    const data = await this.readAt(start, entry.compressedSize);
+    if (entry.method === 0) return data;
+    if (entry.method === 8) return inflate(data, Number.isFinite(maxBytes) ? { maxOutputLength: maxBytes } : {});
+    throw new Error(`Unsupported ZIP compression method ${entry.method}: ${name}`);
+  }
+
+  async close() {
+    await this.handle.close();
+  }
+
+  private async readDirectory() {
+    const { size } = await this.handle.stat();
+    this.size = size;
+    const tailLength = Math.min(size, MAX_TAIL);
+    const tail = await this.readAt(size - tailLength, tailLength);
+    let end = -1;
+    for (let i = tail.length - 22; i >= 0; i--) {
+      if (tail.readUInt32LE(i) === END_OF_DIRECTORY) {
+        end = i;
+        break;
+      }
+    }
+    if (end < 0) throw new Error('Not a ZIP archive');
+
+    let count = tail.readUInt16LE(end + 10);
+    let directorySize = tail.readUInt32LE(end + 12);
+    let directoryOffset = tail.readUInt32LE(end + 16);
+    if (directoryOffset === OVERFLOW || directorySize === OVERFLOW || count === 0xffff) {
+      const locator = end - 20;
+      if (locator < 0 || tail.readUInt32LE(locator) !== ZIP64_LOCATOR) throw new Error('Corrupt ZIP64 archive');
+      const record = await this.readAt(Number(tail.readBigUInt64LE(locator + 8)), 56);
+      if (record.readUInt32LE(0) !== ZIP64_END_OF_DIRECTORY) throw new Error('Corrupt ZIP64 archive');
+      count = Number(record.readBigUInt64LE(32));
+      directorySize = Number(record.readBigUInt64LE(40));
+      directoryOffset = Number(record.readBigUInt64LE(48));
+    }
+
+    const directory = await this.readAt(directoryOffset, directorySize);
+    let offset = 0;
+    for (let i = 0; i < count && offset + 46 <= directory.length; i++) {
+      if (directory.readUInt32LE(offset) !== DIRECTORY_ENTRY) throw new Error('Corrupt ZIP directory');
+      const nameLength = directory.readUInt16LE(offset + 28);
+      const extraLength = directory.readUInt16LE(offset + 30);
+      const commentLength = directory.readUInt16LE(offset + 32);
+      const entry: ZipEntry = {
+        name: directory.toString('utf8', offset + 46, offset + 46 + nameLength),
+        method: directory.readUInt16LE(offset + 10),
+        compressedSize: directory.readUInt32LE(offset + 20),
+        size: directory.readUInt32LE(offset + 24),
+        headerOffset: directory.readUInt32LE(offset + 42),
+      };
+      this.readZip64Extra(entry, directory.subarray(offset + 46 + nameLength, offset + 46 + nameLength + extraLength));
+      if (!entry.name.endsWith('/')) this.entries.set(entry.name, entry);
+      offset += 46 + nameLength + extraLength + commentLength;
+    }
+  }
+
+  // 64-bit sizes and offsets follow in this order, each only when its 32-bit field overflowed
+  private readZip64Extra(entry: ZipEntry, extra: Buffer) {
+    for (let offset = 0; offset + 4 <= extra.length; ) {
+      const id = extra.readUInt16LE(offset);
+      const length = extra.readUInt16LE(offset + 2);
+      if (id === ZIP64_EXTRA) {
+        let field = offset + 4;
+        for (const key of ['size', 'compressedSize', 'headerOffset'] as const) {
+          if (entry[key] !== OVERFLOW || field + 8 > offset + 4 + length) continue;
+          entry[key] = Number(extra.readBigUInt64LE(field));
+          field += 8;
+        }
+      }
+      offset += 4 + length;
+    }
+  }
+
+  // Offsets and lengths read from headers are checked against the file before anything is allocated
+  private async readAt(position: number, length: number): Promise<Buffer> {
+    if (!Number.isSafeInteger(position) || !Number.isSafeInteger(length) || position < 0 || length < 0 || position + length > this.size) {
+      throw new Error('Unexpected end of ZIP archive');
+    }
+    const buffer = Buffer.alloc(length);
+    const { bytesRead } = await this.handle.read(buffer, 0, length, position);
+    if (bytesRead < length) throw new Error('Unexpected end of ZIP archive');
+    return buffer;
+  }
+}
+
+export default ZipArchive;
@@ -1,11 +1,16 @@
 import { Server } from 'socket.io';
 import { EventEmitter } from 'events';
+import { printerRegistry } from './printer/PrinterRegistry';
+
+// Commands that can legitimately run longer than the default command timeout
+const LONG_RUNNING_COMMANDS = /^(M109|M190|M191|M303|G28|G29|G4)\b/;
 
 export interface GCodeCommand {
   id: string;
   command: string;
   timestamp: Date;
   userId: string;
+  printerId?: string; // the default printer when omitted
   priority: boolean;
   status: 'queued' | 'executing' | 'completed' | 'error';
   response?: string;
@@ -32,23 +37,6 @@ export class GCodeTerminalService extends EventEmitter {
   private maxHistorySize: number = 1000;
   private maxQueueSize: number = 100;
 
-  // Mock printer responses for demo
-  private mockResponsePatterns = new Map<string, string>([
-    ['M105', 'ok T:210.0 /210.0 B:60.0 /60.0 @:127 B@:127'],
-    ['M114', 'ok X:150.0 Y:150.0 Z:10.0 E:0.0 Count X:12000 Y:12000 Z:800'],
-    ['G28', 'ok'],
-    ['M119', 'ok x_min:TRIGGERED y_min:open z_min:open'],
-    ['M503', 'ok Settings stored to EEPROM'],
-    ['G1', 'ok'],
-    ['G0', 'ok'],
-    ['M104', 'ok'],
-    ['M140', 'ok'],
-    ['M109', 'ok'],
-    ['M190', 'ok'],
-    ['M106', 'ok'],
-    ['M107', 'ok'],
-  ]);
-
   constructor(io: Server) {
     super();
     this.io = io;
@@ -79,7 +67,8 @@ export class GCodeTerminalService extends EventEmitter {
     command: string, 
     userId: string, 
     priority: boolean = false,
-    sessionId?: string
+    sessionId?: string,
+    printerId?: string
   ): Promise<GCodeCommand> {
     // Validate command
     this.validateCommand(command);
@@ -103,6 +92,7 @@ export class GCodeTerminalService extends EventEmitter {
       command: command.trim().toUpperCase(),
       timestamp: new Date(),
       userId,
+      printerId,
       priority,
       status: 'queued',
     };
@@ -160,40 +150,48 @@ export class GCodeTerminalService extends EventEmitter {
     return clearedCount;
   }
 
-  public async emergencyStop(userId: string): Promise<void> {
-    // Clear all commands from queue
-    this.commandQueue = [];
+  public async emergencyStop(userId: string, printerId?: string): Promise<void> {
+    const printer = this.printerFor(printerId);
+
+    // Clear the stopped printer's commands from the queue
+    this.commandQueue = this.commandQueue.filter(cmd => this.printerFor(cmd.printerId) !== printer);
     
     // Mark current command as interrupted
-    if (this.currentCommand) {
+    if (this.currentCommand && this.printerFor(this.currentCommand.printerId) === printer) {
       this.currentCommand.status = 'error';
       this.currentCommand.error = 'Emergency stop executed';
       this.currentCommand = null;
     }
 
-    // Send emergency stop command immediately
     const emergencyCommand: GCodeCommand = {
       id: `emergency_${Date.now()}`,
       command: 'M112', // Emergency Stop
       timestamp: new Date(),
       userId,
+      printerId,
       priority: true,
       status: 'executing',
     };
 
-    // Simulate emergency stop response
-    setTimeout(() => {
+    const startTime = Date.now();
+    try {
+      if (!printer) throw new Error('Printer not found');
+      await printer.emergencyStop();
       emergencyCommand.status = 'completed';
-      emergencyCommand.response = 'ok Emergency Stop';
-      emergencyCommand.executionTime = 50;
-      
-      this.emitCommandUpdate(emergencyCommand);
-      this.addToHistory(emergencyCommand);
-    }, 50);
+      emergencyCommand.response = 'Emergency stop sent';
+    } catch (error) {
+      emergencyCommand.status = 'error';
+      emergencyCommand.error = error instanceof Error ? error.message : 'Emergency stop failed';
+    }
+    emergencyCommand.executionTime = Date.now() - startTime;
+
+    this.emitCommandUpdate(emergencyCommand);
+    this.addToHistory(emergencyCommand);
 
     // Broadcast emergency stop to all connected users
     this.io.emit('terminal:emergency:stop', { 
       executedBy: userId,
+      printerId: printer?.id,
       timestamp: new Date()
     });
   }
@@ -286,8 +284,7 @@ export class GCodeTerminalService extends EventEmitter {
     try {
       const startTime = Date.now();
       
-      // Simulate command execution with mock printer
-      const response = await this.executeCommand(this.currentCommand.command);
+      const response = await this.executeCommand(this.currentCommand.command, this.currentCommand.printerId);
       
       const executionTime = Date.now() - startTime;
       
@@ -310,52 +307,17 @@ export class GCodeTerminalService extends EventEmitter {
     this.isProcessing = false;
   }
 
-  private async executeCommand(command: string): Promise<string> {
-    // Simulate network delay
-    await this.delay(200 + Math.random() * 800);
-
-    const baseCommand = command.split(' ')[0];
-    
-    // Check for mock responses
-    for (const [pattern, response] of this.mockResponsePatterns.entries()) {
-      if (baseCommand === pattern) {
-        return response;
-      }
-    }
-
-    // Handle parameter-based commands
-    if (baseCommand.startsWith('M104') || baseCommand.startsWith('M109')) {
-      const match = command.match(/S(\d+)/);
-      const temp = match ? match[1] : '200';
-      return `ok Target temperature set to ${temp}°C`;
-    }
-
-    if (baseCommand.startsWith('M140') || baseCommand.startsWith('M190')) {
-      const match = command.match(/S(\d+)/);
-      const temp = match ? match[1] : '60';
-      return `ok Bed target temperature set to ${temp}°C`;
-    }
-
-    if (baseCommand.startsWith('G1') || baseCommand.startsWith('G0')) {
-      return 'ok Movement completed';
-    }
-
-    if (baseCommand.startsWith('M106')) {
-      const match = command.match(/S(\d+)/);
-      const speed = match ? Math.round((parseInt(match[1]) / 255) * 100) : 100;
-      return `ok Fan speed set to ${speed}%`;
-    }
-
-    // Default response for unknown commands
-    if (Math.random() > 0.1) {
-      return 'ok';
-    } else {
-      throw new Error('Error: Unknown command');
-    }
+  private async executeCommand(command: string, printerId?: string): Promise<string> {
+    const printer = this.printerFor(printerId);
+    if (!printer) throw new Error('Printer not found');
+    // Heating and homing wait on the printer, so they are not bound by the command timeout
+    const wait = !LONG_RUNNING_COMMANDS.test(command);
+    const response = await printer.sendCommand(command, wait);
+    return typeof response === 'string' ? response : 'ok';
   }
 
-  private delay(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
+  private printerFor(printerId?: string) {
+    return printerId ? printerRegistry.get(printerId) : printerRegistry.default ?? undefined;
   }
 
   private addToHistory(command: GCodeCommand): void {
@@ -1,8 +1,11 @@
+import { JobStatus, Prisma } from '@prisma/client';
 import { prisma } from '../../lib/prisma';
+import { printEventService } from './PrintEventService';
 
 export interface CreateJobData {
   userId: string;
   fileId: string;
+  printerId?: string;
   settings?: {
     temperature?: {
       hotend?: number;
@@ -18,6 +21,22 @@ export interface UpdateJobData {
   errorMessage?: string;
 }
 
+// Allowed lifecycle moves for jobs driven by the printer rather than by a user edit
+const JOB_TRANSITIONS: Record<JobStatus, JobStatus[]> = {
+  QUEUED: ['PREPARING', 'PRINTING', 'FAILED', 'CANCELLED'],
+  PREPARING: ['PRINTING', 'FAILED', 'CANCELLED'],
+  PRINTING: ['PAUSED', 'COMPLETED', 'FAILED', 'CANCELLED'],
+  PAUSED: ['PRINTING', 'FAILED', 'CANCELLED'],
+  COMPLETED: [],
+  FAILED: [],
+  CANCELLED: [],
+};
+
+export interface JobTransitionData {
+  progress?: number;
+  errorMessage?: string;
+}
+
 export class JobService {
   async createJob(data: CreateJobData) {
     try {
@@ -37,6 +56,7 @@ export class JobService {
         data: {
           userId: data.userId,
           fileId: data.fileId,
+          printerId: data.printerId,
           status: 'QUEUED',
           progress: 0,
         },
@@ -137,9 +157,10 @@ export class JobService {
     };
   }
 
-  async getCurrentJob(): Promise<any> {
+  async getCurrentJob(printerId?: string): Promise<any> {
     const currentJob = await prisma.printJob.findFirst({
       where: {
+        printerId,
         status: {
           in: ['PRINTING', 'PAUSED', 'PREPARING'],
         },
@@ -216,6 +237,10 @@ export class JobService {
         },
       });
 
+      if (data.status !== undefined && data.status !== existingJob.status) {
+        await printEventService.recordTransition(jobId, existingJob.status, data.status);
+      }
+
       return updatedJob;
     } catch (error) {
       console.error('Update job error:', error);
@@ -223,6 +248,62 @@ export class JobService {
     }
   }
 
+  async transitionJob(jobId: string, status: JobStatus, data: JobTransitionData = {}) {
+    const job = await prisma.printJob.findUnique({ where: { id: jobId } });
+    if (!job) {
+      throw new Error('Job not found');
+    }
+    if (job.status === status) {
+      return job;
+    }
+    if (!JOB_TRANSITIONS[job.status].includes(status)) {
+      throw new Error(`Invalid job transition: ${job.status} -> ${status}`);
+    }
+
+    const now = new Date();
+    const updateData: any = { status };
+    if (status === 'PRINTING' && !job.startedAt) {
+      updateData.startedAt = now;
+    }
+    if (['COMPLETED', 'FAILED', 'CANCELLED'].includes(status)) {
+      updateData.completedAt = now;
+      if (job.startedAt) {
+        updateData.actualTime = Math.round((now.getTime() - job.startedAt.getTime()) / 1000);
+      }
+    }
+    if (status === 'COMPLETED') {
+      updateData.progress = 100;
+    } else if (data.progress !== undefined) {
+      updateData.progress = Math.max(0, Math.min(100, data.progress));
+    }
+    if (data.errorMessage !== undefined) {
+      updateData.errorMessage = data.errorMessage;
+    }
+
+    const updatedJob = await prisma.printJob.update({
+      where: { id: jobId },
+      data: updateData,
+    });
+
+    await printEventService.recordTransition(jobId, job.status, status, data.errorMessage);
+
+    if (status === 'COMPLETED') {
+      await prisma.file.update({
+        where: { id: job.fileId },
+        data: { printCount: { increment: 1 } },
+      });
+    }
+
+    return updatedJob;
+  }
+
+  async updateProgress(jobId: string, progress: number, checkpoint?: Prisma.InputJsonValue) {
+    return prisma.printJob.update({
+      where: { id: jobId },
+      data: { progress: Math.max(0, Math.min(100, progress)), checkpoint },
+    });
+  }
+
   async pauseJob(jobId: string, userId: string) {
     return this.updateJob(jobId, userId, { status: 'PAUSED' });
   }
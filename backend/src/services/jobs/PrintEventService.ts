@@ -0,0 +1,136 @@
+import { EventEmitter } from 'events';
+import { EventType, JobStatus, Prisma, Severity } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import type PrinterService from '../printer/PrinterService';
+import type { ThermalFault } from '../printer/ThermalMonitor';
+import type { HostAction, HostPrompt } from '../printer/HostActions';
+
+export interface PrintEventFilter {
+  types?: EventType[];
+  minSeverity?: Severity;
+}
+
+const SEVERITY_ORDER: Severity[] = ['INFO', 'WARNING', 'ERROR', 'CRITICAL'];
+
+// A busy printer repeats echo:busy every couple of seconds; keep one event per episode
+const BUSY_EVENT_INTERVAL_MS = 60000;
+
+const TRANSITION_EVENTS: Partial<Record<JobStatus, { type: EventType; severity: Severity; message: string }>> = {
+  PREPARING: { type: 'CUSTOM', severity: 'INFO', message: 'Preparing print' },
+  PRINTING: { type: 'JOB_STARTED', severity: 'INFO', message: 'Print started' },
+  PAUSED: { type: 'JOB_PAUSED', severity: 'INFO', message: 'Print paused' },
+  COMPLETED: { type: 'JOB_COMPLETED', severity: 'INFO', message: 'Print completed' },
+  FAILED: { type: 'JOB_FAILED', severity: 'ERROR', message: 'Print failed' },
+  CANCELLED: { type: 'JOB_CANCELLED', severity: 'WARNING', message: 'Print cancelled' },
+};
+
+// Firmware output worth keeping on a job's timeline, checked in order
+const FIRMWARE_PATTERNS: Array<{ pattern: RegExp; type: EventType; severity: Severity }> = [
+  { pattern: /thermal runaway|heating failed|MINTEMP|MAXTEMP/i, type: 'THERMAL_RUNAWAY', severity: 'CRITICAL' },
+  { pattern: /filament runout|runout|filament_runout|M600/i, type: 'FILAMENT_CHANGE', severity: 'WARNING' },
+  { pattern: /homing failed|probing failed|endstops? hit|position error/i, type: 'POSITION_ERROR', severity: 'ERROR' },
+];
+
+/**
+ * Writes the typed PrintEvent timeline of a job: lifecycle transitions from JobService
+ * plus errors and notable firmware messages reported by the printer while it prints.
+ */
+export class PrintEventService extends EventEmitter {
+  private lastBusyEvent = new Map<string, number>();
+
+  bindPrinter(printer: PrinterService): void {
+    printer.on('printer-error', (message: string) => {
+      const jobId = printer.currentJobId;
+      if (!jobId) return;
+      const match = FIRMWARE_PATTERNS.find((p) => p.pattern.test(message));
+      this.record(jobId, match?.type ?? 'CUSTOM', message, match?.type === 'THERMAL_RUNAWAY' ? 'CRITICAL' : 'ERROR', {
+        source: 'firmware',
+      });
+    });
+
+    printer.on('thermal-fault', (fault: ThermalFault & { jobId: string | null }) => {
+      if (!fault.jobId) return;
+      this.record(fault.jobId, 'THERMAL_RUNAWAY', fault.message, 'CRITICAL', {
+        source: 'host',
+        heater: fault.heater,
+        reason: fault.reason,
+        temperature: fault.temperature,
+        target: fault.target,
+      });
+    });
+
+    printer.on('firmware-message', (line: string) => {
+      const jobId = printer.currentJobId;
+      if (!jobId) return;
+      if (/^echo:\s*busy/i.test(line)) {
+        const now = Date.now();
+        if (now - (this.lastBusyEvent.get(printer.id) ?? 0) < BUSY_EVENT_INTERVAL_MS) return;
+        this.lastBusyEvent.set(printer.id, now);
+        this.record(jobId, 'CUSTOM', line, 'INFO', { source: 'firmware', busy: true });
+        return;
+      }
+      const match = FIRMWARE_PATTERNS.find((p) => p.pattern.test(line));
+      if (match) this.record(jobId, match.type, line, match.severity, { source: 'firmware' });
+    });
+
+    printer.on('host-action', ({ action, jobId, runout }: { action: HostAction; jobId: string | null; runout: boolean }) => {
+      if (!jobId) return;
+      if (runout) {
+        const tool = action.type === 'out_of_filament' && action.tool !== undefined ? ` on T${action.tool}` : '';
+        this.record(jobId, 'FILAMENT_CHANGE', `Filament runout${tool}`, 'WARNING', { source: 'printer', action: action.type });
+        return;
+      }
+      if (action.type === 'notification') {
+        this.record(jobId, 'CUSTOM', action.message, 'INFO', { source: 'printer', action: action.type });
+      } else if (action.type === 'pause' || action.type === 'resume' || action.type === 'cancel') {
+        this.record(jobId, 'CUSTOM', `The printer requested ${action.type}`, 'INFO', { source: 'printer', action: action.type });
+      }
+    });
+
+    printer.on('prompt', (prompt: HostPrompt) => {
+      const jobId = printer.currentJobId;
+      if (!jobId) return;
+      this.record(jobId, 'CUSTOM', `Printer prompt: ${prompt.message}`, 'INFO', { source: 'printer', choices: prompt.choices });
+    });
+  }
+
+  async recordTransition(jobId: string, from: JobStatus, to: JobStatus, errorMessage?: string | null) {
+    const event = TRANSITION_EVENTS[to];
+    if (!event) return null;
+    const resumed = to === 'PRINTING' && from === 'PAUSED';
+    return this.record(
+      jobId,
+      resumed ? 'JOB_RESUMED' : event.type,
+      resumed ? 'Print resumed' : errorMessage ? `${event.message}: ${errorMessage}` : event.message,
+      event.severity,
+      { from, to }
+    );
+  }
+
+  // Never throws: a lost timeline entry must not break the operation that produced it
+  async record(jobId: string, eventType: EventType, message: string, severity: Severity, metadata?: Prisma.InputJsonValue) {
+    try {
+      const event = await prisma.printEvent.create({
+        data: { jobId, eventType, message, severity, metadata },
+      });
+      this.emit('event', event);
+      return event;
+    } catch (error) {
+      console.error('Print event error:', error);
+      return null;
+    }
+  }
+
+  async getTimeline(jobId: string, filter: PrintEventFilter = {}) {
+    const where: Prisma.PrintEventWhereInput = { jobId };
+    if (filter.types?.length) {
+      where.eventType = { in: filter.types };
+    }
+    if (filter.minSeverity) {
+      where.severity = { in: SEVERITY_ORDER.slice(SEVERITY_ORDER.indexOf(filter.minSeverity)) };
+    }
+    return prisma.printEvent.findMany({ where, orderBy: { timestamp: 'asc' } });
+  }
+}
+
+export const printEventService = new PrintEventService();
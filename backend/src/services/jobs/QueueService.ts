@@ -0,0 +1,224 @@
+import { EventEmitter } from 'events';
+import { prisma } from '../../lib/prisma';
+import { jobService } from './JobService';
+import type PrinterService from '../printer/PrinterService';
+import { printerRegistry } from '../printer/PrinterRegistry';
+
+export interface QueueState {
+  printerId: string;
+  jobs: any[];
+  bedClear: boolean;
+  awaitingBedClear: boolean;
+  activeJobId: string | null;
+  awaitingRecovery: boolean;
+}
+
+const BED_CLEAR_KEY = 'queue.bedClear';
+const ADVANCE_INTERVAL_MS = 10000;
+
+/**
+ * Owns the order of QUEUED jobs per printer and starts the next one once that printer
+ * is idle and an operator has confirmed its bed is clear. Order and the bed-clear flags
+ * live in the database so the queues survive a backend restart.
+ */
+export class QueueService extends EventEmitter {
+  private bedClear = new Map<string, boolean>();
+  private advancing = new Set<string>();
+  private timer?: NodeJS.Timeout;
+
+  async init(): Promise<void> {
+    this.timer = setInterval(() => this.tryAdvance(), ADVANCE_INTERVAL_MS);
+    await this.tryAdvance();
+  }
+
+  bindPrinter(printer: PrinterService): void {
+    printer.on('job-finished', () => this.emitUpdate(printer.id));
+    prisma.printerSettings
+      .findUnique({ where: { printerId_key: { printerId: printer.id, key: BED_CLEAR_KEY } } })
+      .then((setting) => this.bedClear.set(printer.id, setting?.value === true))
+      .catch((error) => console.error('Failed to load bed-clear state:', error));
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  async getQueue(printerId: string) {
+    return prisma.printJob.findMany({
+      where: { status: 'QUEUED', printerId },
+      orderBy: [{ queuePosition: 'asc' }, { createdAt: 'asc' }],
+      include: {
+        user: {
+          select: {
+            id: true,
+            username: true,
+          },
+        },
+        file: {
+          select: {
+            id: true,
+            originalName: true,
+            fileType: true,
+            fileSize: true,
+          },
+        },
+      },
+    });
+  }
+
+  async getState(printerId: string): Promise<QueueState> {
+    const printer = printerRegistry.get(printerId);
+    const [jobs, awaitingRecovery] = await Promise.all([this.getQueue(printerId), this.hasInterruptedJob(printerId)]);
+    const bedClear = this.bedClear.get(printerId) ?? false;
+    return {
+      printerId,
+      jobs,
+      bedClear,
+      awaitingBedClear: !bedClear && jobs.length > 0 && !!printer && this.printerReady(printer),
+      activeJobId: printer?.currentJobId ?? null,
+      awaitingRecovery,
+    };
+  }
+
+  async enqueue(userId: string, fileId: string, printerId: string, options: { front?: boolean } = {}) {
+    const file = await prisma.file.findFirst({ where: { id: fileId, userId } });
+    if (file && file.fileType !== 'GCODE') {
+      throw new Error('Only G-code files can be queued');
+    }
+    const job = await jobService.createJob({ userId, fileId, printerId });
+    const ids = (await this.getQueue(printerId)).map((j) => j.id).filter((id) => id !== job.id);
+    await this.applyOrder(options.front ? [job.id, ...ids] : [...ids, job.id]);
+    await this.emitUpdate(printerId);
+    await this.tryAdvance(printerId);
+    return job;
+  }
+
+  async reorder(printerId: string, jobIds: string[]) {
+    const current = (await this.getQueue(printerId)).map((j) => j.id);
+    const sameJobs = jobIds.length === current.length && current.every((id) => jobIds.includes(id));
+    if (!sameJobs) {
+      throw new Error('Order must list every queued job exactly once');
+    }
+    await this.applyOrder(jobIds);
+    await this.emitUpdate(printerId);
+  }
+
+  // Returns the printer whose queue the job was in
+  async moveToFront(jobId: string): Promise<string> {
+    const printerId = await this.queuedOn(jobId);
+    const ids = (await this.getQueue(printerId)).map((j) => j.id);
+    await this.applyOrder([jobId, ...ids.filter((id) => id !== jobId)]);
+    await this.emitUpdate(printerId);
+    return printerId;
+  }
+
+  async remove(jobId: string): Promise<string> {
+    const printerId = await this.queuedOn(jobId);
+    await jobService.transitionJob(jobId, 'CANCELLED');
+    await prisma.printJob.update({ where: { id: jobId }, data: { queuePosition: null } });
+    await this.applyOrder((await this.getQueue(printerId)).map((j) => j.id));
+    await this.emitUpdate(printerId);
+    return printerId;
+  }
+
+  async confirmBedClear(printerId: string) {
+    printerRegistry.get(printerId)?.acknowledgeError();
+    await this.setBedClear(printerId, true);
+    await this.emitUpdate(printerId);
+    await this.tryAdvance(printerId);
+  }
+
+  // Starts the head of a printer's queue (or of every queue) when nothing blocks it; safe to call at any time
+  async tryAdvance(printerId?: string): Promise<void> {
+    if (printerId === undefined) {
+      for (const printer of printerRegistry.list()) await this.tryAdvance(printer.id);
+      return;
+    }
+    const printer = printerRegistry.get(printerId);
+    if (!printer || this.advancing.has(printerId) || !this.bedClear.get(printerId) || !this.printerReady(printer)) return;
+    this.advancing.add(printerId);
+    try {
+      // An interrupted print is still on the bed until it is resumed or abandoned
+      if (await this.hasInterruptedJob(printerId)) return;
+      const [next] = await this.getQueue(printerId);
+      if (!next) return;
+
+      // The bed is occupied from here on until an operator clears it again
+      await this.setBedClear(printerId, false);
+      await prisma.printJob.update({ where: { id: next.id }, data: { queuePosition: null } });
+      try {
+        await printer.startPrint(next.id);
+      } catch (error) {
+        console.error('Queue advance error:', error);
+        // Rejected before it reached the printer: fail the job, the bed is still clear
+        const job = await prisma.printJob.findUnique({ where: { id: next.id } });
+        if (job?.status === 'QUEUED') {
+          await jobService.transitionJob(next.id, 'FAILED', {
+            errorMessage: error instanceof Error ? error.message : 'Failed to start print',
+          });
+          await this.setBedClear(printerId, true);
+        }
+      }
+      await this.applyOrder((await this.getQueue(printerId)).map((j) => j.id));
+      await this.emitUpdate(printerId);
+    } catch (error) {
+      console.error('Queue advance error:', error);
+    } finally {
+      this.advancing.delete(printerId);
+    }
+  }
+
+  private printerReady(printer: PrinterService): boolean {
+    const status = printer.getStatus();
+    return status.connected && status.state === 'idle' && !printer.isPrinting;
+  }
+
+  private async queuedOn(jobId: string): Promise<string> {
+    const job = await prisma.printJob.findFirst({ where: { id: jobId, status: 'QUEUED' } });
+    if (!job?.printerId) {
+      throw new Error('Job is not queued');
+    }
+    return job.printerId;
+  }
+
+  private async hasInterruptedJob(printerId: string): Promise<boolean> {
+    const count = await prisma.printJob.count({
+      where: { printerId, status: 'PAUSED', checkpoint: { path: ['interrupted'], equals: true } },
+    });
+    return count > 0;
+  }
+
+  private async applyOrder(jobIds: string[]) {
+    await prisma.$transaction(
+      jobIds.map((id, index) => prisma.printJob.update({ where: { id }, data: { queuePosition: index } }))
+    );
+  }
+
+  private async setBedClear(printerId: string, value: boolean) {
+    this.bedClear.set(printerId, value);
+    await prisma.printerSettings.upsert({
+      where: { printerId_key: { printerId, key: BED_CLEAR_KEY } },
+      update: { value },
+      create: {
+        printerId,
+        key: BED_CLEAR_KEY,
+        value,
+        category: 'queue',
+        description: 'Operator confirmed the bed is clear for the next queued job',
+      },
+    });
+  }
+
+  private async emitUpdate(printerId: string) {
+    try {
+      this.emit('updated', await this.getState(printerId));
+    } catch (error) {
+      console.error('Queue update error:', error);
+    }
+  }
+}
+
+export const queueService = new QueueService();
@@ -0,0 +1,223 @@
+import { EventEmitter } from 'events';
+import { promises as fs } from 'fs';
+import { Prisma } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import { jobService } from './JobService';
+import { printEventService } from './PrintEventService';
+import { queueService } from './QueueService';
+import type PrinterService from '../printer/PrinterService';
+import { JobCheckpoint } from '../printer/PrinterService';
+import { printerRegistry } from '../printer/PrinterRegistry';
+import {
+  MachineState,
+  buildResumeCommands,
+  findLayerOffset,
+  previewCommands,
+  scanMachineState,
+} from '../printer/ResumePlanner';
+
+export interface RecoveryPlan {
+  jobId: string;
+  printerId: string | null;
+  fileName: string;
+  checkpoint: JobCheckpoint;
+  resumeOffset: number;
+  resumeLayer: number;
+  totalBytes: number;
+  totalLayers?: number;
+  skipped: {
+    bytes: number;
+    percent: number;
+    layers: number;
+    commands: number;
+  };
+  state: MachineState;
+  commands: string[];
+  nextCommands: string[];
+}
+
+export interface RecoveryOptions {
+  // Restart from the beginning of this layer instead of the last acknowledged line
+  layer?: number;
+}
+
+const INTERRUPTED = { path: ['interrupted'], equals: true };
+
+/**
+ * Power-loss recovery. Jobs the printer lost — because the backend restarted mid-print
+ * or the printer reset or disconnected — are parked as PAUSED with an interrupted
+ * checkpoint. An operator can then inspect the plan and resume from the saved offset
+ * or the start of a layer, or abandon the job.
+ */
+export class RecoveryService extends EventEmitter {
+  async init(): Promise<void> {
+    await this.detectInterrupted();
+  }
+
+  bindPrinter(printer: PrinterService): void {
+    printer.on('job-interrupted', ({ jobId, reason, checkpoint }) => {
+      this.markInterrupted(jobId, reason, checkpoint).catch((error) => console.error('Recovery error:', error));
+    });
+  }
+
+  // Jobs still marked active from before this process started cannot be running any more
+  async detectInterrupted(): Promise<void> {
+    const orphans = await prisma.printJob.findMany({
+      where: { status: { in: ['PREPARING', 'PRINTING', 'PAUSED'] } },
+    });
+    for (const job of orphans) {
+      if (printerRegistry.running(job.id) || (job.checkpoint as JobCheckpoint | null)?.interrupted) continue;
+      // The printer host runs these itself; its print status settles them once it reconnects
+      if (printerRegistry.forJob(job)?.printsRemotely) continue;
+      if (job.status === 'PREPARING' || !job.checkpoint) {
+        // Nothing reached the printer yet, or nothing to resume from
+        await jobService.transitionJob(job.id, 'FAILED', { errorMessage: 'Interrupted before any progress was saved' });
+        continue;
+      }
+      await this.markInterrupted(job.id, 'Backend restarted during the print');
+    }
+  }
+
+  async markInterrupted(jobId: string, reason: string, checkpoint?: JobCheckpoint | null) {
+    const job = await prisma.printJob.findUnique({ where: { id: jobId } });
+    if (!job) return;
+    const saved = (checkpoint ?? job.checkpoint ?? null) as JobCheckpoint | null;
+    if (!saved) {
+      await jobService.transitionJob(jobId, 'FAILED', { errorMessage: `${reason}; no checkpoint to resume from` });
+      return;
+    }
+
+    const interrupted: JobCheckpoint = { ...saved, interrupted: true, reason };
+    await prisma.printJob.update({
+      where: { id: jobId },
+      data: { checkpoint: interrupted as Prisma.InputJsonValue, progress: saved.progress },
+    });
+    if (job.status === 'PRINTING') {
+      await jobService.transitionJob(jobId, 'PAUSED');
+    }
+    await printEventService.record(jobId, 'POWER_LOSS', reason, 'WARNING', {
+      offset: saved.offset,
+      layer: saved.layer,
+      z: saved.z ?? null,
+      temperatures: saved.temperatures,
+    });
+    this.emit('interrupted', { jobId, reason });
+  }
+
+  async getInterruptedJobs() {
+    return prisma.printJob.findMany({
+      where: { status: 'PAUSED', checkpoint: INTERRUPTED },
+      orderBy: { updatedAt: 'desc' },
+      include: {
+        file: {
+          select: {
+            id: true,
+            originalName: true,
+            fileType: true,
+            fileSize: true,
+          },
+        },
+      },
+    });
+  }
+
+  async getPlan(jobId: string, options: RecoveryOptions = {}): Promise<RecoveryPlan> {
+    const job = await prisma.printJob.findUnique({ where: { id: jobId }, include: { file: true } });
+    const checkpoint = job?.checkpoint as JobCheckpoint | null | undefined;
+    if (!job || job.status !== 'PAUSED' || !checkpoint?.interrupted) {
+      throw new Error('Job is not awaiting recovery');
+    }
+
+    let resumeOffset = checkpoint.offset;
+    if (options.layer !== undefined) {
+      if (options.layer > checkpoint.layer) {
+        throw new Error(`Layer ${options.layer} was never reached (interrupted on layer ${checkpoint.layer})`);
+      }
+      const offset = await findLayerOffset(job.file.filePath, options.layer);
+      if (offset === null) {
+        throw new Error(`Layer ${options.layer} not found in file`);
+      }
+      resumeOffset = offset;
+    }
+
+    const [{ size }, state, nextCommands] = await Promise.all([
+      fs.stat(job.file.filePath),
+      scanMachineState(job.file.filePath, resumeOffset),
+      previewCommands(job.file.filePath, resumeOffset),
+    ]);
+    const metadata = (job.file.metadata ?? {}) as { layerCount?: number };
+
+    return {
+      jobId: job.id,
+      printerId: job.printerId,
+      fileName: job.file.originalName,
+      checkpoint,
+      resumeOffset,
+      resumeLayer: state.layer,
+      totalBytes: size,
+      totalLayers: metadata.layerCount || undefined,
+      skipped: {
+        bytes: resumeOffset,
+        percent: size ? Math.round((resumeOffset / size) * 10000) / 100 : 0,
+        layers: Math.max(0, state.layer - 1),
+        commands: state.commands,
+      },
+      state,
+      commands: buildResumeCommands(state, { chamber: !!printerRegistry.forJob(job)?.capabilities.chamberTemperature }),
+      nextCommands,
+    };
+  }
+
+  /**
+   * Starts the recovery and returns the plan right away; reheating can take minutes, so a
+   * preamble failure is reported through the job timeline and the job stays recoverable.
+   */
+  async resume(jobId: string, options: RecoveryOptions = {}) {
+    const plan = await this.getPlan(jobId, options);
+    const printer = printerRegistry.forJob(plan);
+    if (!printer) {
+      throw new Error('Printer not found');
+    }
+    if (printer.isPrinting) {
+      throw new Error('A print is already in progress');
+    }
+    await printEventService.record(jobId, 'CUSTOM', `Resuming from offset ${plan.resumeOffset} (layer ${plan.resumeLayer})`, 'INFO', {
+      offset: plan.resumeOffset,
+      layer: plan.resumeLayer,
+      skippedBytes: plan.skipped.bytes,
+    });
+
+    printer
+      .resumeFromCheckpoint(jobId, {
+        startOffset: plan.resumeOffset,
+        startLayer: plan.resumeLayer,
+        commands: plan.commands,
+      })
+      .then(async () => {
+        // Streaming again: the job is an ordinary paused-then-resumed print from here on
+        await prisma.printJob.update({
+          where: { id: jobId },
+          data: { checkpoint: { ...plan.checkpoint, interrupted: false } as Prisma.InputJsonValue },
+        });
+        this.emit('resumed', { jobId });
+      })
+      .catch(async (error) => {
+        const message = error instanceof Error ? error.message : 'Recovery failed';
+        await printEventService.record(jobId, 'CUSTOM', `Recovery failed: ${message}`, 'ERROR');
+        this.emit('interrupted', { jobId, reason: message });
+      })
+      .catch((error) => console.error('Recovery error:', error));
+    return plan;
+  }
+
+  async abandon(jobId: string) {
+    const job = await prisma.printJob.findFirst({ where: { id: jobId, status: 'PAUSED', checkpoint: INTERRUPTED } });
+    if (!job) {
+      throw new Error('Job is not awaiting recovery');
+    }
+    await jobService.transitionJob(jobId, 'FAILED', { errorMessage: 'Interrupted print abandoned' });
+    await queueService.tryAdvance(job.printerId ?? undefined);
+  }
+}
+
+export const recoveryService = new RecoveryService();
@@ -1,4 +1,6 @@
 import { Server } from 'socket.io';
+import { JobStatus, Prisma } from '@prisma/client';
+import { prisma } from '../lib/prisma';
 
 export interface PrintJob {
   id: string;
@@ -64,6 +66,56 @@ export interface ActivityItem {
   message?: string;
 }
 
+const HISTORY_LIMIT = 500;
+const HISTORY_INCLUDE = {
+  file: { select: { originalName: true, filePath: true, thumbnailUrl: true, metadata: true } },
+} satisfies Prisma.PrintJobInclude;
+
+const HISTORY_STATUS: Record<JobStatus, PrintJob['status']> = {
+  QUEUED: 'queued',
+  PREPARING: 'printing',
+  PRINTING: 'printing',
+  PAUSED: 'printing',
+  COMPLETED: 'completed',
+  FAILED: 'failed',
+  CANCELLED: 'cancelled',
+};
+
+type HistoryRow = Prisma.PrintJobGetPayload<{ include: typeof HISTORY_INCLUDE }>;
+
+function toHistoryJob(row: HistoryRow): PrintJob {
+  const metadata = (row.file.metadata ?? {}) as {
+    layerHeight?: number;
+    layerCount?: number;
+    maxTemperatures?: { hotend?: number; bed?: number };
+  };
+  const checkpoint = (row.checkpoint ?? {}) as { layer?: number };
+  return {
+    id: row.id,
+    userId: row.userId,
+    filename: row.file.originalName,
+    filepath: row.file.filePath,
+    status: HISTORY_STATUS[row.status],
+    progress: row.progress,
+    startedAt: row.startedAt ?? undefined,
+    completedAt: row.completedAt ?? undefined,
+    estimatedDuration: row.estimatedTime ?? undefined,
+    actualDuration: row.actualTime ?? undefined,
+    filamentUsed: row.filamentUsed ?? undefined,
+    layerHeight: metadata.layerHeight ?? 0,
+    totalLayers: metadata.layerCount,
+    currentLayer: row.status === 'COMPLETED' ? metadata.layerCount : checkpoint.layer,
+    printSpeed: 100, // percent; the speed factor is not recorded per job
+    temperatures: { hotend: metadata.maxTemperatures?.hotend ?? 0, bed: metadata.maxTemperatures?.bed ?? 0 },
+    successRate: row.status === 'COMPLETED' ? 100 : row.status === 'FAILED' ? 0 : undefined,
+    errorMessage: row.errorMessage ?? undefined,
+    thumbnailUrl: row.file.thumbnailUrl ?? undefined,
+    notes: row.notes ?? undefined,
+    createdAt: row.createdAt,
+    updatedAt: row.updatedAt,
+  };
+}
+
 export class PrintHistoryService {
   private io: Server;
   private printJobs: Map<string, PrintJob> = new Map();
@@ -71,127 +123,35 @@ export class PrintHistoryService {
 
   constructor(io: Server) {
     this.io = io;
-    this.loadMockData();
   }
 
-  private loadMockData(): void {
-    // Generate mock print history for demonstration
-    const mockJobs: PrintJob[] = [
-      {
-        id: '1',
-        userId: 'user1',
-        filename: 'miniature_castle.stl',
-        filepath: '/uploads/miniature_castle.stl',
-        status: 'completed',
-        progress: 100,
-        startedAt: new Date('2024-01-15T10:30:00Z'),
-        completedAt: new Date('2024-01-15T14:32:00Z'),
-        estimatedDuration: 14400, // 4 hours
-        actualDuration: 14520, // 4h 2m
-        filamentUsed: 45.2,
-        layerHeight: 0.2,
-        totalLayers: 420,
-        currentLayer: 420,
-        printSpeed: 50,
-        temperatures: { hotend: 210, bed: 60 },
-        successRate: 100,
-        thumbnailUrl: '/thumbnails/miniature_castle.jpg',
-        gcodePreviewUrl: '/previews/miniature_castle.gcode',
-        notes: 'Perfect quality print, excellent detail reproduction',
-        createdAt: new Date('2024-01-15T10:30:00Z'),
-        updatedAt: new Date('2024-01-15T14:32:00Z'),
-      },
-      {
-        id: '2',
-        userId: 'user1',
-        filename: 'desk_organizer.stl',
-        filepath: '/uploads/desk_organizer.stl',
-        status: 'completed',
-        progress: 100,
-        startedAt: new Date('2024-01-14T08:15:00Z'),
-        completedAt: new Date('2024-01-14T10:30:00Z'),
-        estimatedDuration: 8100, // 2h 15m
-        actualDuration: 8100,
-        filamentUsed: 32.8,
-        layerHeight: 0.3,
-        totalLayers: 180,
-        currentLayer: 180,
-        printSpeed: 60,
-        temperatures: { hotend: 215, bed: 65 },
-        successRate: 100,
-        thumbnailUrl: '/thumbnails/desk_organizer.jpg',
-        notes: 'Used for office organization, fits perfectly',
-        createdAt: new Date('2024-01-14T08:15:00Z'),
-        updatedAt: new Date('2024-01-14T10:30:00Z'),
-      },
-      {
-        id: '3',
-        userId: 'user1',
-        filename: 'prototype_bracket.stl',
-        filepath: '/uploads/prototype_bracket.stl',
-        status: 'failed',
-        progress: 23,
-        startedAt: new Date('2024-01-13T16:20:00Z'),
-        completedAt: new Date('2024-01-13T17:05:00Z'),
-        estimatedDuration: 5400, // 1.5 hours
-        actualDuration: 2700, // 45 minutes
-        filamentUsed: 8.5,
-        layerHeight: 0.2,
-        totalLayers: 125,
-        currentLayer: 29,
-        printSpeed: 40,
-        temperatures: { hotend: 200, bed: 55 },
-        successRate: 0,
-        errorMessage: 'Extruder clog detected, print stopped automatically',
-        thumbnailUrl: '/thumbnails/prototype_bracket.jpg',
-        notes: 'Need to clean extruder and retry',
-        createdAt: new Date('2024-01-13T16:20:00Z'),
-        updatedAt: new Date('2024-01-13T17:05:00Z'),
-      },
-      {
-        id: '4',
-        userId: 'user1',
-        filename: 'phone_stand_v2.stl',
-        filepath: '/uploads/phone_stand_v2.stl',
-        status: 'printing',
-        progress: 67.3,
-        startedAt: new Date(),
-        estimatedDuration: 7200, // 2 hours
-        filamentUsed: 28.1,
-        layerHeight: 0.2,
-        totalLayers: 280,
-        currentLayer: 188,
-        printSpeed: 55,
-        temperatures: { hotend: 210, bed: 60 },
-        thumbnailUrl: '/thumbnails/phone_stand_v2.jpg',
-        notes: 'Version 2 with improved stability',
-        createdAt: new Date(),
-        updatedAt: new Date(),
-      },
-    ];
-
-    mockJobs.forEach(job => {
-      this.printJobs.set(job.id, job);
-      if (job.status === 'printing') {
-        this.currentJob = job;
-      }
+  // Print jobs from the database, newest first, along with jobs recorded through this service
+  public async getAllJobs(userId?: string): Promise<PrintJob[]> {
+    const rows = await prisma.printJob.findMany({
+      where: userId ? { userId } : {},
+      include: HISTORY_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+      take: HISTORY_LIMIT,
     });
+    const recorded = Array.from(this.printJobs.values()).filter(job => !userId || job.userId === userId);
+    return [...rows.map(toHistoryJob), ...recorded].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
 
-  public getAllJobs(userId?: string): PrintJob[] {
-    const jobs = Array.from(this.printJobs.values());
-    if (userId) {
-      return jobs.filter(job => job.userId === userId);
-    }
-    return jobs.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-  }
-
-  public getJobById(jobId: string): PrintJob | null {
-    return this.printJobs.get(jobId) || null;
+  public async getJobById(jobId: string): Promise<PrintJob | null> {
+    const recorded = this.printJobs.get(jobId);
+    if (recorded) return recorded;
+    const row = await prisma.printJob.findUnique({ where: { id: jobId }, include: HISTORY_INCLUDE });
+    return row ? toHistoryJob(row) : null;
   }
 
-  public getCurrentJob(): PrintJob | null {
-    return this.currentJob;
+  public async getCurrentJob(): Promise<PrintJob | null> {
+    if (this.currentJob) return this.currentJob;
+    const row = await prisma.printJob.findFirst({
+      where: { status: { in: ['PREPARING', 'PRINTING', 'PAUSED'] } },
+      include: HISTORY_INCLUDE,
+      orderBy: { startedAt: 'desc' },
+    });
+    return row ? toHistoryJob(row) : null;
   }
 
   public startJob(jobData: Partial<PrintJob>): PrintJob {
@@ -304,8 +264,8 @@ export class PrintHistoryService {
     this.io.emit('print:cancelled', { jobId, job });
   }
 
-  public getStatistics(userId?: string): PrintStatistics {
-    const jobs = this.getAllJobs(userId);
+  public async getStatistics(userId?: string): Promise<PrintStatistics> {
+    const jobs = await this.getAllJobs(userId);
     
     const totalPrints = jobs.length;
     const successfulPrints = jobs.filter(j => j.status === 'completed').length;
@@ -388,20 +348,4 @@ export class PrintHistoryService {
       recentActivity,
     };
   }
-
-  // Demo mode methods
-  public simulateProgress(): void {
-    if (!this.currentJob || this.currentJob.status !== 'printing') return;
-
-    const job = this.currentJob;
-    const progressIncrement = Math.random() * 2; // 0-2% progress per update
-    const newProgress = Math.min(job.progress + progressIncrement, 100);
-    
-    this.updateJobProgress(job.id, newProgress, Math.floor((newProgress / 100) * (job.totalLayers || 280)));
-    
-    // Complete job when 100%
-    if (newProgress >= 100) {
-      this.completeJob(job.id, Math.random() > 0.1); // 90% success rate
-    }
-  }
 }
\ No newline at end of file
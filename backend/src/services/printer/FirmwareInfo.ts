@@ -0,0 +1,138 @@
+/**
+ * Parsing of the `M115` firmware report:
+ *
+ *   FIRMWARE_NAME:Marlin 2.1.2 (Sep 1 2023) SOURCE_CODE_URL:... PROTOCOL_VERSION:1.0 MACHINE_TYPE:Ender-3 EXTRUDER_COUNT:1 UUID:...
+ *   Cap:AUTOREPORT_TEMP:1
+ *   Cap:EMERGENCY_PARSER:1
+ *   ok
+ */
+
+export type FirmwareFlavor = 'marlin' | 'prusa' | 'klipper' | 'reprapfirmware' | 'unknown';
+
+export type FirmwareCapabilities = {
+	autoreportTemp: boolean; // M155
+	autoreportPosition: boolean; // M154
+	emergencyParser: boolean; // M112/M108/M410 act even with the command buffer full
+	hostActionCommands: boolean; // //action: notifications
+	promptSupport: boolean; // //action:prompt_* answered with M876
+	chamberTemperature: boolean; // M141/M191
+	autoLevel: boolean; // G29
+	zProbe: boolean;
+	eeprom: boolean; // M500/M501
+	sdCard: boolean; // M20-M27, firmware-side pause via M25
+	runout: boolean;
+	pidTuning: boolean; // M303
+	stepsPerUnit: boolean; // M92
+};
+
+export type FirmwareInfo = {
+	name: string; // FIRMWARE_NAME as reported, e.g. "Marlin 2.1.2.1 (Sep 1 2023)"
+	flavor: FirmwareFlavor;
+	version?: string;
+	machineType?: string;
+	protocolVersion?: string;
+	extruderCount?: number;
+	uuid?: string;
+	fields: Record<string, string>;
+	flags: Record<string, boolean>; // raw Cap: lines
+	capabilities: FirmwareCapabilities;
+};
+
+// Cap: flag behind each capability; ones without a flag only come from the flavor defaults
+const CAP_FLAGS: Partial<Record<keyof FirmwareCapabilities, string>> = {
+	autoreportTemp: 'AUTOREPORT_TEMP',
+	autoreportPosition: 'AUTOREPORT_POS',
+	emergencyParser: 'EMERGENCY_PARSER',
+	hostActionCommands: 'HOST_ACTION_COMMANDS',
+	promptSupport: 'PROMPT_SUPPORT',
+	chamberTemperature: 'CHAMBER_TEMPERATURE',
+	autoLevel: 'AUTOLEVEL',
+	zProbe: 'Z_PROBE',
+	eeprom: 'EEPROM',
+	sdCard: 'SDCARD',
+	runout: 'RUNOUT',
+};
+
+const NONE: FirmwareCapabilities = {
+	autoreportTemp: false,
+	autoreportPosition: false,
+	emergencyParser: false,
+	hostActionCommands: false,
+	promptSupport: false,
+	chamberTemperature: false,
+	autoLevel: false,
+	zProbe: false,
+	eeprom: false,
+	sdCard: false,
+	runout: false,
+	pidTuning: true,
+	stepsPerUnit: true,
+};
+
+// What each flavor supports when it does not say so with Cap: lines (Klipper and RRF never do)
+const FLAVOR_DEFAULTS: Record<FirmwareFlavor, FirmwareCapabilities> = {
+	marlin: NONE,
+	prusa: NONE,
+	unknown: NONE,
+	klipper: { ...NONE, emergencyParser: true, pidTuning: false, stepsPerUnit: false },
+	reprapfirmware: { ...NONE, emergencyParser: true, chamberTemperature: true, autoLevel: true, zProbe: true, eeprom: true, sdCard: true },
+};
+
+export function detectFlavor(name: string): FirmwareFlavor {
+	if (/klipper/i.test(name)) return 'klipper';
+	if (/reprapfirmware|\brrf\b/i.test(name)) return 'reprapfirmware';
+	// Prusa-Firmware reports "Prusa-Firmware 3.13.0 based on Marlin"
+	if (/prusa/i.test(name)) return 'prusa';
+	if (/marlin/i.test(name)) return 'marlin';
+	return 'unknown';
+}
+
+export function resolveCapabilities(flavor: FirmwareFlavor, flags: Record<string, boolean>): FirmwareCapabilities {
+	const capabilities = { ...FLAVOR_DEFAULTS[flavor] };
+	for (const [key, flag] of Object.entries(CAP_FLAGS) as [keyof FirmwareCapabilities, string][]) {
+		if (flag in flags) capabilities[key] = flags[flag];
+	}
+	return capabilities;
+}
+
+// Used while no M115 report is available, so nothing optional gets sent blindly
+export const UNKNOWN_CAPABILITIES: FirmwareCapabilities = NONE;
+
+// Keys are upper-case words followed by a colon; values may contain spaces
+const FIELD = /([A-Z][A-Z0-9_]*):(.*?)(?=\s+[A-Z][A-Z0-9_]*:|$)/g;
+
+export function parseFirmwareReport(lines: string[]): FirmwareInfo | null {
+	const fields: Record<string, string> = {};
+	const flags: Record<string, boolean> = {};
+
+	for (const raw of lines) {
+		const line = raw.trim();
+		const cap = line.match(/^Cap:([A-Z0-9_]+):([01])/i);
+		if (cap) {
+			flags[cap[1].toUpperCase()] = cap[2] === '1';
+			continue;
+		}
+		if (!/FIRMWARE_NAME:/i.test(line)) continue;
+		for (const match of line.slice(line.indexOf('FIRMWARE_NAME:')).matchAll(FIELD)) {
+			fields[match[1]] = match[2].trim();
+		}
+	}
+
+	if (!fields.FIRMWARE_NAME) return null;
+	// Klipper and RepRapFirmware report the version separately; Marlin only inside the name
+	const version = fields.FIRMWARE_VERSION?.replace(/^v/, '') ?? fields.FIRMWARE_NAME.match(/\b(\d+\.\d+(?:\.[\dx]+)*(?:[-.\w]*)?)/)?.[1];
+	const extruders = parseInt(fields.EXTRUDER_COUNT, 10);
+	const flavor = detectFlavor(fields.FIRMWARE_NAME);
+	return {
+		name: fields.FIRMWARE_NAME,
+		flavor,
+		version,
+		machineType: fields.MACHINE_TYPE,
+		protocolVersion: fields.PROTOCOL_VERSION,
+		extruderCount: Number.isFinite(extruders) ? extruders : undefined,
+		uuid: fields.UUID,
+		fields,
+		flags,
+		capabilities: resolveCapabilities(flavor, flags),
+	};
+}
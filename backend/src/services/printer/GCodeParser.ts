@@ -1,94 +1,459 @@
+import { readGCodeLines } from './PrintStreamer';
+import { DEFAULT_MACHINE_LIMITS, MachineLimits, MotionPlanner } from './MotionPlanner';
+
 export type Position = { x: number; y: number; z: number; e: number };
 
+export type Point3 = { x: number; y: number; z: number };
+
+export type BoundingBox = { min: Point3; max: Point3 };
+
+// Values the slicer wrote into comments; they are reported as found, never computed
 export interface GCodeMetadata {
+	slicer?: string; // "PrusaSlicer 2.7.1", "Cura_SteamEngine 5.6.0", ...
 	flavor?: string;
 	estimatedTime?: number; // seconds
-	filamentUsed?: number; // mm or grams if available
+	filamentUsed?: number; // mm
 	layerHeight?: number;
+	material?: string;
+}
+
+export interface LayerStats {
+	z: number;
+	time: number; // seconds, including the travel that leads into the next layer
+	extruded: number; // mm of filament
+}
+
+// Preview image a slicer embedded in the file header as base64 comment lines
+export interface EmbeddedThumbnail {
+	format: 'png' | 'jpg' | 'qoi';
+	width: number;
+	height: number;
+	data: Buffer;
+}
+
+// Planned print time (seconds) reached at a byte offset of the file
+export type TimelinePoint = [offset: number, seconds: number];
+
+export interface GCodeAnalysis {
+	metadata: GCodeMetadata;
+	bounds: BoundingBox | null; // extent of extruding moves, i.e. the printed model
+	filament: number[]; // mm of filament per extruder (T0, T1, ...)
+	layers: LayerStats[];
+	estimatedTime: number; // seconds, planned from the moves themselves
+	maxTemperatures: { hotend?: number; bed?: number; chamber?: number };
+	lines: number;
+	timeline?: TimelinePoint[];
 }
 
+export type AnalyzeOptions = {
+	limits?: MachineLimits; // the printer's M503 limits; Marlin defaults otherwise
+	timeline?: boolean; // sample planned time against file offsets, for live ETAs
+	onSegment?: (from: Point3, to: Point3) => void; // every extruding segment, arcs flattened
+};
+
+type MoveTag = { layer: number; offset: number };
+
+const DEFAULT_FEEDRATE = 1200; // mm/min until the file sets one
+const INCH = 25.4;
+// Z changes smaller than this do not start a new layer
+const LAYER_EPSILON = 0.001;
+// Arc flattening for the bounding box: about one point per millimetre
+const ARC_SEGMENT_MM = 1;
+const MAX_ARC_SEGMENTS = 256;
+// Spacing of timeline samples; a 100 MB file gets about 3000
+const TIMELINE_STEP_BYTES = 32 * 1024;
+
+const WORD = /([A-Z])\s*([-+]?(?:\d+\.?\d*|\.\d+))/g;
+// "; thumbnail begin 300x300 12345" (PNG), "; thumbnail_JPG begin ..." and "; thumbnail_QOI begin ..."
+const THUMBNAIL_BEGIN = /^thumbnail(?:_(png|jpg|qoi))? begin (\d+)x(\d+)/i;
+const THUMBNAIL_END = /^thumbnail(?:_(?:png|jpg|qoi))? end/i;
+const MOVE = /^\s*(?:N\d+\s*)?G0*[0-3](?!\d)/i;
+
+/**
+ * Streaming G-code analyzer. Lines are fed one at a time through a small state machine
+ * (G90/G91, M82/M83, G92, G20/G21, G0-G3 including arcs, tool changes, dwells and heater
+ * targets), so files of any size are read without holding them in memory. Times come from
+ * the MotionPlanner, so acceleration and cornering count, not just distance over feedrate.
+ *
+ *   const analysis = await GCodeParser.analyzeFile(path);
+ */
 export class GCodeParser {
-	private lines: string[];
 	public metadata: GCodeMetadata = {};
+	private pos: Position = { x: 0, y: 0, z: 0, e: 0 };
+	private relative = false;
+	private relativeE = false;
+	private scale = 1; // 25.4 after G20
+	private feedrate = DEFAULT_FEEDRATE;
+	private tool = 0;
+	private filament: number[] = [0];
+	private min: Point3 | null = null;
+	private max: Point3 | null = null;
+	private layers: LayerStats[] = [];
+	private totalTime = 0;
+	private maxTemperatures: GCodeAnalysis['maxTemperatures'] = {};
+	private lineCount = 0;
+	private planner: MotionPlanner<MoveTag>;
+	private offset = 0;
+	private timeline: TimelinePoint[] | null;
+	private onSegment?: (from: Point3, to: Point3) => void;
+	// End of the last traced segment while a move is being booked
+	private traced: Point3 = { x: 0, y: 0, z: 0 };
+
+	constructor(options: AnalyzeOptions = {}) {
+		this.planner = new MotionPlanner(options.limits ?? DEFAULT_MACHINE_LIMITS, (seconds, tag) => this.addTime(seconds, tag));
+		this.timeline = options.timeline ? [[0, 0]] : null;
+		this.onSegment = options.onSegment;
+	}
 
-	constructor(gcode: string) {
-		this.lines = gcode.split(/\r?\n/);
-		this.parseMetadata();
+	static async analyzeFile(filePath: string, options?: AnalyzeOptions): Promise<GCodeAnalysis> {
+		const parser = new GCodeParser(options);
+		for await (const line of readGCodeLines(filePath)) parser.feed(line.text, line.end);
+		return parser.analyze();
 	}
 
-	private parseMetadata() {
-		for (const line of this.lines) {
-			if (line.includes(';FLAVOR:')) this.metadata.flavor = line.split(':')[1]?.trim();
-			if (line.includes(';TIME:')) this.metadata.estimatedTime = parseInt(line.split(':')[1] || '0', 10) || undefined;
-			if (line.toLowerCase().includes(';filament used:')) {
-				const m = line.match(/:\s*([\d.]+)/i);
-				if (m) this.metadata.filamentUsed = parseFloat(m[1]);
+	/**
+	 * Preview images embedded by PrusaSlicer, OrcaSlicer and Cura. They sit in the header, so
+	 * reading stops at the first move.
+	 */
+	static async readThumbnails(filePath: string): Promise<EmbeddedThumbnail[]> {
+		const thumbnails: EmbeddedThumbnail[] = [];
+		let current: { format: EmbeddedThumbnail['format']; width: number; height: number; data: string[] } | null = null;
+		for await (const { text } of readGCodeLines(filePath)) {
+			const semicolon = text.indexOf(';');
+			if (semicolon < 0 || text.slice(0, semicolon).trim()) {
+				if (MOVE.test(text)) break;
+				continue;
 			}
-			if (line.toLowerCase().includes(';layer height:')) {
-				const m = line.match(/:\s*([\d.]+)/i);
-				if (m) this.metadata.layerHeight = parseFloat(m[1]);
+			const comment = text.slice(semicolon + 1).trim();
+			const begin = comment.match(THUMBNAIL_BEGIN);
+			if (begin) {
+				const format = (begin[1]?.toLowerCase() ?? 'png') as EmbeddedThumbnail['format'];
+				current = { format, width: parseInt(begin[2], 10), height: parseInt(begin[3], 10), data: [] };
+			} else if (current && THUMBNAIL_END.test(comment)) {
+				thumbnails.push({ format: current.format, width: current.width, height: current.height, data: Buffer.from(current.data.join(''), 'base64') });
+				current = null;
+			} else if (current) {
+				current.data.push(comment);
 			}
+		}
+		return thumbnails;
+	}
 
-			if (line.toLowerCase().includes('; estimated printing time')) {
-				const match = line.match(/(\d+h)?\s*(\d+m)?\s*(\d+s)?/i);
-				if (match) this.metadata.estimatedTime = this.parseTimeString(match[0]);
-			}
+	static analyze(gcode: string, options?: AnalyzeOptions): GCodeAnalysis {
+		const parser = new GCodeParser(options);
+		for (const line of gcode.split(/\r?\n/)) parser.feed(line);
+		return parser.analyze();
+	}
+
+	// `offset` is the byte offset at the end of the line, needed for the timeline
+	feed(raw: string, offset?: number) {
+		this.lineCount++;
+		if (offset !== undefined) this.offset = offset;
+		const semicolon = raw.indexOf(';');
+		if (semicolon >= 0) this.parseComment(raw.slice(semicolon + 1).trim());
+		const code = (semicolon >= 0 ? raw.slice(0, semicolon) : raw).trim().toUpperCase();
+		if (!code) return;
+
+		const words: Record<string, number> = {};
+		let command: string | null = null;
+		WORD.lastIndex = 0;
+		for (let match = WORD.exec(code); match; match = WORD.exec(code)) {
+			const letter = match[1];
+			// The first G/M/T word is the command; N line numbers and checksums are skipped
+			if (!command && (letter === 'G' || letter === 'M' || letter === 'T')) command = `${letter}${parseInt(match[2], 10)}`;
+			else words[letter] = parseFloat(match[2]);
 		}
+		if (command) this.execute(command, words);
+	}
+
+	analyze(): GCodeAnalysis {
+		this.planner.flush();
+		const last = this.timeline?.[this.timeline.length - 1];
+		if (last && this.offset > last[0]) this.timeline!.push([this.offset, round1(this.totalTime)]);
+		return {
+			metadata: this.metadata,
+			bounds: this.min && this.max ? { min: round(this.min), max: round(this.max) } : null,
+			filament: this.filament.map((length) => Math.round(Math.max(0, length) * 100) / 100),
+			layers: this.layers.map((layer) => ({
+				z: Math.round(layer.z * 1000) / 1000,
+				time: Math.round(layer.time * 10) / 10,
+				extruded: Math.round(layer.extruded * 100) / 100,
+			})),
+			estimatedTime: Math.round(this.totalTime),
+			maxTemperatures: this.maxTemperatures,
+			lines: this.lineCount,
+			timeline: this.timeline ?? undefined,
+		};
 	}
 
 	getLayerCount(): number {
-		return this.lines.filter((l) => /;\s*LAYER[:\s]/i.test(l) || /;\s*layer\b/i.test(l)).length;
+		return this.layers.length;
 	}
 
+	// Planned time of the lines fed so far, through the planner's lookahead
 	estimatePrintTime(): number {
-		if (this.metadata.estimatedTime) return this.metadata.estimatedTime;
-
-		let total = 0;
-		let pos: Position = { x: 0, y: 0, z: 0, e: 0 };
-		let feed = 1200; // mm/min default
-		for (const l of this.lines) {
-			if (/^(G0|G1)\b/.test(l)) {
-				const next = this.parsePosition(l);
-				const newFeed = this.parseFeedRate(l);
-				if (newFeed) feed = newFeed;
-				const dist = this.distance(pos, next);
-				total += (dist / feed) * 60; // seconds
-				pos = { ...pos, ...next } as Position;
+		this.planner.flush();
+		return Math.round(this.totalTime);
+	}
+
+	private execute(command: string, w: Record<string, number>) {
+		switch (command) {
+			case 'G0':
+			case 'G1':
+				this.move(w);
+				break;
+			case 'G2':
+			case 'G3':
+				this.arc(w, command === 'G2');
+				break;
+			case 'G4':
+				// P is milliseconds, S seconds
+				this.planner.wait((w.P ?? 0) / 1000 + (w.S ?? 0), this.tag());
+				break;
+			case 'G20':
+				this.scale = INCH;
+				break;
+			case 'G21':
+				this.scale = 1;
+				break;
+			case 'G28': {
+				// Homing without axes homes all of them; the real home position is unknown, 0 is close enough
+				const axes = (['x', 'y', 'z'] as const).filter((axis) => w[axis.toUpperCase()] !== undefined);
+				for (const axis of axes.length ? axes : (['x', 'y', 'z'] as const)) this.pos[axis] = 0;
+				this.planner.flush();
+				break;
 			}
+			case 'G90':
+				this.relative = false;
+				this.relativeE = false;
+				break;
+			case 'G91':
+				this.relative = true;
+				this.relativeE = true;
+				break;
+			case 'G92':
+				for (const axis of ['x', 'y', 'z', 'e'] as const) {
+					const value = w[axis.toUpperCase()];
+					if (value !== undefined) this.pos[axis] = value * this.scale;
+				}
+				if (!['X', 'Y', 'Z', 'E'].some((axis) => w[axis] !== undefined)) this.pos = { x: 0, y: 0, z: 0, e: 0 };
+				break;
+			case 'M82':
+				this.relativeE = false;
+				break;
+			case 'M83':
+				this.relativeE = true;
+				break;
+			case 'M104':
+			case 'M109':
+				this.recordTemperature('hotend', w.S ?? w.R);
+				if (command === 'M109') this.planner.flush();
+				break;
+			case 'M140':
+			case 'M190':
+				this.recordTemperature('bed', w.S ?? w.R);
+				if (command === 'M190') this.planner.flush();
+				break;
+			case 'M141':
+			case 'M191':
+				this.recordTemperature('chamber', w.S ?? w.R);
+				if (command === 'M191') this.planner.flush();
+				break;
+			case 'M400':
+				this.planner.flush();
+				break;
+			case 'M201':
+			case 'M203':
+			case 'M204':
+			case 'M205':
+				// Slicers write the machine limits they planned with into the start G-code
+				this.planner.setLimits(command, w);
+				break;
+			default:
+				if (command[0] === 'T') this.selectTool(parseInt(command.slice(1), 10));
 		}
-		return Math.round(total);
 	}
 
-	private parsePosition(line: string): Partial<Position> {
-		const val = (axis: string) => {
-			const m = line.match(new RegExp(axis + '([\-\d.]+)'));
-			return m ? parseFloat(m[1]) : undefined;
+	private target(w: Record<string, number>): Position {
+		const axis = (key: 'x' | 'y' | 'z', letter: string) => {
+			const value = w[letter];
+			if (value === undefined) return this.pos[key];
+			return this.relative ? this.pos[key] + value * this.scale : value * this.scale;
 		};
-		return { x: val('X'), y: val('Y'), z: val('Z'), e: val('E') };
+		const e = w.E === undefined ? this.pos.e : this.relativeE ? this.pos.e + w.E * this.scale : w.E * this.scale;
+		return { x: axis('x', 'X'), y: axis('y', 'Y'), z: axis('z', 'Z'), e };
 	}
 
-	private parseFeedRate(line: string): number | null {
-		const m = line.match(/F([\d.]+)/);
-		return m ? parseFloat(m[1]) : null;
+	private move(w: Record<string, number>) {
+		if (w.F !== undefined && w.F > 0) this.feedrate = w.F * this.scale;
+		const to = this.target(w);
+		this.travel(to, undefined, () => this.extrudeTo(to));
 	}
 
-	private distance(a: Position, b: Partial<Position>): number {
-		const dx = (b.x ?? a.x) - a.x;
-		const dy = (b.y ?? a.y) - a.y;
-		const dz = (b.z ?? a.z) - a.z;
-		return Math.sqrt(dx * dx + dy * dy + dz * dz);
+	private arc(w: Record<string, number>, clockwise: boolean) {
+		if (w.F !== undefined && w.F > 0) this.feedrate = w.F * this.scale;
+		const from = this.pos;
+		const to = this.target(w);
+		const center = this.arcCenter(from, to, w, clockwise);
+		if (!center) {
+			// Degenerate arc: Marlin moves in a straight line
+			this.travel(to, undefined, () => this.extrudeTo(to));
+			return;
+		}
+
+		const radius = Math.hypot(from.x - center.x, from.y - center.y);
+		const start = Math.atan2(from.y - center.y, from.x - center.x);
+		const end = Math.atan2(to.y - center.y, to.x - center.x);
+		let sweep = clockwise ? start - end : end - start;
+		if (sweep <= 1e-9) sweep += 2 * Math.PI; // also full circles, where start and end coincide
+		const length = Math.hypot(radius * sweep, to.z - from.z);
+
+		this.travel(to, length, () => {
+			const segments = Math.min(MAX_ARC_SEGMENTS, Math.max(4, Math.ceil((radius * sweep) / ARC_SEGMENT_MM)));
+			for (let i = 1; i <= segments; i++) {
+				const angle = start + (clockwise ? -1 : 1) * sweep * (i / segments);
+				this.extrudeTo({
+					x: center.x + radius * Math.cos(angle),
+					y: center.y + radius * Math.sin(angle),
+					z: from.z + ((to.z - from.z) * i) / segments,
+				});
+			}
+		});
 	}
 
-	private parseTimeString(s: string): number {
-		let total = 0;
-		const h = s.match(/(\d+)h/i);
-		const m = s.match(/(\d+)m/i);
-		const sec = s.match(/(\d+)s/i);
-		if (h) total += parseInt(h[1]) * 3600;
-		if (m) total += parseInt(m[1]) * 60;
-		if (sec) total += parseInt(sec[1]);
-		return total;
+	// I/J offsets from the start point, or R radius (negative for the longer arc)
+	private arcCenter(from: Position, to: Position, w: Record<string, number>, clockwise: boolean) {
+		if (w.I !== undefined || w.J !== undefined) {
+			const i = (w.I ?? 0) * this.scale;
+			const j = (w.J ?? 0) * this.scale;
+			if (i === 0 && j === 0) return null;
+			return { x: from.x + i, y: from.y + j };
+		}
+		if (w.R === undefined) return null;
+		const r = w.R * this.scale;
+		const dx = to.x - from.x;
+		const dy = to.y - from.y;
+		const chord = Math.hypot(dx, dy);
+		if (chord === 0 || Math.abs(r) < chord / 2) return null;
+		const offset = Math.sqrt(r * r - (chord / 2) ** 2);
+		const side = (clockwise ? -1 : 1) * (r < 0 ? -1 : 1);
+		return {
+			x: (from.x + to.x) / 2 - (side * offset * dy) / chord,
+			y: (from.y + to.y) / 2 + (side * offset * dx) / chord,
+		};
+	}
+
+	/**
+	 * Books one move: filament, the layer it belongs to and, when it extrudes while moving,
+	 * the bounding box and segments (through `trace`); then hands it to the planner. `path` is the arc
+	 * length for arcs, straight moves measure themselves.
+	 */
+	private travel(to: Position, path: number | undefined, trace: () => void) {
+		const from = this.pos;
+		const extruded = to.e - from.e;
+		const length = path ?? Math.hypot(to.x - from.x, to.y - from.y, to.z - from.z);
+		this.filament[this.tool] += extruded;
+
+		if (extruded > 0 && length > 0) {
+			const layer = this.layers[this.layers.length - 1];
+			if (!layer || Math.abs(layer.z - to.z) > LAYER_EPSILON) {
+				this.layers.push({ z: to.z, time: 0, extruded: 0 });
+			}
+			this.layers[this.layers.length - 1].extruded += extruded;
+			if (this.min === null) this.extend(from);
+			this.traced = from;
+			trace();
+		}
+		this.planner.move(to.x - from.x, to.y - from.y, to.z - from.z, extruded, this.feedrate / 60, this.tag(), path);
+		this.pos = to;
+	}
+
+	private tag(): MoveTag {
+		return { layer: this.layers.length - 1, offset: this.offset };
 	}
+
+	private extrudeTo(point: Point3) {
+		this.extend(point);
+		this.onSegment?.(this.traced, point);
+		this.traced = point;
+	}
+
+	private extend(point: Point3) {
+		if (!this.min || !this.max) {
+			this.min = { x: point.x, y: point.y, z: point.z };
+			this.max = { x: point.x, y: point.y, z: point.z };
+			return;
+		}
+		this.min.x = Math.min(this.min.x, point.x);
+		this.min.y = Math.min(this.min.y, point.y);
+		this.min.z = Math.min(this.min.z, point.z);
+		this.max.x = Math.max(this.max.x, point.x);
+		this.max.y = Math.max(this.max.y, point.y);
+		this.max.z = Math.max(this.max.z, point.z);
+	}
+
+	// Time before the first extrusion (homing, purge travel) only counts towards the total
+	private addTime(seconds: number, { layer, offset }: MoveTag) {
+		if (!(seconds > 0)) return;
+		this.totalTime += seconds;
+		if (layer >= 0) this.layers[layer].time += seconds;
+		const last = this.timeline?.[this.timeline.length - 1];
+		if (last && offset - last[0] >= TIMELINE_STEP_BYTES) this.timeline!.push([offset, round1(this.totalTime)]);
+	}
+
+	private selectTool(tool: number) {
+		if (!Number.isInteger(tool) || tool < 0) return;
+		while (this.filament.length <= tool) this.filament.push(0);
+		this.tool = tool;
+	}
+
+	private recordTemperature(heater: 'hotend' | 'bed' | 'chamber', value: number | undefined) {
+		if (value === undefined || !(value > 0)) return;
+		this.maxTemperatures[heater] = Math.max(this.maxTemperatures[heater] ?? 0, value);
+	}
+
+	// Header and footer comments written by PrusaSlicer/OrcaSlicer ("; key = value") and Cura (";KEY:value")
+	private parseComment(comment: string) {
+		if (!comment) return;
+		const lower = comment.toLowerCase();
+
+		const generator = comment.match(/^generated (?:by|with) (.+?)(?: on .*)?$/i);
+		if (generator) this.metadata.slicer ??= generator[1].trim();
+		if (lower.startsWith('flavor:')) this.metadata.flavor = comment.slice(7).trim();
+		if (lower.startsWith('time:')) this.metadata.estimatedTime = parseInt(comment.slice(5), 10) || undefined;
+		if (lower.startsWith('estimated printing time')) {
+			const time = comment.slice(comment.indexOf('=') + 1);
+			this.metadata.estimatedTime = parseTimeString(time) || this.metadata.estimatedTime;
+		}
+		// "filament used [mm] = 1234.5" or Cura's "Filament used: 1.2345m"; the [g] and [cm3] variants are skipped
+		const filament = comment.match(/^filament used(?: \[mm\])?\s*[:=]\s*([\d.]+)\s*(m\b)?/i);
+		if (filament) this.metadata.filamentUsed = parseFloat(filament[1]) * (filament[2] ? 1000 : 1);
+		if (lower.startsWith('layer height') || lower.startsWith('layer_height')) {
+			const m = comment.match(/[:=]\s*([\d.]+)/);
+			if (m) this.metadata.layerHeight = parseFloat(m[1]);
+		}
+		if (lower.startsWith('filament_type') || lower.startsWith('material_type')) {
+			// Multi-material files list one type per extruder ("PLA;PETG"); the first one is kept
+			const m = comment.match(/[:=]\s*([^;]+)/);
+			if (m) this.metadata.material = m[1].trim();
+		}
+	}
+}
+
+// "1h 2m 3s", "1d 2h 3m 4s"
+function parseTimeString(s: string): number {
+	let total = 0;
+	const units: Record<string, number> = { d: 86400, h: 3600, m: 60, s: 1 };
+	for (const match of s.matchAll(/(\d+)\s*([dhms])/gi)) total += parseInt(match[1], 10) * units[match[2].toLowerCase()];
+	return total;
+}
+
+function round1(value: number): number {
+	return Math.round(value * 10) / 10;
+}
+
+function round(point: Point3): Point3 {
+	return { x: Math.round(point.x * 100) / 100, y: Math.round(point.y * 100) / 100, z: Math.round(point.z * 100) / 100 };
 }
 
 export default GCodeParser;
@@ -0,0 +1,72 @@
+/**
+ * Host action commands: lines the firmware prints to ask the host to act, e.g.
+ *
+ *   //action:pause
+ *   //action:out_of_filament T0
+ *   //action:prompt_begin Filament Runout T0
+ *   //action:prompt_choice Continue
+ *   //action:prompt_show
+ *
+ * Marlin sends them with HOST_ACTION_COMMANDS for the print button, filament runout and
+ * M600; prompts additionally need HOST_PROMPT_SUPPORT and are answered with `M876 S<index>`.
+ */
+
+export type HostAction =
+	| { type: 'pause' | 'paused' | 'resume' | 'resumed' | 'cancel' | 'start'; reason?: string }
+	| { type: 'out_of_filament'; tool?: number }
+	| { type: 'notification'; message: string }
+	| { type: 'prompt_begin'; message: string }
+	| { type: 'prompt_choice'; text: string }
+	| { type: 'prompt_show' }
+	| { type: 'prompt_end' }
+	| { type: 'unknown'; name: string; args: string };
+
+export type HostPrompt = {
+	message: string;
+	choices: string[];
+	shownAt: Date;
+};
+
+const ACTION = /^\/\/\s*action:\s*(\S+)\s*(.*)$/i;
+
+export function parseHostAction(line: string): HostAction | null {
+	const match = line.trim().match(ACTION);
+	if (!match) return null;
+	const name = match[1].toLowerCase();
+	const args = match[2].trim();
+
+	switch (name) {
+		case 'pause':
+		case 'paused':
+		case 'resume':
+		case 'resumed':
+		case 'cancel':
+		case 'start':
+			// "paused filament_runout 0" style reasons
+			return { type: name, reason: args || undefined };
+		case 'out_of_filament': {
+			const tool = args.match(/T(\d+)/i);
+			return { type: 'out_of_filament', tool: tool ? parseInt(tool[1], 10) : undefined };
+		}
+		case 'notification':
+			return { type: 'notification', message: args };
+		case 'prompt_begin':
+			return { type: 'prompt_begin', message: args };
+		// Older Marlin versions call choices buttons
+		case 'prompt_choice':
+		case 'prompt_button':
+			return { type: 'prompt_choice', text: args };
+		case 'prompt_show':
+			return { type: 'prompt_show' };
+		case 'prompt_end':
+			return { type: 'prompt_end' };
+		default:
+			return { type: 'unknown', name, args };
+	}
+}
+
+// Pause requests caused by the filament sensor rather than the print button
+export function isRunout(action: HostAction): boolean {
+	if (action.type === 'out_of_filament') return true;
+	return (action.type === 'pause' || action.type === 'paused') && /runout|filament/i.test(action.reason ?? '');
+}
@@ -0,0 +1,362 @@
+import EventEmitter from 'events';
+import { openAsBlob } from 'fs';
+import { basename } from 'path';
+import WebSocket from 'ws';
+import { FirmwareInfo, parseFirmwareReport } from './FirmwareInfo';
+import { parseHostAction } from './HostActions';
+import { DriverConnection, PrinterDriver, RemotePrintHost, RemotePrintState, RemotePrintStatus } from './PrinterDriver';
+import type { Position, TemperatureData } from './PrinterService';
+
+type Pending = {
+	resolve: (value: any) => void;
+	reject: (reason?: any) => void;
+	timeout?: NodeJS.Timeout;
+};
+
+type ObjectStatus = Record<string, Record<string, any>>;
+
+const CONNECT_TIMEOUT_MS = 10000;
+const DEFAULT_TIMEOUT_MS = 5000;
+// Moonraker pushes status about four times a second; the rest of the backend expects ~1 Hz
+const REPORT_INTERVAL_MS = 1000;
+const CLIENT_NAME = 'LezerPrint';
+
+// Klipper objects that imply a capability, mapped to the Cap: flag it stands for
+const OBJECT_FLAGS: Array<[RegExp, string]> = [
+	[/^virtual_sdcard$/, 'SDCARD'],
+	[/^bed_mesh$/, 'AUTOLEVEL'],
+	[/^(probe|bltouch|smart_effector|probe_eddy_current .+)$/, 'Z_PROBE'],
+	[/^filament_(switch|motion)_sensor .+$/, 'RUNOUT'],
+	[/^heater_generic chamber$/, 'CHAMBER_TEMPERATURE'],
+];
+
+const PRINT_STATES: RemotePrintState[] = ['standby', 'printing', 'paused', 'complete', 'cancelled', 'error'];
+
+/**
+ * Talks to Klipper through Moonraker's JSON-RPC WebSocket (`/websocket`). Status comes
+ * from a printer objects subscription, G-code goes through `printer.gcode.script`, and
+ * jobs are uploaded to Moonraker's `gcodes` storage and printed by Klipper itself.
+ * The connection path is the Moonraker base URL, e.g. `http://klipper.local:7125`.
+ */
+export class MoonrakerDriver extends EventEmitter implements PrinterDriver, RemotePrintHost {
+	readonly kind = 'moonraker' as const;
+	readonly reportsStatus = true;
+	private ws: WebSocket | null = null;
+	private nextId = 1;
+	private pending = new Map<number, Pending>();
+	// Output of running gcode scripts, collected until their call returns
+	private collectors = new Set<string[]>();
+	private _isConnected = false;
+	private _connection: DriverConnection | null = null;
+	private _firmware: FirmwareInfo | null = null;
+	private baseUrl = '';
+	private status: ObjectStatus = {};
+	private chamberObject: string | null = null;
+	private lastReport = { temperature: 0, position: 0, print: 0 };
+	private lastPrintState: RemotePrintState | null = null;
+
+	get isConnected() {
+		return this._isConnected;
+	}
+
+	get connection() {
+		return this._connection;
+	}
+
+	get firmware() {
+		return this._firmware;
+	}
+
+	get remote(): RemotePrintHost {
+		return this;
+	}
+
+	// Klipper has no ok flow control to tune
+	setMaxInFlight(_count: number) {}
+
+	async connect(path: string) {
+		if (this.ws) await this.disconnect();
+		this.baseUrl = normalizeUrl(path);
+		this._connection = { path: this.baseUrl, baudRate: null };
+		this._firmware = null;
+		this.status = {};
+		this.lastPrintState = null;
+
+		const ws = new WebSocket(`${this.baseUrl.replace(/^http/, 'ws')}/websocket`);
+		this.ws = ws;
+		await new Promise<void>((resolve, reject) => {
+			const timer = setTimeout(() => {
+				ws.terminate();
+				reject(new Error(`Moonraker at ${this.baseUrl} did not answer`));
+			}, CONNECT_TIMEOUT_MS);
+			ws.once('open', () => {
+				clearTimeout(timer);
+				resolve();
+			});
+			ws.once('error', (error) => {
+				clearTimeout(timer);
+				reject(error);
+			});
+		});
+
+		ws.on('message', (data) => this.handleMessage(data.toString()));
+		ws.on('error', (error) => console.error('Moonraker connection error:', error));
+		ws.on('close', () => this.handleClose(ws));
+
+		let info: any;
+		try {
+			await this.call('server.connection.identify', { client_name: CLIENT_NAME, version: '1.0.0', type: 'agent', url: 'https://github.com/lezerprint' });
+			info = await this.call('printer.info');
+			// A shut down Klipper still answers, and needs a FIRMWARE_RESTART from here to recover
+			if (info?.state !== 'ready' && info?.state !== 'shutdown') {
+				throw new Error(`Klipper is not ready: ${info?.state_message || info?.state || 'unknown state'}`);
+			}
+			await this.subscribe(info);
+		} catch (e) {
+			this.ws = null;
+			ws.removeAllListeners();
+			ws.terminate();
+			this.failPending('Moonraker connection failed');
+			throw e;
+		}
+
+		this._isConnected = true;
+		this.emit('connected');
+		if (info.state === 'shutdown') this.emit('printer-error', { message: info.state_message || 'Klipper is shut down' });
+	}
+
+	async disconnect() {
+		const ws = this.ws;
+		this.ws = null;
+		this.failPending('Printer disconnected');
+		if (!ws) return;
+		const wasConnected = this._isConnected;
+		this._isConnected = false;
+		ws.removeAllListeners();
+		ws.close();
+		if (wasConnected) this.emit('disconnected');
+	}
+
+	// Resolves once Klipper has run the script, with whatever it printed meanwhile
+	async sendCommand(gcode: string, _priority = false, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<string> {
+		const output: string[] = [];
+		this.collectors.add(output);
+		try {
+			await this.call('printer.gcode.script', { script: gcode }, timeoutMs);
+			return output.join('\n') || 'ok';
+		} finally {
+			this.collectors.delete(output);
+		}
+	}
+
+	// Moonraker runs requests concurrently, so there is no queue to jump
+	sendEmergency(gcode: string, timeoutMs = 0) {
+		return this.sendCommand(gcode, true, timeoutMs);
+	}
+
+	async emergencyStop() {
+		this.failPending('Emergency stop');
+		await this.call('printer.emergency_stop');
+	}
+
+	clearQueue(reason = 'Command queue cleared') {
+		for (const [id, request] of this.pending) {
+			clearTimeout(request.timeout);
+			request.reject(new Error(reason));
+			this.pending.delete(id);
+		}
+	}
+
+	// Uploads into Moonraker's gcodes root; `name` may contain a subdirectory
+	async upload(localPath: string, name: string): Promise<string> {
+		const form = new FormData();
+		form.append('root', 'gcodes');
+		const dir = name.includes('/') ? name.slice(0, name.lastIndexOf('/')) : '';
+		if (dir) form.append('path', dir);
+		form.append('file', await openAsBlob(localPath), basename(name));
+
+		const response = await fetch(`${this.baseUrl}/server/files/upload`, { method: 'POST', body: form });
+		if (!response.ok) throw new Error(`Upload to Moonraker failed: ${response.status} ${await response.text()}`);
+		const body = (await response.json()) as { item?: { path?: string } };
+		return body.item?.path ?? name;
+	}
+
+	async start(name: string) {
+		await this.call('printer.print.start', { filename: name });
+	}
+
+	async pause() {
+		await this.call('printer.print.pause');
+	}
+
+	async resume() {
+		await this.call('printer.print.resume');
+	}
+
+	async cancel() {
+		await this.call('printer.print.cancel');
+	}
+
+	private call(method: string, params?: Record<string, any>, timeoutMs = DEFAULT_TIMEOUT_MS): Promise<any> {
+		const ws = this.ws;
+		if (!ws || ws.readyState !== WebSocket.OPEN) return Promise.reject(new Error('Moonraker not connected'));
+		const id = this.nextId++;
+		return new Promise((resolve, reject) => {
+			const request: Pending = { resolve, reject };
+			if (timeoutMs > 0) {
+				request.timeout = setTimeout(() => {
+					this.pending.delete(id);
+					reject(new Error(`Moonraker request timeout: ${method}`));
+				}, timeoutMs);
+			}
+			this.pending.set(id, request);
+			ws.send(JSON.stringify({ jsonrpc: '2.0', method, params, id }));
+		});
+	}
+
+	private async subscribe(info: { software_version?: string; hostname?: string }) {
+		const { objects } = (await this.call('printer.objects.list')) as { objects: string[] };
+		const flags: Record<string, boolean> = {};
+		for (const [pattern, flag] of OBJECT_FLAGS) flags[flag] = objects.some((name) => pattern.test(name));
+		this.chamberObject = objects.find((name) => /^(heater_generic|temperature_sensor) chamber$/.test(name)) ?? null;
+		this._firmware = parseFirmwareReport([
+			`FIRMWARE_NAME:Klipper FIRMWARE_VERSION:${info.software_version ?? 'unknown'} MACHINE_TYPE:${info.hostname ?? 'Klipper'}`,
+			...Object.entries(flags).map(([flag, on]) => `Cap:${flag}:${on ? 1 : 0}`),
+		]);
+
+		const subscription: Record<string, string[] | null> = {
+			extruder: ['temperature', 'target'],
+			heater_bed: ['temperature', 'target'],
+			toolhead: ['position', 'homed_axes'],
+			print_stats: ['state', 'filename', 'message', 'info'],
+			virtual_sdcard: ['progress', 'file_position'],
+		};
+		if (this.chamberObject) subscription[this.chamberObject] = ['temperature', 'target'];
+		const { status } = (await this.call('printer.objects.subscribe', { objects: subscription })) as { status: ObjectStatus };
+		this.applyStatus(status, true);
+	}
+
+	private handleMessage(raw: string) {
+		let message: any;
+		try {
+			message = JSON.parse(raw);
+		} catch {
+			return;
+		}
+
+		if (message.id !== undefined) {
+			const request = this.pending.get(message.id);
+			if (!request) return;
+			this.pending.delete(message.id);
+			clearTimeout(request.timeout);
+			if (message.error) request.reject(new Error(message.error.message || 'Moonraker request failed'));
+			else request.resolve(message.result);
+			return;
+		}
+
+		switch (message.method) {
+			case 'notify_status_update':
+				this.applyStatus(message.params?.[0] ?? {});
+				break;
+			case 'notify_gcode_response':
+				this.handleOutput(String(message.params?.[0] ?? ''));
+				break;
+			case 'notify_klippy_shutdown':
+				this.emit('printer-error', { message: this.status.print_stats?.message || 'Klipper shut down' });
+				break;
+			// Klipper restarted or lost its MCU: reconnecting waits until it is ready again
+			case 'notify_klippy_disconnected':
+				this.disconnect().catch(() => {});
+				break;
+		}
+	}
+
+	private handleOutput(line: string) {
+		for (const output of this.collectors) output.push(line);
+		const action = parseHostAction(line);
+		if (action) {
+			this.emit('action', action);
+			return;
+		}
+		if (/^!!/.test(line)) this.emit('printer-error', { message: line.replace(/^!!\s*/, '') });
+		// Output of our own scripts is returned by sendCommand instead
+		if (this.collectors.size === 0) this.emit('response', { type: 'raw', line });
+	}
+
+	private handleClose(ws: WebSocket) {
+		if (this.ws !== ws) return;
+		this.ws = null;
+		this.failPending('Moonraker connection closed');
+		if (!this._isConnected) return;
+		this._isConnected = false;
+		this.emit('disconnected');
+	}
+
+	private failPending(reason: string) {
+		this.clearQueue(reason);
+		this.collectors.clear();
+	}
+
+	// Merges a (partial) status update and re-emits it the way the serial driver reports
+	private applyStatus(update: ObjectStatus, initial = false) {
+		for (const [name, fields] of Object.entries(update)) {
+			this.status[name] = { ...this.status[name], ...fields };
+		}
+		const now = Date.now();
+		const heaters = ['extruder', 'heater_bed', this.chamberObject].some((name) => name && update[name]);
+		if (heaters && (initial || now - this.lastReport.temperature >= REPORT_INTERVAL_MS)) {
+			this.lastReport.temperature = now;
+			this.emit('temperature', this.temperatures());
+		}
+		if (update.toolhead?.position && (initial || now - this.lastReport.position >= REPORT_INTERVAL_MS)) {
+			this.lastReport.position = now;
+			const [x, y, z, e] = this.status.toolhead.position as number[];
+			this.emit('position', { x, y, z, e } as Position);
+		}
+		if (update.print_stats || update.virtual_sdcard) {
+			const print = this.printStatus();
+			const changed = print.state !== this.lastPrintState;
+			if (initial || changed || now - this.lastReport.print >= REPORT_INTERVAL_MS) {
+				this.lastReport.print = now;
+				this.lastPrintState = print.state;
+				this.emit('print-status', print);
+			}
+		}
+	}
+
+	private temperatures(): TemperatureData {
+		const { extruder, heater_bed: bed } = this.status;
+		const chamber = this.chamberObject ? this.status[this.chamberObject] : undefined;
+		return {
+			hotendTemp: extruder?.temperature,
+			hotendTarget: extruder?.target,
+			bedTemp: bed?.temperature,
+			bedTarget: bed?.target,
+			chamberTemp: chamber?.temperature,
+			chamberTarget: chamber?.target,
+		};
+	}
+
+	private printStatus(): RemotePrintStatus {
+		const stats = this.status.print_stats ?? {};
+		const state = PRINT_STATES.includes(stats.state) ? (stats.state as RemotePrintState) : 'standby';
+		return {
+			state,
+			filename: stats.filename || null,
+			progress: Math.round((this.status.virtual_sdcard?.progress ?? 0) * 10000) / 100,
+			layer: stats.info?.current_layer ?? undefined,
+			totalLayers: stats.info?.total_layer ?? undefined,
+			message: stats.message || undefined,
+		};
+	}
+}
+
+// Accepts "host:7125", "http://host:7125/" or a ws:// URL and returns the HTTP base URL
+function normalizeUrl(path: string): string {
+	let url = path.trim().replace(/\/+$/, '').replace(/\/websocket$/, '');
+	if (/^wss?:\/\//i.test(url)) url = url.replace(/^ws/i, 'http');
+	if (!/^https?:\/\//i.test(url)) url = `http://${url}`;
+	return url;
+}
+
+export default MoonrakerDriver;
@@ -0,0 +1,362 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import multer from 'multer';
+import WebSocket, { WebSocketServer } from 'ws';
+
+export type MoonrakerStubOptions = {
+	port?: number; // 0 picks a free port
+	timeScale?: number; // >1 heats and prints faster than real time
+	printSeconds?: number; // real-time duration of a simulated print
+};
+
+type StoredFile = { size: number; layers: number };
+type KlippyState = 'ready' | 'shutdown' | 'startup';
+type Status = Record<string, Record<string, any>>;
+
+const TICK_MS = 250;
+const AMBIENT = 22;
+const SOFTWARE_VERSION = 'v0.12.0-lezerprint-stub';
+const OBJECTS = ['webhooks', 'gcode_move', 'toolhead', 'extruder', 'heater_bed', 'heater_generic chamber', 'print_stats', 'virtual_sdcard', 'pause_resume', 'bed_mesh', 'probe', 'filament_switch_sensor runout'];
+
+// Heating time constants in seconds, like VirtualPrinter
+const HEAT_TAU: Record<string, number> = { extruder: 25, heater_bed: 70, 'heater_generic chamber': 300 };
+const COOL_TAU: Record<string, number> = { extruder: 90, heater_bed: 240, 'heater_generic chamber': 600 };
+
+class RpcError extends Error {
+	constructor(message: string, readonly code = 400) {
+		super(message);
+	}
+}
+
+/**
+ * A stand-in for Klipper behind Moonraker, for developing and testing the Moonraker driver
+ * without a printer: the JSON-RPC WebSocket with object subscriptions, `printer.gcode.script`,
+ * print start/pause/resume/cancel, emergency stop and the gcodes file upload endpoint.
+ * Prints only advance a progress counter. Run it with `npm run moonraker:stub`.
+ */
+export class MoonrakerStub {
+	private server: http.Server;
+	private wss: WebSocketServer;
+	private files = new Map<string, StoredFile>();
+	private subscriptions = new Map<WebSocket, Record<string, string[] | null>>();
+	private timer?: NodeJS.Timeout;
+	private klippy: KlippyState = 'ready';
+	private nextConnectionId = 1;
+	private timeScale: number;
+	private printSeconds: number;
+	private status: Status = {
+		extruder: { temperature: AMBIENT, target: 0, power: 0 },
+		heater_bed: { temperature: AMBIENT, target: 0, power: 0 },
+		'heater_generic chamber': { temperature: AMBIENT, target: 0, power: 0 },
+		toolhead: { position: [0, 0, 0, 0], homed_axes: '' },
+		print_stats: { state: 'standby', filename: '', message: '', print_duration: 0, info: { current_layer: null, total_layer: null } },
+		virtual_sdcard: { progress: 0, file_position: 0, is_active: false },
+		webhooks: { state: 'ready', state_message: 'Printer is ready' },
+	};
+
+	constructor(private options: MoonrakerStubOptions = {}) {
+		this.timeScale = options.timeScale ?? 10;
+		this.printSeconds = options.printSeconds ?? 60;
+		const app = express();
+		const upload = multer({ storage: multer.memoryStorage() });
+		app.get('/server/info', (_req, res) => {
+			res.json({ result: { klippy_connected: this.klippy !== 'startup', klippy_state: this.klippy, moonraker_version: SOFTWARE_VERSION } });
+		});
+		app.post('/server/files/upload', upload.single('file'), (req, res) => {
+			if (!req.file) return res.status(400).json({ error: { code: 400, message: 'No file part in the request' } });
+			if ((req.body.root ?? 'gcodes') !== 'gcodes') return res.status(400).json({ error: { code: 400, message: 'Only the gcodes root is supported' } });
+			const dir = String(req.body.path ?? '').replace(/^\/+|\/+$/g, '');
+			const path = dir ? `${dir}/${req.file.originalname}` : req.file.originalname;
+			const layers = req.file.buffer.toString('utf8').match(/^;LAYER:\d+/gm)?.length ?? 0;
+			this.files.set(path, { size: req.file.size, layers });
+			return res.status(201).json({ item: { path, root: 'gcodes' }, action: 'create_file' });
+		});
+
+		this.server = http.createServer(app);
+		this.wss = new WebSocketServer({ server: this.server, path: '/websocket' });
+		this.wss.on('connection', (ws) => {
+			ws.on('message', (data) => this.handleMessage(ws, data.toString()));
+			ws.on('close', () => this.subscriptions.delete(ws));
+		});
+	}
+
+	async start(): Promise<number> {
+		await new Promise<void>((resolve) => this.server.listen(this.options.port ?? 7125, resolve));
+		this.timer = setInterval(() => this.tick(), TICK_MS);
+		return (this.server.address() as AddressInfo).port;
+	}
+
+	async stop() {
+		if (this.timer) clearInterval(this.timer);
+		for (const ws of this.wss.clients) ws.terminate();
+		await new Promise<void>((resolve) => this.wss.close(() => resolve()));
+		await new Promise<void>((resolve) => this.server.close(() => resolve()));
+	}
+
+	// Drops every client, as Moonraker does when its host goes away
+	disconnectClients() {
+		for (const ws of this.wss.clients) ws.terminate();
+	}
+
+	private async handleMessage(ws: WebSocket, raw: string) {
+		let request: { id?: number; method?: string; params?: any };
+		try {
+			request = JSON.parse(raw);
+		} catch {
+			return ws.send(JSON.stringify({ jsonrpc: '2.0', error: { code: -32700, message: 'Parse error' }, id: null }));
+		}
+		try {
+			const result = await this.call(ws, request.method ?? '', request.params ?? {});
+			ws.send(JSON.stringify({ jsonrpc: '2.0', result, id: request.id }));
+		} catch (e: any) {
+			ws.send(JSON.stringify({ jsonrpc: '2.0', error: { code: e?.code ?? 400, message: e?.message ?? 'Error' }, id: request.id }));
+		}
+	}
+
+	private async call(ws: WebSocket, method: string, params: any): Promise<any> {
+		switch (method) {
+			case 'server.connection.identify':
+				return { connection_id: this.nextConnectionId++ };
+			case 'printer.info':
+				return {
+					state: this.klippy,
+					state_message: this.status.webhooks.state_message,
+					hostname: 'moonraker-stub',
+					software_version: SOFTWARE_VERSION,
+				};
+			case 'printer.objects.list':
+				this.assertKlippy(true);
+				return { objects: OBJECTS };
+			case 'printer.objects.subscribe': {
+				this.assertKlippy(true);
+				const objects = (params.objects ?? {}) as Record<string, string[] | null>;
+				this.subscriptions.set(ws, objects);
+				return { eventtime: this.eventtime(), status: this.pick(objects) };
+			}
+			case 'printer.objects.query':
+				this.assertKlippy(true);
+				return { eventtime: this.eventtime(), status: this.pick(params.objects ?? {}) };
+			case 'printer.gcode.script':
+				return this.runScript(String(params.script ?? ''));
+			case 'printer.print.start':
+				return this.startPrint(String(params.filename ?? ''));
+			case 'printer.print.pause':
+				return this.runScript('PAUSE');
+			case 'printer.print.resume':
+				return this.runScript('RESUME');
+			case 'printer.print.cancel':
+				return this.runScript('CANCEL_PRINT');
+			case 'printer.emergency_stop':
+				this.shutdown('Shutdown due to webhooks request');
+				return 'ok';
+			case 'printer.firmware_restart':
+			case 'printer.restart':
+				this.restart();
+				return 'ok';
+			default:
+				throw new RpcError(`Method not found: ${method}`, -32601);
+		}
+	}
+
+	private async runScript(script: string) {
+		for (const line of script.split('\n').map((l) => l.replace(/;.*$/, '').trim()).filter(Boolean)) {
+			const [command, ...args] = line.split(/\s+/);
+			const upper = command.toUpperCase();
+			if (upper === 'FIRMWARE_RESTART' || upper === 'RESTART') {
+				this.restart();
+				continue;
+			}
+			this.assertKlippy();
+			const param = (name: string) => {
+				const arg = args.find((a) => a.toUpperCase().startsWith(`${name}=`) || (/^[GM]\d+$/.test(upper) && a.toUpperCase().startsWith(name)));
+				if (!arg) return undefined;
+				const value = parseFloat(arg.slice(arg.indexOf('=') + 1 || name.length));
+				return isNaN(value) ? undefined : value;
+			};
+			switch (upper) {
+				case 'M104':
+				case 'M109':
+					this.status.extruder.target = param('S') ?? 0;
+					break;
+				case 'M140':
+				case 'M190':
+					this.status.heater_bed.target = param('S') ?? 0;
+					break;
+				case 'SET_HEATER_TEMPERATURE': {
+					const heater = args.find((a) => /^HEATER=/i.test(a))?.split('=')[1];
+					const name = heater === 'extruder' || heater === 'heater_bed' ? heater : `heater_generic ${heater}`;
+					if (!this.status[name]) throw new RpcError(`Unknown heater "${heater}"`);
+					this.status[name].target = param('TARGET') ?? 0;
+					break;
+				}
+				case 'M105':
+					this.respond(`ok B:${this.status.heater_bed.temperature.toFixed(1)} /${this.status.heater_bed.target.toFixed(1)} T0:${this.status.extruder.temperature.toFixed(1)} /${this.status.extruder.target.toFixed(1)}`);
+					break;
+				case 'M115':
+					this.respond(`FIRMWARE_NAME:Klipper FIRMWARE_VERSION:${SOFTWARE_VERSION}`);
+					break;
+				case 'G28':
+					this.status.toolhead.position = [0, 0, 0, this.status.toolhead.position[3]];
+					this.status.toolhead.homed_axes = 'xyz';
+					break;
+				case 'G0':
+				case 'G1': {
+					const axes = ['X', 'Y', 'Z', 'E'];
+					this.status.toolhead.position = this.status.toolhead.position.map((value: number, i: number) => param(axes[i]) ?? value);
+					break;
+				}
+				case 'PAUSE':
+					if (this.status.print_stats.state !== 'printing') throw new RpcError('Print is not in progress');
+					this.status.print_stats.state = 'paused';
+					this.respond('// action:paused');
+					break;
+				case 'RESUME':
+					if (this.status.print_stats.state !== 'paused') throw new RpcError('Print is not paused, resume aborted');
+					this.status.print_stats.state = 'printing';
+					this.respond('// action:resumed');
+					break;
+				case 'CANCEL_PRINT':
+					if (!['printing', 'paused'].includes(this.status.print_stats.state)) throw new RpcError('Print is not in progress');
+					this.status.print_stats.state = 'cancelled';
+					this.status.virtual_sdcard.is_active = false;
+					this.status.extruder.target = 0;
+					this.status.heater_bed.target = 0;
+					break;
+				case 'M112':
+					this.shutdown('Shutdown due to M112 command');
+					break;
+				default:
+					if (!/^[GMT]\d+$/.test(upper)) throw new RpcError(`Unknown command:"${upper}"`);
+			}
+		}
+		return 'ok';
+	}
+
+	private startPrint(filename: string) {
+		this.assertKlippy();
+		if (['printing', 'paused'].includes(this.status.print_stats.state)) throw new RpcError('Print is already in progress');
+		const file = this.files.get(filename);
+		if (!file) throw new RpcError(`File ${filename} does not exist`);
+		Object.assign(this.status.print_stats, {
+			state: 'printing',
+			filename,
+			message: '',
+			print_duration: 0,
+			info: { current_layer: file.layers ? 0 : null, total_layer: file.layers || null },
+		});
+		Object.assign(this.status.virtual_sdcard, { progress: 0, file_position: 0, is_active: true });
+		return 'ok';
+	}
+
+	private shutdown(message: string) {
+		this.klippy = 'shutdown';
+		this.status.webhooks = { state: 'shutdown', state_message: message };
+		if (['printing', 'paused'].includes(this.status.print_stats.state)) {
+			this.status.print_stats.state = 'error';
+			this.status.print_stats.message = message;
+		}
+		this.status.virtual_sdcard.is_active = false;
+		for (const heater of Object.keys(HEAT_TAU)) this.status[heater].target = 0;
+		this.notify('notify_klippy_shutdown');
+	}
+
+	// Klipper restarts: clients see it disconnect and become ready again a moment later
+	private restart() {
+		this.klippy = 'startup';
+		this.status.webhooks = { state: 'startup', state_message: 'Printer is restarting' };
+		Object.assign(this.status.print_stats, { state: 'standby', filename: '', message: '', info: { current_layer: null, total_layer: null } });
+		Object.assign(this.status.virtual_sdcard, { progress: 0, file_position: 0, is_active: false });
+		this.status.toolhead.homed_axes = '';
+		this.notify('notify_klippy_disconnected');
+		this.subscriptions.clear();
+		setTimeout(() => {
+			this.klippy = 'ready';
+			this.status.webhooks = { state: 'ready', state_message: 'Printer is ready' };
+			this.notify('notify_klippy_ready');
+		}, 1000);
+	}
+
+	private tick() {
+		const dt = (TICK_MS / 1000) * this.timeScale;
+		const changed: Status = {};
+		for (const heater of Object.keys(HEAT_TAU)) {
+			const state = this.status[heater];
+			const goal = state.target > 0 ? state.target : AMBIENT;
+			const tau = goal > state.temperature ? HEAT_TAU[heater] : COOL_TAU[heater];
+			state.temperature = Math.round((state.temperature + (goal - state.temperature) * (1 - Math.exp(-dt / tau))) * 100) / 100;
+			changed[heater] = { temperature: state.temperature, target: state.target };
+		}
+
+		const stats = this.status.print_stats;
+		if (stats.state === 'printing') {
+			const file = this.files.get(stats.filename);
+			const sdcard = this.status.virtual_sdcard;
+			sdcard.progress = Math.min(1, sdcard.progress + TICK_MS / 1000 / this.printSeconds);
+			sdcard.file_position = Math.round((file?.size ?? 0) * sdcard.progress);
+			stats.print_duration += TICK_MS / 1000;
+			if (stats.info.total_layer) stats.info = { ...stats.info, current_layer: Math.ceil(sdcard.progress * stats.info.total_layer) };
+			this.status.toolhead.position = [...this.status.toolhead.position.slice(0, 2), Math.round(sdcard.progress * 2000) / 100, this.status.toolhead.position[3]];
+			if (sdcard.progress >= 1) {
+				stats.state = 'complete';
+				sdcard.is_active = false;
+			}
+			changed.print_stats = { ...stats };
+			changed.virtual_sdcard = { ...sdcard };
+			changed.toolhead = { position: this.status.toolhead.position };
+		} else {
+			// State changes from scripts (pause, cancel, shutdown) go out on the next tick
+			changed.print_stats = { ...stats };
+			changed.virtual_sdcard = { ...this.status.virtual_sdcard };
+			changed.toolhead = { ...this.status.toolhead };
+		}
+
+		for (const [ws, objects] of this.subscriptions) {
+			const status = this.pick(objects, changed);
+			if (Object.keys(status).length === 0 || ws.readyState !== WebSocket.OPEN) continue;
+			ws.send(JSON.stringify({ jsonrpc: '2.0', method: 'notify_status_update', params: [status, this.eventtime()] }));
+		}
+	}
+
+	// The requested fields of the subscribed objects, all fields when the list is null
+	private pick(objects: Record<string, string[] | null>, source: Status = this.status): Status {
+		const result: Status = {};
+		for (const [name, fields] of Object.entries(objects)) {
+			const status = source[name];
+			if (!status) continue;
+			result[name] = fields ? Object.fromEntries(fields.filter((f) => f in status).map((f) => [f, status[f]])) : { ...status };
+		}
+		return result;
+	}
+
+	private respond(line: string) {
+		this.notify('notify_gcode_response', [line]);
+	}
+
+	private notify(method: string, params?: any[]) {
+		const message = JSON.stringify({ jsonrpc: '2.0', method, ...(params ? { params } : {}) });
+		for (const ws of this.wss.clients) {
+			if (ws.readyState === WebSocket.OPEN) ws.send(message);
+		}
+	}
+
+	// Objects can still be queried while shut down; G-code and prints need a ready Klipper
+	private assertKlippy(allowShutdown = false) {
+		if (this.klippy === 'ready' || (allowShutdown && this.klippy === 'shutdown')) return;
+		throw new RpcError(`Klippy is not ready (${this.klippy})`, 503);
+	}
+
+	private eventtime() {
+		return process.uptime();
+	}
+}
+
+if (require.main === module) {
+	const stub = new MoonrakerStub({
+		port: parseInt(process.env.MOONRAKER_STUB_PORT || '7125'),
+		timeScale: parseFloat(process.env.VIRTUAL_PRINTER_TIME_SCALE || '10'),
+	});
+	stub.start().then((port) => console.log(`Moonraker stub listening on http://localhost:${port}`));
+}
+
+export default MoonrakerStub;
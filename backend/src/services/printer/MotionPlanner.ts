@@ -0,0 +1,250 @@
+/**
+ * Trapezoidal motion planning for print time estimates, modelled on Marlin's planner: every
+ * move accelerates from its entry speed up to its feedrate and decelerates into the next one,
+ * with corner speeds bounded by junction deviation (or classic jerk) and a short lookahead.
+ *
+ * Limits come from the printer's `M503` report:
+ *
+ *   echo: M203 X500.00 Y500.00 Z5.00 E25.00
+ *   echo: M201 X500.00 Y500.00 Z100.00 E5000.00
+ *   echo: M204 P500.00 R500.00 T1000.00
+ *   echo: M205 B20000.00 S0.00 T0.00 J0.08
+ */
+
+export type AxisLimits = { x: number; y: number; z: number; e: number };
+
+export type MachineLimits = {
+	maxFeedrate: AxisLimits; // mm/s, M203
+	maxAcceleration: AxisLimits; // mm/s², M201
+	printAcceleration: number; // mm/s², M204 P (S on older firmware)
+	retractAcceleration: number; // mm/s², M204 R
+	travelAcceleration: number; // mm/s², M204 T
+	jerk: AxisLimits; // mm/s, M205 X/Y/Z/E (classic jerk)
+	junctionDeviation?: number; // mm, M205 J; replaces the X/Y/Z jerk when set
+	minFeedrate: number; // mm/s, M205 S
+	minTravelFeedrate: number; // mm/s, M205 T
+};
+
+// Marlin 2 configuration defaults, used until the printer reports its own
+export const DEFAULT_MACHINE_LIMITS: MachineLimits = {
+	maxFeedrate: { x: 300, y: 300, z: 5, e: 25 },
+	maxAcceleration: { x: 3000, y: 3000, z: 100, e: 10000 },
+	printAcceleration: 3000,
+	retractAcceleration: 3000,
+	travelAcceleration: 3000,
+	jerk: { x: 10, y: 10, z: 0.3, e: 5 },
+	junctionDeviation: 0.013,
+	minFeedrate: 0,
+	minTravelFeedrate: 0,
+};
+
+// Moves planned ahead before the oldest one is committed; Marlin's BLOCK_BUFFER_SIZE
+const LOOKAHEAD = 16;
+const MIN_PLANNER_SPEED = 0.05; // mm/s
+const AXES = ['x', 'y', 'z', 'e'] as const;
+
+function cloneLimits(limits: MachineLimits): MachineLimits {
+	return {
+		...limits,
+		maxFeedrate: { ...limits.maxFeedrate },
+		maxAcceleration: { ...limits.maxAcceleration },
+		jerk: { ...limits.jerk },
+	};
+}
+
+/**
+ * Applies one M201/M203/M204/M205 command to `limits`, as the firmware would. Returns false
+ * for any other command.
+ */
+export function applyLimitCommand(limits: MachineLimits, command: string, words: Record<string, number>): boolean {
+	const axes = (target: AxisLimits) => {
+		for (const axis of AXES) {
+			const value = words[axis.toUpperCase()];
+			if (value !== undefined && value > 0) target[axis] = value;
+		}
+	};
+	switch (command) {
+		case 'M201':
+			axes(limits.maxAcceleration);
+			return true;
+		case 'M203':
+			axes(limits.maxFeedrate);
+			return true;
+		case 'M204':
+			if (words.S > 0) limits.printAcceleration = limits.travelAcceleration = words.S;
+			if (words.P > 0) limits.printAcceleration = words.P;
+			if (words.R > 0) limits.retractAcceleration = words.R;
+			if (words.T > 0) limits.travelAcceleration = words.T;
+			return true;
+		case 'M205':
+			if (words.S !== undefined) limits.minFeedrate = words.S;
+			if (words.T !== undefined) limits.minTravelFeedrate = words.T;
+			if (words.J !== undefined) limits.junctionDeviation = words.J > 0 ? words.J : undefined;
+			for (const axis of AXES) {
+				const value = words[axis.toUpperCase()];
+				if (value !== undefined) limits.jerk[axis] = value;
+			}
+			// Firmware that reports jerk but no J plans with classic jerk
+			if (words.J === undefined && (words.X !== undefined || words.Y !== undefined)) limits.junctionDeviation = undefined;
+			return true;
+		default:
+			return false;
+	}
+}
+
+// Motion limits from an M503 report, or null when it has none (Klipper, unknown firmware)
+export function parseMachineLimits(lines: string[]): MachineLimits | null {
+	const limits = cloneLimits(DEFAULT_MACHINE_LIMITS);
+	let found = false;
+	for (const raw of lines) {
+		const match = raw.replace(/^echo:\s*/i, '').trim().match(/^(M20[1345])\s+(.*)$/i);
+		if (!match) continue;
+		const words: Record<string, number> = {};
+		for (const word of match[2].matchAll(/([A-Z])\s*([-+]?[\d.]+)/gi)) words[word[1].toUpperCase()] = parseFloat(word[2]);
+		found = applyLimitCommand(limits, match[1].toUpperCase(), words) || found;
+	}
+	return found ? limits : null;
+}
+
+type Block<T> = {
+	length: number; // mm
+	nominal: number; // mm/s
+	acceleration: number; // mm/s²
+	maxEntry: number; // mm/s, bounded by the corner into this move
+	entry: number;
+	unit: AxisLimits;
+	tag: T;
+};
+
+/**
+ * Plans moves and reports each one's duration through `onBlock` once it can no longer change,
+ * i.e. when it leaves the lookahead window or the planner is flushed. `tag` travels with the
+ * move so callers can attribute its time (to a layer, a file offset).
+ */
+export class MotionPlanner<T> {
+	private limits: MachineLimits;
+	private blocks: Block<T>[] = [];
+	// The newest move, kept after its block is committed to bound the next corner
+	private previous: Block<T> | null = null;
+
+	constructor(limits: MachineLimits, private onBlock: (seconds: number, tag: T) => void) {
+		this.limits = cloneLimits(limits);
+	}
+
+	get machineLimits(): MachineLimits {
+		return this.limits;
+	}
+
+	/**
+	 * Moves by the given deltas (mm) at `feedrate` (mm/s). Arcs pass their `path` length; the
+	 * chord then only gives the direction.
+	 */
+	move(dx: number, dy: number, dz: number, de: number, feedrate: number, tag: T, path?: number) {
+		const limits = this.limits;
+		const chord = Math.hypot(dx, dy, dz);
+		const cartesian = path ?? chord;
+		const length = cartesian > 1e-6 ? cartesian : Math.abs(de);
+		if (length < 1e-6) return;
+		const unit = chord > 1e-6
+			? { x: dx / chord, y: dy / chord, z: dz / chord, e: de / length }
+			: cartesian > 1e-6
+				? { x: 0, y: 0, z: 0, e: de / length } // full circle
+				: { x: 0, y: 0, z: 0, e: Math.sign(de) };
+
+		const extruding = de > 0 && cartesian > 1e-6;
+		let nominal = Math.max(feedrate, extruding ? limits.minFeedrate : limits.minTravelFeedrate);
+		let acceleration = cartesian <= 1e-6
+			? limits.retractAcceleration
+			: extruding ? limits.printAcceleration : limits.travelAcceleration;
+		for (const axis of AXES) {
+			const share = Math.abs(unit[axis]);
+			if (share < 1e-9) continue;
+			nominal = Math.min(nominal, limits.maxFeedrate[axis] / share);
+			acceleration = Math.min(acceleration, limits.maxAcceleration[axis] / share);
+		}
+		if (!(nominal > 0) || !(acceleration > 0)) return;
+
+		const block: Block<T> = { length, nominal, acceleration, maxEntry: 0, entry: 0, unit, tag };
+		block.maxEntry = this.previous ? this.junctionSpeed(this.previous, block) : 0;
+		this.blocks.push(block);
+		this.previous = block;
+		if (this.blocks.length > LOOKAHEAD) {
+			this.recalculate();
+			this.commit(1);
+		}
+	}
+
+	// Time that passes with the planner idle (G4, heating); earlier moves finish first
+	wait(seconds: number, tag: T) {
+		this.flush();
+		if (seconds > 0) this.onBlock(seconds, tag);
+	}
+
+	// Runs out every queued move, ending at a standstill
+	flush() {
+		this.recalculate();
+		this.commit(this.blocks.length);
+		this.previous = null;
+	}
+
+	setLimits(command: string, words: Record<string, number>) {
+		return applyLimitCommand(this.limits, command, words);
+	}
+
+	private junctionSpeed(previous: Block<T>, block: Block<T>): number {
+		const limit = Math.min(previous.nominal, block.nominal);
+		const jd = this.limits.junctionDeviation;
+		if (jd !== undefined) {
+			const [a, b] = [previous.unit, block.unit];
+			// Corners are taken in XYZ; E only counts between two extruder-only moves (retract, then prime)
+			const extruderOnly = !(a.x || a.y || a.z || b.x || b.y || b.z);
+			const cos = -(a.x * b.x + a.y * b.y + a.z * b.z + (extruderOnly ? a.e * b.e : 0));
+			if (cos > 0.999999) return MIN_PLANNER_SPEED; // full reversal
+			if (cos < -0.999999) return limit; // straight on
+			const sinHalf = Math.sqrt(0.5 * (1 - cos));
+			return Math.min(limit, Math.max(MIN_PLANNER_SPEED, Math.sqrt((block.acceleration * jd * sinHalf) / (1 - sinHalf))));
+		}
+		// Classic jerk: the speed at which no axis changes velocity by more than its jerk
+		let speed = limit;
+		for (const axis of AXES) {
+			const change = Math.abs(previous.unit[axis] - block.unit[axis]);
+			if (change > 1e-9) speed = Math.min(speed, this.limits.jerk[axis] / change);
+		}
+		return Math.max(MIN_PLANNER_SPEED, speed);
+	}
+
+	// Backward pass (every move can still stop by the end of the queue), then forward pass (reachable speeds)
+	private recalculate() {
+		const blocks = this.blocks;
+		let exit = 0;
+		for (let i = blocks.length - 1; i > 0; i--) {
+			const block = blocks[i];
+			block.entry = Math.min(block.maxEntry, Math.sqrt(exit * exit + 2 * block.acceleration * block.length));
+			exit = block.entry;
+		}
+		// The oldest move's entry was fixed when the move before it was committed
+		for (let i = 0; i < blocks.length - 1; i++) {
+			const block = blocks[i];
+			const reachable = Math.sqrt(block.entry * block.entry + 2 * block.acceleration * block.length);
+			if (blocks[i + 1].entry > reachable) blocks[i + 1].entry = reachable;
+		}
+	}
+
+	private commit(count: number) {
+		for (let i = 0; i < count; i++) {
+			const block = this.blocks.shift()!;
+			this.onBlock(trapezoidTime(block, this.blocks[0]?.entry ?? 0), block.tag);
+		}
+	}
+}
+
+function trapezoidTime({ length, nominal, acceleration: a, entry }: Block<unknown>, exit: number): number {
+	const accelerating = (nominal * nominal - entry * entry) / (2 * a);
+	const decelerating = (nominal * nominal - exit * exit) / (2 * a);
+	if (accelerating + decelerating <= length) {
+		return (nominal - entry) / a + (nominal - exit) / a + (length - accelerating - decelerating) / nominal;
+	}
+	// Never reaches the feedrate: accelerate to a peak, then straight into deceleration
+	const peak = Math.sqrt(Math.max(0, (2 * a * length + entry * entry + exit * exit) / 2));
+	return Math.max(0, (peak - entry) / a) + Math.max(0, (peak - exit) / a);
+}
@@ -0,0 +1,115 @@
+import { promises as fs } from 'fs';
+import { SerialPort } from 'serialport';
+import { ReadlineParser } from '@serialport/parser-readline';
+import VirtualPrinter from './VirtualPrinter';
+import { VIRTUAL_PORT } from './SerialManager';
+import { FirmwareInfo, parseFirmwareReport } from './FirmwareInfo';
+
+export type PortCandidate = {
+	path: string;
+	manufacturer?: string;
+	vendorId?: string;
+	productId?: string;
+	serialNumber?: string;
+	virtual?: boolean;
+};
+
+export type ProbeResult = {
+	path: string;
+	baudRate: number | null; // null when no baud rate produced a firmware report
+	firmware: FirmwareInfo | null;
+	error?: string;
+};
+
+// Most common first; 250000 is the Marlin default on many 8-bit boards
+export const COMMON_BAUD_RATES = [115200, 250000, 230400, 57600, 500000, 38400, 19200, 9600];
+
+// Opening a port resets most boards; the bootloader needs a moment before the firmware answers
+const PROBE_TIMEOUT_MS = 4000;
+const PROBE_RETRY_MS = 1000;
+
+type ProbePort = SerialPort | VirtualPrinter;
+
+// USB CDC and FTDI/CH340 adapters, the usual ways printer boards show up
+const SERIAL_DEVICE = /^tty(ACM|USB|AMA|XRUSB)\d+$/;
+
+export async function listPorts(): Promise<PortCandidate[]> {
+	let candidates: PortCandidate[];
+	try {
+		const ports = await SerialPort.list();
+		candidates = ports.map((port) => ({
+			path: port.path,
+			manufacturer: port.manufacturer,
+			vendorId: port.vendorId,
+			productId: port.productId,
+			serialNumber: port.serialNumber,
+		}));
+	} catch {
+		// Listing needs udevadm on Linux, which minimal containers lack; fall back to device names
+		candidates = await listDeviceNodes();
+	}
+	candidates.push({ path: VIRTUAL_PORT, manufacturer: 'LezerPrint', virtual: true });
+	return candidates;
+}
+
+async function listDeviceNodes(): Promise<PortCandidate[]> {
+	const entries = await fs.readdir('/dev').catch(() => [] as string[]);
+	return entries.filter((name) => SERIAL_DEVICE.test(name)).map((name) => ({ path: `/dev/${name}` }));
+}
+
+/**
+ * Tries each baud rate in turn and returns the first one at which the port answers
+ * `M115` with a firmware report. The port is closed again before returning.
+ */
+export async function probePort(path: string, baudRates: number[] = COMMON_BAUD_RATES): Promise<ProbeResult> {
+	let lastError: string | undefined;
+	for (const baudRate of path === VIRTUAL_PORT ? [baudRates[0] ?? 115200] : baudRates) {
+		try {
+			const firmware = await probeAt(path, baudRate);
+			if (firmware) return { path, baudRate, firmware };
+		} catch (e: any) {
+			lastError = e?.message || String(e);
+			// A port that cannot be opened will not open at another baud rate either
+			if (/cannot open|no such file|access denied|permission denied|busy/i.test(lastError!)) break;
+		}
+	}
+	return { path, baudRate: null, firmware: null, error: lastError ?? 'No firmware response at any baud rate' };
+}
+
+function probeAt(path: string, baudRate: number): Promise<FirmwareInfo | null> {
+	const port: ProbePort = path === VIRTUAL_PORT ? new VirtualPrinter() : new SerialPort({ path, baudRate, autoOpen: false });
+	const parser = port.pipe(new ReadlineParser({ delimiter: '\n' }));
+	const lines: string[] = [];
+
+	return new Promise((resolve, reject) => {
+		let retry: NodeJS.Timeout | undefined;
+		let timeout: NodeJS.Timeout | undefined;
+
+		const finish = (result: FirmwareInfo | null, error?: Error) => {
+			clearInterval(retry);
+			clearTimeout(timeout);
+			parser.removeAllListeners('data');
+			const done = () => (error ? reject(error) : resolve(result));
+			if (port.isOpen) port.close(() => done());
+			else done();
+		};
+
+		parser.on('data', (line: string) => {
+			lines.push(line.trim());
+			// The report ends with the ok that follows the last Cap: line
+			if (/^ok\b/i.test(line.trim())) {
+				const firmware = parseFirmwareReport(lines);
+				if (firmware) finish(firmware);
+			}
+		});
+		port.on('error', (error: Error) => finish(null, error));
+
+		port.open((err?: Error | null) => {
+			if (err) return finish(null, err);
+			const ask = () => port.write('\nM115\n');
+			ask();
+			retry = setInterval(ask, PROBE_RETRY_MS);
+			timeout = setTimeout(() => finish(parseFirmwareReport(lines)), PROBE_TIMEOUT_MS);
+		});
+	});
+}
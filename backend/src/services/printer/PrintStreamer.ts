@@ -0,0 +1,235 @@
+import { createReadStream, promises as fs } from 'fs';
+import EventEmitter from 'events';
+import type { PrinterDriver } from './PrinterDriver';
+
+export type StreamerState = 'idle' | 'streaming' | 'paused' | 'finished' | 'cancelled' | 'failed';
+
+export type StreamProgress = {
+	progress: number; // 0-100, by bytes acknowledged
+	bytesSent: number;
+	bytesAcked: number;
+	totalBytes: number;
+	linesSent: number;
+	layer: number;
+	totalLayers?: number;
+	z?: number;
+};
+
+export type StreamOptions = {
+	window?: number; // commands kept in flight using ok flow control
+	startOffset?: number; // byte offset to resume from
+	startLayer?: number;
+	totalLayers?: number;
+};
+
+export type SourceLine = { text: string; end: number };
+
+const LAYER_COMMENT = /^;\s*(?:LAYER:\s*(-?\d+)|LAYER_CHANGE\b|layer\s+(\d+))/i;
+
+// Layer number (1-based) started by a slicer layer comment, or null for any other line
+export function detectLayer(raw: string, current: number): number | null {
+	const match = raw.match(LAYER_COMMENT);
+	if (!match) return null;
+	const explicit = match[1] ?? match[2];
+	return explicit !== undefined ? parseInt(explicit, 10) + (match[1] ? 1 : 0) : current + 1;
+}
+
+// Reads a file in chunks and yields lines with the exact byte offset of their end
+export async function* readGCodeLines(filePath: string, start = 0): AsyncGenerator<SourceLine> {
+	let offset = start;
+	let remainder = Buffer.alloc(0);
+	for await (const chunk of createReadStream(filePath, { start })) {
+		let buffer = remainder.length ? Buffer.concat([remainder, chunk as Buffer]) : (chunk as Buffer);
+		let newline: number;
+		while ((newline = buffer.indexOf(0x0a)) !== -1) {
+			offset += newline + 1;
+			yield { text: buffer.subarray(0, newline).toString('utf8'), end: offset };
+			buffer = buffer.subarray(newline + 1);
+		}
+		remainder = Buffer.from(buffer);
+	}
+	if (remainder.length) yield { text: remainder.toString('utf8'), end: offset + remainder.length };
+}
+
+/**
+ * Streams a G-code file from disk to the printer, one command at a time per window slot.
+ * Comments and blank lines never reach the wire; progress is reported by bytes the
+ * firmware has acknowledged so a resumed print can restart from a known offset.
+ */
+export class PrintStreamer extends EventEmitter {
+	private _state: StreamerState = 'idle';
+	private inFlight = 0;
+	private wake: (() => void) | null = null;
+	private window: number;
+	private progress: StreamProgress = { progress: 0, bytesSent: 0, bytesAcked: 0, totalBytes: 0, linesSent: 0, layer: 0 };
+	// byte offset at the end of each in-flight line, oldest first
+	private pendingOffsets: number[] = [];
+	private lastEmit = 0;
+
+	constructor(private driver: PrinterDriver, private options: StreamOptions = {}) {
+		super();
+		this.window = Math.max(1, options.window ?? parseInt(process.env.PRINT_STREAM_WINDOW || '2'));
+	}
+
+	get state() {
+		return this._state;
+	}
+
+	get isActive() {
+		return this._state === 'streaming' || this._state === 'paused';
+	}
+
+	getProgress(): StreamProgress {
+		return { ...this.progress };
+	}
+
+	async start(filePath: string): Promise<void> {
+		if (this._state !== 'idle') throw new Error('Streamer already used');
+		const { size } = await fs.stat(filePath);
+		const startOffset = this.options.startOffset ?? 0;
+		this.progress = {
+			...this.progress,
+			totalBytes: size,
+			bytesSent: startOffset,
+			bytesAcked: startOffset,
+			layer: this.options.startLayer ?? 0,
+			totalLayers: this.options.totalLayers,
+		};
+		this._state = 'streaming';
+		this.driver.setMaxInFlight(this.window);
+		this.emit('started', this.getProgress());
+
+		try {
+			for await (const line of readGCodeLines(filePath, startOffset)) {
+				if (!this.isActive) break;
+				const command = this.trackLine(line);
+				if (!command) {
+					this.progress.bytesSent = line.end;
+					if (this.inFlight === 0) this.acknowledge(line.end);
+					continue;
+				}
+				await this.waitForSlot();
+				if (!this.isActive) break;
+				this.send(command, line.end);
+			}
+			await this.drain();
+			// a pause that lands on the last line still has to be resumed before finishing
+			while (this.state === 'paused') await this.waitForSlot();
+			if (this._state === 'streaming') {
+				this._state = 'finished';
+				this.emitProgress(true);
+				this.emit('finished', this.getProgress());
+			}
+		} catch (error) {
+			if (this.isActive) this.fail(error);
+		}
+	}
+
+	pause() {
+		if (this._state !== 'streaming') return;
+		this._state = 'paused';
+		this.emit('paused', this.getProgress());
+	}
+
+	resume() {
+		if (this._state !== 'paused') return;
+		this._state = 'streaming';
+		this.emit('resumed', this.getProgress());
+		this.notify();
+	}
+
+	cancel() {
+		if (!this.isActive) return;
+		this._state = 'cancelled';
+		this.notify();
+		this.emit('cancelled', this.getProgress());
+	}
+
+	private fail(error: unknown) {
+		this._state = 'failed';
+		this.notify();
+		this.emit('failed', error instanceof Error ? error : new Error(String(error)), this.getProgress());
+	}
+
+	private send(command: string, end: number) {
+		this.inFlight++;
+		this.pendingOffsets.push(end);
+		this.progress.bytesSent = end;
+		this.progress.linesSent++;
+		this.driver
+			.sendCommand(command, false, 0)
+			.then(() => {
+				this.inFlight--;
+				this.acknowledge(this.pendingOffsets.shift() ?? end);
+				this.notify();
+			})
+			.catch((error) => {
+				this.inFlight--;
+				this.pendingOffsets.shift();
+				if (this.isActive) this.fail(error);
+				else this.notify();
+			});
+	}
+
+	private acknowledge(offset: number) {
+		this.progress.bytesAcked = Math.max(this.progress.bytesAcked, offset);
+		this.progress.progress = this.progress.totalBytes
+			? Math.min(100, (this.progress.bytesAcked / this.progress.totalBytes) * 100)
+			: 0;
+		this.emitProgress();
+	}
+
+	private emitProgress(force = false) {
+		const now = Date.now();
+		if (!force && now - this.lastEmit < 1000) return;
+		this.lastEmit = now;
+		this.emit('progress', this.getProgress());
+	}
+
+	// Returns the command to send for a source line, or null for comments and blank lines
+	private trackLine(line: SourceLine): string | null {
+		const raw = line.text.trim();
+		const layer = detectLayer(raw, this.progress.layer);
+		if (layer !== null) {
+			this.progress.layer = layer;
+			this.emit('layer', this.progress.layer);
+		}
+
+		const command = raw.replace(/;.*$/, '').trim();
+		if (!command) return null;
+
+		if (/^G[01]\b/i.test(command)) {
+			const z = command.match(/\bZ(-?[\d.]+)/i);
+			if (z) this.progress.z = parseFloat(z[1]);
+		}
+		return command;
+	}
+
+	private waitForSlot(): Promise<void> {
+		if (this._state === 'streaming' && this.inFlight < this.window) return Promise.resolve();
+		return new Promise((resolve) => {
+			this.wake = () => {
+				if (this.isActive && (this._state === 'paused' || this.inFlight >= this.window)) return;
+				this.wake = null;
+				resolve();
+			};
+		});
+	}
+
+	private drain(): Promise<void> {
+		if (this.inFlight === 0) return Promise.resolve();
+		return new Promise((resolve) => {
+			this.wake = () => {
+				if (this.inFlight > 0 && this.isActive) return;
+				this.wake = null;
+				resolve();
+			};
+		});
+	}
+
+	private notify() {
+		this.wake?.();
+	}
+}
+
+export default PrintStreamer;
@@ -0,0 +1,108 @@
+import { prisma } from '../../lib/prisma';
+import type { TimelinePoint } from './GCodeParser';
+
+// Completed jobs that calibrate a printer's estimates, newest first
+const CALIBRATION_JOBS = 20;
+const MIN_CALIBRATION_JOBS = 3;
+// Ratios outside this range are prints that sat paused or failed to record their times
+const RATIO_RANGE: [number, number] = [0.5, 3];
+// Planned seconds of printing after which the pace of the print itself replaces the calibration
+const PACE_TRUST_SECONDS = 1800;
+// Before this, the observed pace is mostly heating and homing
+const MIN_PACE_SECONDS = 60;
+
+/**
+ * Correction factor for a printer's planned times: the median of actual over estimated time
+ * across its recent completed jobs, 1 until enough of them are known.
+ */
+export async function timeCalibration(printerId: string): Promise<number> {
+	const jobs = await prisma.printJob.findMany({
+		where: { printerId, status: 'COMPLETED', estimatedTime: { gt: 0 }, actualTime: { gt: 0 } },
+		orderBy: { completedAt: 'desc' },
+		take: CALIBRATION_JOBS,
+		select: { estimatedTime: true, actualTime: true },
+	});
+	const ratios = jobs
+		.map((job) => job.actualTime! / job.estimatedTime!)
+		.filter((ratio) => ratio >= RATIO_RANGE[0] && ratio <= RATIO_RANGE[1])
+		.sort((a, b) => a - b);
+	if (ratios.length < MIN_CALIBRATION_JOBS) return 1;
+	const middle = Math.floor(ratios.length / 2);
+	return ratios.length % 2 ? ratios[middle] : (ratios[middle - 1] + ratios[middle]) / 2;
+}
+
+/**
+ * Live ETA for one print. The planned timeline maps file offsets to seconds; the remainder
+ * is scaled by the printer's calibration at first and, as the print goes on, by how fast
+ * this print has actually been running compared to plan. Paused time does not count.
+ */
+export class PrintTimeEstimate {
+	private pausedAt: number | null = null;
+	private pausedMs = 0;
+	private readonly base: number;
+
+	constructor(
+		private readonly timeline: TimelinePoint[],
+		readonly plannedTime: number, // seconds for the whole file, uncalibrated
+		private readonly calibration: number,
+		startOffset = 0, // where a resumed print picks up
+		private readonly startedAt = Date.now(),
+	) {
+		this.base = this.timeAt(startOffset);
+	}
+
+	// Bytes in the file the timeline was planned from
+	get size() {
+		return this.timeline[this.timeline.length - 1]?.[0] ?? 0;
+	}
+
+	pause() {
+		this.pausedAt ??= Date.now();
+	}
+
+	resume() {
+		if (this.pausedAt === null) return;
+		this.pausedMs += Date.now() - this.pausedAt;
+		this.pausedAt = null;
+	}
+
+	// Remaining and total seconds once the printer has acknowledged `offset` bytes
+	at(offset: number): { estimatedTime: number; remainingTime: number } {
+		const reached = this.timeAt(offset);
+		const planned = reached - this.base;
+		const elapsed = ((this.pausedAt ?? Date.now()) - this.startedAt - this.pausedMs) / 1000;
+
+		let pace = this.calibration;
+		if (planned >= MIN_PACE_SECONDS && elapsed > 0) {
+			const observed = Math.min(RATIO_RANGE[1], Math.max(RATIO_RANGE[0], elapsed / planned));
+			const trust = Math.min(1, planned / PACE_TRUST_SECONDS);
+			pace = pace * (1 - trust) + observed * trust;
+		}
+		const remainingTime = Math.max(0, Math.round((this.plannedTime - reached) * pace));
+		return { estimatedTime: Math.round(elapsed) + remainingTime, remainingTime };
+	}
+
+	// For hosts that report progress as a percentage of the file
+	atProgress(progress: number) {
+		return this.at((this.size * progress) / 100);
+	}
+
+	// Planned seconds at a byte offset, interpolated between timeline samples
+	private timeAt(offset: number): number {
+		const timeline = this.timeline;
+		if (!timeline.length || offset <= timeline[0][0]) return 0;
+		let low = 0;
+		let high = timeline.length - 1;
+		if (offset >= timeline[high][0]) return timeline[high][1];
+		while (high - low > 1) {
+			const middle = (low + high) >> 1;
+			if (timeline[middle][0] <= offset) low = middle;
+			else high = middle;
+		}
+		const [o0, t0] = timeline[low];
+		const [o1, t1] = timeline[high];
+		return t0 + ((t1 - t0) * (offset - o0)) / (o1 - o0);
+	}
+}
+
+export default PrintTimeEstimate;
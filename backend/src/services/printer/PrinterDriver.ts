@@ -0,0 +1,58 @@
+import type EventEmitter from 'events';
+import type { FirmwareInfo } from './FirmwareInfo';
+
+export type PrinterDriverKind = 'serial' | 'moonraker';
+
+export type DriverConnection = {
+	path: string; // serial device, "virtual" or the Moonraker URL
+	baudRate: number | null; // null for network drivers
+};
+
+export type RemotePrintState = 'standby' | 'printing' | 'paused' | 'complete' | 'cancelled' | 'error';
+
+// A print the printer host runs from its own storage, as reported by the host
+export type RemotePrintStatus = {
+	state: RemotePrintState;
+	filename: string | null;
+	progress: number; // 0-100
+	layer?: number;
+	totalLayers?: number;
+	message?: string;
+};
+
+/**
+ * Drivers whose host prints files itself (Klipper through Moonraker) instead of LezerPrint
+ * streaming them line by line. Progress arrives as 'print-status' events.
+ */
+export interface RemotePrintHost {
+	upload(localPath: string, name: string): Promise<string>;
+	start(name: string): Promise<void>;
+	pause(): Promise<void>;
+	resume(): Promise<void>;
+	cancel(): Promise<void>;
+}
+
+/**
+ * Transport to one printer. Events: 'connected', 'disconnected', 'temperature'
+ * (TemperatureData), 'position', 'printer-error' ({ message }), 'response' ({ type: 'raw',
+ * line } for unsolicited output), 'action' (HostAction) and, with a remote print host,
+ * 'print-status' (RemotePrintStatus). 'error' (Error) reports a transport failure and
+ * must have a listener.
+ */
+export interface PrinterDriver extends EventEmitter {
+	readonly kind: PrinterDriverKind;
+	readonly isConnected: boolean;
+	readonly connection: DriverConnection | null;
+	readonly firmware: FirmwareInfo | null;
+	// Temperatures and position are pushed without polling or M155/M154
+	readonly reportsStatus: boolean;
+	readonly remote: RemotePrintHost | null;
+
+	connect(path: string, baudRate?: number): Promise<void>;
+	disconnect(): Promise<void>;
+	sendCommand(gcode: string, priority?: boolean, timeoutMs?: number): Promise<any>;
+	sendEmergency(gcode: string, timeoutMs?: number): Promise<any>;
+	emergencyStop(): Promise<void>;
+	clearQueue(reason?: string): void;
+	setMaxInFlight(count: number): void;
+}
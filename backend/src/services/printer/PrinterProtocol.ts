@@ -0,0 +1,90 @@
+/**
+ * Marlin host protocol framing.
+ *
+ * Every line sent to the firmware is wrapped as `N<line> <gcode>*<checksum>` so a
+ * corrupted byte on the wire is detected by the printer, which then replies with
+ * `Resend: <line>` (or `rs <line>` on Repetier-style firmware) and expects the host
+ * to retransmit everything from that line onwards.
+ */
+
+export type FramedLine = { line: number; data: string };
+
+// Firmware errors that are always followed by a resend request rather than a halt
+const RECOVERABLE_ERRORS = [
+	/checksum mismatch/i,
+	/line number is not last line number\+1/i,
+	/no checksum with line number/i,
+	/no line number with checksum/i,
+	/format error/i,
+];
+
+export class PrinterProtocol {
+	private nextLine = 1;
+	private history = new Map<number, string>();
+
+	constructor(private historySize = 256) {}
+
+	get currentLine() {
+		return this.nextLine - 1;
+	}
+
+	static checksum(payload: string): number {
+		let cs = 0;
+		for (let i = 0; i < payload.length; i++) cs ^= payload.charCodeAt(i);
+		return cs & 0xff;
+	}
+
+	// Strips comments and whitespace; `*` would be read as a checksum marker by the firmware
+	static clean(gcode: string): string {
+		return gcode.replace(/;.*$/, '').replace(/\*/g, '').trim();
+	}
+
+	static isLineReset(gcode: string): boolean {
+		return /^M110\b/i.test(gcode.trim());
+	}
+
+	frame(gcode: string): FramedLine {
+		const line = this.nextLine++;
+		const payload = `N${line} ${PrinterProtocol.clean(gcode)}`;
+		const data = `${payload}*${PrinterProtocol.checksum(payload)}`;
+		this.history.set(line, data);
+		this.history.delete(line - this.historySize);
+		return { line, data };
+	}
+
+	// Frames `M110 N0` so the firmware and the host both restart numbering at line 1
+	reset(): FramedLine {
+		this.nextLine = 1;
+		this.history.clear();
+		const payload = 'N0 M110 N0';
+		const data = `${payload}*${PrinterProtocol.checksum(payload)}`;
+		this.history.set(0, data);
+		return { line: 0, data };
+	}
+
+	parseResend(response: string): number | null {
+		const m = response.match(/^(?:resend|rs)[:\s]\s*N?:?\s*(\d+)/i);
+		return m ? parseInt(m[1], 10) : null;
+	}
+
+	isRecoverableError(message: string): boolean {
+		return RECOVERABLE_ERRORS.some((re) => re.test(message));
+	}
+
+	/**
+	 * Lines to retransmit for a `Resend: N` request, oldest first. Returns null when the
+	 * requested line has already dropped out of the history window and cannot be replayed.
+	 */
+	linesFrom(line: number): string[] | null {
+		if (line > this.currentLine) return [];
+		const lines: string[] = [];
+		for (let n = line; n <= this.currentLine; n++) {
+			const data = this.history.get(n);
+			if (data === undefined) return null;
+			lines.push(data);
+		}
+		return lines;
+	}
+}
+
+export default PrinterProtocol;
@@ -0,0 +1,197 @@
+import EventEmitter from 'events';
+import { Printer, PrinterDriverType } from '@prisma/client';
+import { prisma } from '../../lib/prisma';
+import PrinterService from './PrinterService';
+import { VIRTUAL_PORT } from './SerialManager';
+
+export type CreatePrinterData = {
+	name: string;
+	driver?: PrinterDriverType;
+	port?: string | null; // serial device, "virtual" or the Moonraker URL
+	baudRate?: number | null;
+	cameraUrl?: string | null;
+};
+
+export type UpdatePrinterData = {
+	name?: string;
+	cameraUrl?: string | null;
+	enabled?: boolean;
+};
+
+// Where the single-printer backend kept its last connection
+const LEGACY_CONNECTION_KEY = 'printer.connection';
+const DEFAULT_PRINTER_NAME = 'Printer';
+
+/**
+ * Owns one PrinterService (and so one printer connection) per enabled Printer row. The
+ * oldest printer is the default: /api/printer and requests without a printer id use it.
+ * Emits 'added' (service, record) before the printer connects, 'updated' (record) and
+ * 'removed' (printer id).
+ */
+export class PrinterRegistry extends EventEmitter {
+	private printers = new Map<string, PrinterService>();
+	private defaultId: string | null = null;
+
+	async init(): Promise<void> {
+		let records = await prisma.printer.findMany({ orderBy: { createdAt: 'asc' } });
+		if (records.length === 0) records = [await this.createDefault()];
+		this.defaultId = records[0].id;
+		await this.adoptUnassigned(records[0].id);
+		for (const record of records) {
+			if (record.enabled) this.attach(record);
+		}
+	}
+
+	get(id: string): PrinterService | undefined {
+		return this.printers.get(id);
+	}
+
+	require(id: string): PrinterService {
+		const printer = this.printers.get(id);
+		if (!printer) throw new Error('Printer not found');
+		return printer;
+	}
+
+	// The printer a job belongs to, falling back to the default for unassigned jobs
+	forJob(job: { printerId: string | null }): PrinterService | undefined {
+		return job.printerId ? this.printers.get(job.printerId) : this.default ?? undefined;
+	}
+
+	// The printer currently streaming this job, if any
+	running(jobId: string): PrinterService | undefined {
+		return this.list().find((printer) => printer.currentJobId === jobId);
+	}
+
+	list(): PrinterService[] {
+		return [...this.printers.values()];
+	}
+
+	get default(): PrinterService | null {
+		if (this.defaultId && this.printers.has(this.defaultId)) return this.printers.get(this.defaultId)!;
+		return this.list()[0] ?? null;
+	}
+
+	async records() {
+		const records = await prisma.printer.findMany({ orderBy: { createdAt: 'asc' } });
+		return records.map((record) => this.describe(record));
+	}
+
+	describe(record: Printer) {
+		const printer = this.printers.get(record.id);
+		const status = printer?.getStatus();
+		return {
+			...record,
+			isDefault: record.id === this.default?.id,
+			connected: status?.connected ?? false,
+			state: status?.state ?? null,
+		};
+	}
+
+	async create(data: CreatePrinterData) {
+		await this.assertNameFree(data.name);
+		if (data.port) this.assertPortFree(data.port);
+		const driver = data.driver ?? 'SERIAL';
+		const record = await prisma.printer.create({
+			data: {
+				name: data.name,
+				driver,
+				port: data.port ?? null,
+				baudRate: data.port && driver === 'SERIAL' ? data.baudRate ?? 115200 : null,
+				cameraUrl: data.cameraUrl ?? null,
+			},
+		});
+		this.defaultId ??= record.id;
+		this.attach(record);
+		return this.describe(record);
+	}
+
+	async update(id: string, data: UpdatePrinterData) {
+		const existing = await prisma.printer.findUnique({ where: { id } });
+		if (!existing) throw new Error('Printer not found');
+		if (data.name && data.name !== existing.name) await this.assertNameFree(data.name);
+		const printer = this.printers.get(id);
+		if (data.enabled === false && printer?.isPrinting) throw new Error('Cannot disable a printer while printing');
+
+		const record = await prisma.printer.update({ where: { id }, data });
+		if (printer && !record.enabled) await this.detach(id);
+		else if (!printer && record.enabled) this.attach(record);
+		else printer?.rename(record.name);
+		this.emit('updated', record);
+		return this.describe(record);
+	}
+
+	/**
+	 * Deletes the printer. Its queued jobs are cancelled; finished jobs keep their history
+	 * with the printer reference cleared.
+	 */
+	async remove(id: string) {
+		const existing = await prisma.printer.findUnique({ where: { id } });
+		if (!existing) throw new Error('Printer not found');
+		if (this.printers.get(id)?.isPrinting) throw new Error('Cannot remove a printer while printing');
+
+		await this.detach(id);
+		await prisma.printJob.updateMany({
+			where: { printerId: id, status: 'QUEUED' },
+			data: { status: 'CANCELLED', queuePosition: null, completedAt: new Date() },
+		});
+		await prisma.printer.delete({ where: { id } });
+		if (this.defaultId === id) {
+			const next = await prisma.printer.findFirst({ orderBy: { createdAt: 'asc' } });
+			this.defaultId = next?.id ?? null;
+		}
+	}
+
+	// Another printer already connected on this port, ignoring the per-printer virtual port
+	portOwner(path: string, exceptId?: string): PrinterService | undefined {
+		if (path === VIRTUAL_PORT) return undefined;
+		return this.list().find((printer) => {
+			if (printer.id === exceptId) return false;
+			const connection = printer.getConnection();
+			return connection.connected && connection.path === path;
+		});
+	}
+
+	private attach(record: Printer) {
+		const printer = new PrinterService(record);
+		this.printers.set(record.id, printer);
+		this.emit('added', printer, record);
+		printer.start();
+	}
+
+	private async detach(id: string) {
+		const printer = this.printers.get(id);
+		if (!printer) return;
+		this.printers.delete(id);
+		await printer.shutdown();
+		this.emit('removed', id);
+		printer.removeAllListeners();
+	}
+
+	private async assertNameFree(name: string) {
+		if (await prisma.printer.findUnique({ where: { name } })) throw new Error('A printer with this name already exists');
+	}
+
+	private assertPortFree(path: string) {
+		const owner = this.portOwner(path);
+		if (owner) throw new Error(`Port ${path} is in use by ${owner.name}`);
+	}
+
+	// First start: carry over the single-printer connection, or PRINTER_PORT/PRINTER_BAUDRATE
+	private async createDefault() {
+		const legacy = await prisma.printerSettings.findFirst({ where: { printerId: null, key: LEGACY_CONNECTION_KEY } });
+		const saved = legacy?.value as { path?: string; baudRate?: number } | undefined;
+		const port = saved?.path ?? process.env.PRINTER_PORT ?? null;
+		const baudRate = saved?.baudRate ?? (port ? parseInt(process.env.PRINTER_BAUDRATE || '115200') : null);
+		return prisma.printer.create({ data: { name: DEFAULT_PRINTER_NAME, port, baudRate } });
+	}
+
+	// Jobs and settings from before multi-printer support belong to the first printer
+	private async adoptUnassigned(printerId: string) {
+		await prisma.printJob.updateMany({ where: { printerId: null }, data: { printerId } });
+		await prisma.printerSettings.deleteMany({ where: { printerId: null, key: LEGACY_CONNECTION_KEY } });
+		await prisma.printerSettings.updateMany({ where: { printerId: null }, data: { printerId } });
+	}
+}
+
+export const printerRegistry = new PrinterRegistry();
+export default PrinterRegistry;
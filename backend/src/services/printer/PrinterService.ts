@@ -1,115 +1,886 @@
+import EventEmitter from 'events';
+import { JobStatus, Printer } from '@prisma/client';
 import SerialManager from './SerialManager';
+import MoonrakerDriver from './MoonrakerDriver';
+import { PrinterDriver, RemotePrintState, RemotePrintStatus } from './PrinterDriver';
+import PrintStreamer, { StreamProgress } from './PrintStreamer';
+import GCodeParser from './GCodeParser';
+import { MachineLimits, parseMachineLimits } from './MotionPlanner';
+import PrintTimeEstimate, { timeCalibration } from './PrintTimeEstimator';
+import ThermalMonitor, { ThermalFault } from './ThermalMonitor';
+import { probePort } from './PortDiscovery';
+import { FirmwareCapabilities, FirmwareFlavor, UNKNOWN_CAPABILITIES } from './FirmwareInfo';
+import { HostAction, HostPrompt, isRunout } from './HostActions';
+import { prisma } from '../../lib/prisma';
+import { jobService } from '../jobs/JobService';
 
 export type TemperatureData = {
 	hotendTemp?: number;
 	hotendTarget?: number;
 	bedTemp?: number;
 	bedTarget?: number;
+	chamberTemp?: number;
+	chamberTarget?: number;
 };
 
 export type Position = { x?: number; y?: number; z?: number; e?: number };
 
 export type PrinterState = 'idle' | 'printing' | 'paused' | 'error';
 
-export class PrinterService {
-	private serial = new SerialManager();
+export type JobProgress = StreamProgress & {
+	jobId: string;
+	estimatedTime?: number; // seconds, elapsed plus remaining
+	remainingTime?: number;
+};
+
+// Last point of a print known to have reached the printer, persisted for power-loss recovery
+export type JobCheckpoint = {
+	offset: number; // bytes acknowledged by the firmware
+	layer: number;
+	z?: number;
+	progress: number;
+	temperatures: Pick<TemperatureData, 'hotendTarget' | 'bedTarget' | 'chamberTarget'>;
+	savedAt: string;
+	interrupted?: boolean;
+	reason?: string;
+};
+
+export type ResumeRequest = {
+	startOffset: number;
+	startLayer: number;
+	commands: string[]; // reheat/rehome preamble sent before streaming continues
+};
+
+export type ConnectionSettings = { path: string; baudRate: number | null };
+
+// Printable space in mm, X by Y by Z
+export type BuildVolume = { x: number; y: number; z: number };
+
+export type ConnectOptions = {
+	path?: string;
+	baudRate?: number; // probed with M115 when omitted; serial only
+	save?: boolean;
+};
+
+// How often streamed progress is written back to PrintJob.progress
+const PROGRESS_PERSIST_MS = 5000;
+
+// Polling interval for firmware without auto-reports; auto-reports are requested at these rates instead
+const POLL_INTERVAL_MS = 2000;
+const TEMPERATURE_REPORT_SEC = 1;
+const POSITION_REPORT_SEC = 2;
+// Missed auto-reports before falling back to polling (a firmware reset silently turns them off)
+const AUTOREPORT_STALE_FACTOR = 3;
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 60000;
+
+const BUILD_VOLUME_KEY = 'buildVolume';
+// Until one is configured: the common 220 mm bed
+export const DEFAULT_BUILD_VOLUME: BuildVolume = { x: 220, y: 220, z: 250 };
+
+// Where jobs are uploaded on printers that store and run files themselves
+const REMOTE_JOB_DIR = 'lezerprint';
+const REMOTE_JOB_FILE = new RegExp(`^${REMOTE_JOB_DIR}/([0-9a-f-]{36})\\.gcode$`);
+
+/**
+ * One physical printer: its driver (serial link or Moonraker), current job, thermal watchdog
+ * and reconnect loop. Serial printers get their jobs streamed line by line; printers with a
+ * remote print host are sent the whole file and report progress back.
+ * Instances are created and owned by the PrinterRegistry, one per enabled Printer row.
+ */
+export class PrinterService extends EventEmitter {
+	readonly id: string;
+	private _name: string;
+	private driver: PrinterDriver;
+	readonly thermal: ThermalMonitor;
+	private settings: ConnectionSettings | null;
+	private pollTimer?: NodeJS.Timeout;
 	private temperatures: TemperatureData = {};
 	private position: Position = {};
 	private state: PrinterState = 'idle';
 	private errorMsg?: string;
+	private streamer: PrintStreamer | null = null;
+	private _currentJobId: string | null = null;
+	// Limits from M503 the current job's time estimate is planned with
+	private machineLimits: MachineLimits | null = null;
+	private eta: PrintTimeEstimate | null = null;
+	private _buildVolume: BuildVolume = { ...DEFAULT_BUILD_VOLUME };
+	// The job the remote print host runs, with the last state it reported for it
+	private remoteJob: { file: string; status: RemotePrintStatus | null } | null = null;
+	// Last host file found not to belong to an active job, so it is not looked up on every report
+	private settledRemoteFile: string | null = null;
+	private lastProgressPersist = 0;
+	private manualDisconnect = false;
+	private reconnectTimer?: NodeJS.Timeout;
+	private reconnectAttempt = 0;
+	private nextReconnectAt: number | null = null;
+	private autoReport = { temperature: false, position: false };
+	private lastTemperatureAt = 0;
+	// prompt_begin/prompt_choice lines collect here until prompt_show
+	private promptDraft: { message: string; choices: string[] } | null = null;
+	private _prompt: HostPrompt | null = null;
 
-	constructor() {
-		this.serial.on('temperature', (t: TemperatureData) => (this.temperatures = t));
-		this.serial.on('position', (p: Position) => (this.position = p));
-		this.serial.on('printer-error', (e: any) => {
-			this.state = 'error';
+	constructor(printer: Pick<Printer, 'id' | 'name' | 'driver' | 'port' | 'baudRate'>) {
+		super();
+		this.id = printer.id;
+		this._name = printer.name;
+		this.driver = printer.driver === 'MOONRAKER' ? new MoonrakerDriver() : new SerialManager();
+		// Network drivers have no baud rate to remember
+		this.settings = printer.port && (printer.baudRate || this.driver.kind !== 'serial')
+			? { path: printer.port, baudRate: printer.baudRate }
+			: null;
+		this.thermal = new ThermalMonitor(printer.id);
+		this.driver.on('temperature', (t: TemperatureData) => {
+			this.lastTemperatureAt = Date.now();
+			this.temperatures = t;
+			this.thermal.update(t);
+			this.emit('temperature', t);
+		});
+		this.driver.on('position', (p: Position) => {
+			this.position = p;
+			this.emit('position', p);
+		});
+		this.driver.on('printer-error', (e: any) => {
 			this.errorMsg = typeof e?.message === 'string' ? e.message : 'Printer error';
+			this.setState('error');
+			this.emit('printer-error', this.errorMsg);
+		});
+		// Unsolicited firmware output (echo:busy, runout notices, action commands)
+		this.driver.on('response', (r: any) => {
+			if (r?.type !== 'raw') return;
+			// Marlin prints "start" after a reset; a print in progress did not survive it
+			if (r.line === 'start' && this.streamer?.isActive) this.interruptJob('Printer restarted during the print');
+			this.emit('firmware-message', r.line);
+		});
+		this.driver.on('action', (action: HostAction) => {
+			this.handleHostAction(action).catch((e) => console.error('Host action handling error:', e));
+		});
+		this.driver.on('print-status', (status: RemotePrintStatus) => {
+			this.handleRemoteStatus(status).catch((e) => console.error('Remote print status error:', e));
+		});
+		this.driver.on('connected', () => {
+			this.cancelReconnect();
+			this.thermal.setReportsPushed(this.driver.reportsStatus);
+			if (!this.driver.reportsStatus) {
+				this.enableAutoReports().catch((e) => console.error('Failed to enable firmware auto-reports:', e));
+				this.readMachineLimits().catch((e) => console.error('Failed to read machine limits:', e));
+			}
+			this.emit('status', this.getStatus());
+		});
+		// Transport errors (an unplugged cable) are usually followed by 'disconnected'
+		this.driver.on('error', (e: Error) => {
+			console.error(`Printer ${this.id} connection error:`, e.message);
+			if (!this.driver.isConnected) this.scheduleReconnect();
+		});
+		this.driver.on('disconnected', () => {
+			this.autoReport = { temperature: false, position: false };
+			this.thermal.setReportsPushed(false);
+			this.clearPrompt();
+			this.thermal.reset();
+			if (this.streamer?.isActive) this.interruptJob('Printer connection lost during the print');
+			if (!this.manualDisconnect) this.scheduleReconnect();
+			this.emit('status', this.getStatus());
 		});
 
-		// Best effort connect on boot in background
-		const autoConnect = async () => {
-			try {
-				if (!this.serial.isConnected) await this.serial.connect();
-			} catch {}
-		};
-		autoConnect();
+		this.thermal.on('fault', (fault: ThermalFault) => {
+			this.handleThermalFault(fault).catch((e) => console.error('Thermal fault handling error:', e));
+		});
+	}
+
+	start() {
+		this.thermal.load().catch((e) => console.error(`[${this._name}] Failed to load thermal protection settings:`, e));
+		this.loadBuildVolume().catch((e) => console.error(`[${this._name}] Failed to load the build volume:`, e));
+		this.thermal.start();
+
+		// Best effort connect on boot in background, then keep retrying with backoff
+		this.reconnect();
+
+		// Poll temps/pos for whatever the firmware does not report on its own
+		this.pollTimer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+	}
+
+	// Stops every timer and closes the port; the printer was removed or disabled
+	async shutdown() {
+		if (this.pollTimer) clearInterval(this.pollTimer);
+		this.pollTimer = undefined;
+		this.thermal.stop();
+		this.manualDisconnect = true;
+		this.cancelReconnect();
+		if (this.streamer?.isActive) this.interruptJob('Printer was removed during the print');
+		await this.driver.disconnect().catch(() => {});
+	}
+
+	get name() {
+		return this._name;
+	}
+
+	rename(name: string) {
+		this._name = name;
+	}
+
+	get buildVolume(): BuildVolume {
+		return { ...this._buildVolume };
+	}
+
+	private async loadBuildVolume() {
+		const setting = await prisma.printerSettings.findUnique({
+			where: { printerId_key: { printerId: this.id, key: BUILD_VOLUME_KEY } },
+		});
+		if (setting?.value && typeof setting.value === 'object') this._buildVolume = { ...DEFAULT_BUILD_VOLUME, ...(setting.value as Partial<BuildVolume>) };
+	}
+
+	async setBuildVolume(volume: BuildVolume): Promise<BuildVolume> {
+		await prisma.printerSettings.upsert({
+			where: { printerId_key: { printerId: this.id, key: BUILD_VOLUME_KEY } },
+			update: { value: volume },
+			create: {
+				printerId: this.id,
+				key: BUILD_VOLUME_KEY,
+				value: volume,
+				category: 'printer',
+				description: 'Printable space in mm; uploads that do not fit are flagged',
+			},
+		});
+		this._buildVolume = { ...volume };
+		return this.buildVolume;
+	}
+
+	/**
+	 * Asks the firmware to push temperature (M155) and position (M154) reports by itself, so
+	 * they no longer take slots in the command queue between print moves.
+	 */
+	private async enableAutoReports() {
+		const { autoreportTemp, autoreportPosition } = this.capabilities;
+		if (autoreportTemp) {
+			await this.driver.sendCommand(`M155 S${TEMPERATURE_REPORT_SEC}`, true);
+			this.autoReport.temperature = true;
+			this.lastTemperatureAt = Date.now();
+			this.thermal.setReportsPushed(true);
+		}
+		if (autoreportPosition) {
+			await this.driver.sendCommand(`M154 S${POSITION_REPORT_SEC}`, true);
+			this.autoReport.position = true;
+		}
+	}
+
+	// Klipper keeps its limits in printer.cfg and has no useful answer to M503
+	private async readMachineLimits() {
+		if (this.flavor === 'klipper') return;
+		const report = await this.driver.sendCommand('M503', true);
+		this.machineLimits = parseMachineLimits(String(report).split('\n'));
+	}
+
+	/**
+	 * Acts on `//action:` lines: the printer's own buttons and its filament sensor drive the
+	 * host-streamed job, and prompts are relayed to the web UI until one is answered.
+	 */
+	private async handleHostAction(action: HostAction) {
+		this.emit('host-action', { action, jobId: this._currentJobId, runout: isRunout(action) });
+		const streaming = !!this.streamer?.isActive;
+
+		switch (action.type) {
+			case 'pause':
+			case 'out_of_filament':
+				if (streaming) await this.pause();
+				break;
+			case 'paused':
+				// The firmware already stopped; a host-streamed print has to stop feeding as well
+				if (streaming) await this.pause();
+				else this.setState('paused');
+				break;
+			case 'resume':
+				if (streaming) await this.resume();
+				break;
+			case 'resumed':
+				if (streaming) await this.resume();
+				else if (this.state === 'paused') this.setState('printing');
+				break;
+			case 'cancel':
+				if (streaming) await this.cancel();
+				break;
+			case 'prompt_begin':
+				this.promptDraft = { message: action.message, choices: [] };
+				break;
+			case 'prompt_choice':
+				this.promptDraft?.choices.push(action.text);
+				break;
+			case 'prompt_show':
+				if (!this.promptDraft) break;
+				this._prompt = { ...this.promptDraft, shownAt: new Date() };
+				this.promptDraft = null;
+				this.emit('prompt', this._prompt);
+				break;
+			case 'prompt_end':
+				this.clearPrompt();
+				break;
+		}
+	}
+
+	get prompt() {
+		return this._prompt;
+	}
+
+	// Sends the chosen prompt button back to the firmware (M876 S<index>)
+	async answerPrompt(choice: number) {
+		const prompt = this._prompt;
+		if (!prompt) throw new Error('No prompt is waiting for an answer');
+		if (choice < 0 || choice >= Math.max(1, prompt.choices.length)) throw new Error(`Invalid prompt choice ${choice}`);
+		if (!this.capabilities.promptSupport) throw new Error('Prompts are not supported by this firmware');
+		// M600 and friends block the queue while the prompt is up; only the emergency parser sees M876 in time.
+		// Its ok follows the blocking command, so don't wait for it.
+		const answer = this.capabilities.emergencyParser
+			? this.driver.sendEmergency(`M876 S${choice}`)
+			: this.driver.sendCommand(`M876 S${choice}`, true, 0);
+		answer.catch((e) => console.error('Prompt answer failed:', e));
+		this.clearPrompt();
+	}
+
+	private clearPrompt() {
+		this.promptDraft = null;
+		if (!this._prompt) return;
+		this._prompt = null;
+		this.emit('prompt-end');
+	}
+
+	private async poll() {
+		if (!this.driver.isConnected || this.driver.reportsStatus) return;
+		try {
+			if (this.autoReport.temperature && Date.now() - this.lastTemperatureAt > TEMPERATURE_REPORT_SEC * 1000 * AUTOREPORT_STALE_FACTOR) {
+				// Reports stopped: poll until re-enabling them succeeds
+				this.autoReport = { temperature: false, position: false };
+				this.thermal.setReportsPushed(false);
+				this.enableAutoReports().catch(() => {});
+			}
+			if (!this.autoReport.temperature) await this.driver.sendCommand('M105');
+			if (this.state === 'printing' && !this.autoReport.position) await this.driver.sendCommand('M114');
+		} catch {}
+	}
+
+	private setState(state: PrinterState) {
+		if (this.state === state) return;
+		this.state = state;
+		if (state === 'paused') this.eta?.pause();
+		else if (state === 'printing') this.eta?.resume();
+		this.emit('status', this.getStatus());
+	}
+
+	get currentJobId() {
+		return this._currentJobId;
+	}
+
+	get isPrinting() {
+		return this._currentJobId !== null;
+	}
 
-		// Poll temps/pos
-		setInterval(async () => {
-			try {
-				if (this.serial.isConnected) {
-					await this.serial.sendCommand('M105');
-					if (this.state === 'printing') await this.serial.sendCommand('M114');
-				}
-			} catch {}
-		}, 2000);
+	// The simulator behind the "virtual" port, or null when a real printer is attached
+	get virtualPrinter() {
+		return this.driver instanceof SerialManager ? this.driver.virtualPrinter : null;
+	}
+
+	// Whether the printer host stores and runs print files itself (Klipper through Moonraker)
+	get printsRemotely() {
+		return this.driver.remote !== null;
+	}
+
+	get flavor(): FirmwareFlavor {
+		return this.driver.firmware?.flavor ?? 'unknown';
+	}
+
+	// What the connected firmware reported in M115; nothing optional until it has answered
+	get capabilities(): FirmwareCapabilities {
+		return this.driver.firmware?.capabilities ?? UNKNOWN_CAPABILITIES;
 	}
 
 	getStatus() {
 		return {
+			printerId: this.id,
+			name: this._name,
 			state: this.state,
 			error: this.errorMsg,
 			temperatures: this.temperatures,
 			position: this.position,
-			currentJob: null,
-			connected: this.serial.isConnected,
+			currentJob: this.currentJobProgress(),
+			connected: this.driver.isConnected,
+			driver: this.driver.kind,
+			firmware: { flavor: this.flavor, capabilities: this.capabilities },
 		};
 	}
 
+	private currentJobProgress() {
+		if (!this._currentJobId) return null;
+		if (this.streamer) {
+			const progress = this.streamer.getProgress();
+			return { id: this._currentJobId, ...progress, ...this.eta?.at(progress.bytesAcked) };
+		}
+		const status = this.remoteJob?.status;
+		if (status) {
+			return {
+				id: this._currentJobId,
+				progress: status.progress,
+				layer: status.layer,
+				totalLayers: status.totalLayers,
+				...this.eta?.atProgress(status.progress),
+			};
+		}
+		return null;
+	}
+
+	/**
+	 * Streams the job's G-code file to the printer, or uploads it to a remote print host and
+	 * starts it there. Resolves once the job is PREPARING; the rest of the lifecycle is driven
+	 * by streamer events or the host's print status.
+	 */
+	async startPrint(jobId: string) {
+		if (this.isPrinting) throw new Error('A print is already in progress');
+		const job = await prisma.printJob.findUnique({ where: { id: jobId }, include: { file: true } });
+		if (!job) throw new Error('Job not found');
+		if (job.printerId && job.printerId !== this.id) throw new Error('Job is assigned to another printer');
+		if (job.file.fileType !== 'GCODE') throw new Error('Only G-code files can be printed');
+
+		// Claimed before the awaits so a concurrent start is refused, released if the job cannot be prepared
+		this._currentJobId = job.id;
+		try {
+			if (!job.printerId) await prisma.printJob.update({ where: { id: job.id }, data: { printerId: this.id } });
+			await jobService.transitionJob(job.id, 'PREPARING');
+		} catch (e) {
+			this._currentJobId = null;
+			throw e;
+		}
+		try {
+			await this.ensureConnected();
+		} catch (e: any) {
+			await this.finishJob('FAILED', e?.message || 'Printer not connected');
+			throw e;
+		}
+
+		this.planEstimate(job.id, job.file.filePath).catch((e) => console.error('Print time estimate error:', e));
+		if (this.driver.remote) {
+			this.startRemotePrint(job.id, job.file.filePath).catch((e) => this.finishJob('FAILED', e?.message || 'Failed to start the print'));
+			return job;
+		}
+
+		const metadata = (job.file.metadata ?? {}) as { layerCount?: number };
+		const streamer = new PrintStreamer(this.driver, { totalLayers: metadata.layerCount || undefined });
+		this.attachStreamer(streamer, job.id);
+		streamer.start(job.file.filePath).catch((e) => this.finishJob('FAILED', e?.message || 'Failed to read G-code file'));
+		return job;
+	}
+
+	/**
+	 * Continues an interrupted job from a saved offset. The preamble (reheat, home X/Y,
+	 * restore Z/E) runs first; if it fails the job is left untouched so it can be retried.
+	 */
+	async resumeFromCheckpoint(jobId: string, request: ResumeRequest) {
+		if (this.isPrinting) throw new Error('A print is already in progress');
+		const job = await prisma.printJob.findUnique({ where: { id: jobId }, include: { file: true } });
+		if (!job) throw new Error('Job not found');
+		if (job.printerId && job.printerId !== this.id) throw new Error('Job is assigned to another printer');
+		if (this.driver.remote) throw new Error('Resuming from a checkpoint is not supported by this printer driver');
+
+		this._currentJobId = job.id;
+		try {
+			await this.ensureConnected();
+			this.thermal.reset();
+			this.errorMsg = undefined;
+			this.setState('printing');
+			for (const command of request.commands) await this.driver.sendCommand(command, false, 0);
+		} catch (e) {
+			this._currentJobId = null;
+			this.setState('error');
+			throw e;
+		}
+
+		const metadata = (job.file.metadata ?? {}) as { layerCount?: number };
+		const streamer = new PrintStreamer(this.driver, {
+			startOffset: request.startOffset,
+			startLayer: request.startLayer,
+			totalLayers: metadata.layerCount || undefined,
+		});
+		this.attachStreamer(streamer, job.id);
+		streamer.start(job.file.filePath).catch((e) => this.finishJob('FAILED', e?.message || 'Failed to read G-code file'));
+		this.planEstimate(job.id, job.file.filePath, request.startOffset).catch((e) => console.error('Print time estimate error:', e));
+		return job;
+	}
+
+	/**
+	 * Plans the file with this printer's limits for live ETAs, in the background while the
+	 * print gets going. A fresh job keeps the uncalibrated plan as its estimatedTime: that is
+	 * what timeCalibration compares actual times against.
+	 */
+	private async planEstimate(jobId: string, filePath: string, startOffset = 0) {
+		const startedAt = Date.now();
+		const [analysis, calibration] = await Promise.all([
+			GCodeParser.analyzeFile(filePath, { limits: this.machineLimits ?? undefined, timeline: true }),
+			timeCalibration(this.id),
+		]);
+		if (this._currentJobId !== jobId) return;
+		this.eta = new PrintTimeEstimate(analysis.timeline ?? [], analysis.estimatedTime, calibration, startOffset, startedAt);
+		if (this.state === 'paused') this.eta.pause();
+		if (!startOffset) await prisma.printJob.update({ where: { id: jobId }, data: { estimatedTime: analysis.estimatedTime } });
+	}
+
+	private attachStreamer(streamer: PrintStreamer, jobId: string) {
+		this.streamer = streamer;
+		this.lastProgressPersist = 0;
+
+		streamer.on('started', () => {
+			this.setState('printing');
+			this.errorMsg = undefined;
+			jobService.transitionJob(jobId, 'PRINTING').catch((e) => console.error('Job transition error:', e));
+		});
+		streamer.on('progress', (progress: StreamProgress) => {
+			this.emit('progress', { jobId, ...progress, ...this.eta?.at(progress.bytesAcked) } as JobProgress);
+			const now = Date.now();
+			if (now - this.lastProgressPersist < PROGRESS_PERSIST_MS) return;
+			this.lastProgressPersist = now;
+			jobService
+				.updateProgress(jobId, progress.progress, this.checkpoint(progress))
+				.catch((e) => console.error('Job progress error:', e));
+		});
+		streamer.on('finished', () => this.finishJob('COMPLETED'));
+		streamer.on('failed', (error: Error) => this.finishJob('FAILED', error.message));
+	}
+
+	// Uploads the file into the host's storage and starts it; the host's print status takes over from there
+	private async startRemotePrint(jobId: string, filePath: string) {
+		const remote = this.driver.remote!;
+		const file = await remote.upload(filePath, `${REMOTE_JOB_DIR}/${jobId}.gcode`);
+		if (this._currentJobId !== jobId) return;
+		this.remoteJob = { file, status: null };
+		this.lastProgressPersist = 0;
+		await remote.start(file);
+	}
+
+	/**
+	 * Follows the print the host reports. A job uploaded by an earlier run of the backend is
+	 * picked up again after a restart, including one that finished while nobody was watching.
+	 */
+	private async handleRemoteStatus(status: RemotePrintStatus) {
+		if (!this._currentJobId && !(await this.adoptRemoteJob(status))) {
+			// A print started on the printer itself; only mirror the state
+			if (status.state === 'printing' || status.state === 'paused') this.setState(status.state);
+			else if (this.state === 'printing' || this.state === 'paused') this.setState('idle');
+			return;
+		}
+
+		const jobId = this._currentJobId;
+		const job = this.remoteJob;
+		if (!jobId || !job || status.filename !== job.file) return;
+		const previous: RemotePrintState | undefined = job.status?.state;
+		job.status = status;
+
+		if (status.state === 'printing' || status.state === 'paused') {
+			this.emit('progress', {
+				jobId,
+				progress: status.progress,
+				bytesSent: 0,
+				bytesAcked: 0,
+				totalBytes: 0,
+				linesSent: 0,
+				layer: status.layer ?? 0,
+				totalLayers: status.totalLayers,
+				...this.eta?.atProgress(status.progress),
+			} as JobProgress);
+			const now = Date.now();
+			if (now - this.lastProgressPersist >= PROGRESS_PERSIST_MS) {
+				this.lastProgressPersist = now;
+				jobService.updateProgress(jobId, status.progress).catch((e) => console.error('Job progress error:', e));
+			}
+		}
+		if (status.state === previous) return;
+
+		switch (status.state) {
+			case 'printing':
+				this.errorMsg = undefined;
+				this.setState('printing');
+				await jobService.transitionJob(jobId, 'PRINTING');
+				break;
+			case 'paused':
+				this.setState('paused');
+				await jobService.transitionJob(jobId, 'PAUSED');
+				break;
+			case 'complete':
+				await this.finishJob('COMPLETED');
+				break;
+			case 'cancelled':
+				await this.finishJob('CANCELLED');
+				break;
+			case 'error':
+				await this.finishJob('FAILED', status.message || 'The printer reported an error');
+				break;
+			case 'standby':
+				// The host forgot the print, e.g. Klipper restarted
+				if (previous) await this.finishJob('FAILED', 'The printer stopped the print');
+				break;
+		}
+	}
+
+	// Takes back an active job whose uploaded file the host reports
+	private async adoptRemoteJob(status: RemotePrintStatus) {
+		const jobId = status.filename?.match(REMOTE_JOB_FILE)?.[1];
+		if (!jobId || status.filename === this.settledRemoteFile) return false;
+		const job = await prisma.printJob.findFirst({
+			where: { id: jobId, printerId: this.id, status: { in: ['PREPARING', 'PRINTING', 'PAUSED'] } },
+		});
+		if (!job) this.settledRemoteFile = status.filename;
+		if (!job || this._currentJobId) return false;
+		this._currentJobId = job.id;
+		this.remoteJob = { file: status.filename!, status: null };
+		this.lastProgressPersist = 0;
+		return true;
+	}
+
+	private async finishJob(status: JobStatus, errorMessage?: string) {
+		const jobId = this._currentJobId;
+		const progress = this.streamer?.getProgress().progress ?? this.remoteJob?.status?.progress;
+		this.streamer?.removeAllListeners();
+		this.streamer = null;
+		// The host keeps reporting the finished file until its next print
+		if (this.remoteJob) this.settledRemoteFile = this.remoteJob.file;
+		this.remoteJob = null;
+		this.eta = null;
+		this._currentJobId = null;
+		this.driver.setMaxInFlight(1);
+		if (errorMessage) this.errorMsg = errorMessage;
+		this.setState(status === 'FAILED' ? 'error' : 'idle');
+		if (!jobId) return;
+		try {
+			await jobService.transitionJob(jobId, status, { progress, errorMessage });
+		} catch (e) {
+			console.error('Job transition error:', e);
+		}
+		this.emit('job-finished', { jobId, status });
+	}
+
+	private checkpoint(progress: StreamProgress): JobCheckpoint {
+		const { hotendTarget, bedTarget, chamberTarget } = this.temperatures;
+		return {
+			offset: progress.bytesAcked,
+			layer: progress.layer,
+			z: progress.z,
+			progress: progress.progress,
+			temperatures: { hotendTarget, bedTarget, chamberTarget },
+			savedAt: new Date().toISOString(),
+		};
+	}
+
+	// The printer lost the print (reset or disconnect); keep the job resumable instead of failing it
+	private interruptJob(reason: string) {
+		const jobId = this._currentJobId;
+		const streamer = this.streamer;
+		if (!jobId) return;
+		const checkpoint = streamer ? this.checkpoint(streamer.getProgress()) : null;
+		streamer?.removeAllListeners();
+		streamer?.cancel();
+		this.streamer = null;
+		this._currentJobId = null;
+		this.driver.clearQueue(reason);
+		this.driver.setMaxInFlight(1);
+		this.errorMsg = reason;
+		this.setState('error');
+		this.emit('job-interrupted', { jobId, reason, checkpoint });
+	}
+
+	// Operator acknowledged a failure (e.g. cleared the bed); the printer may take new jobs
+	acknowledgeError() {
+		if (this.state !== 'error' || this.isPrinting) return;
+		this.thermal.reset();
+		this.setState('idle');
+		this.errorMsg = undefined;
+	}
+
+	// Host-side thermal protection tripped: kill the printer before anything else
+	private async handleThermalFault(fault: ThermalFault) {
+		const jobId = this._currentJobId;
+		const reason = `Thermal protection: ${fault.message}`;
+		this.streamer?.cancel();
+		await this.driver.emergencyStop();
+		this.emit('thermal-fault', { ...fault, jobId });
+		this.errorMsg = reason;
+		if (jobId) await this.finishJob('FAILED', reason);
+		this.setState('error');
+	}
+
 	async ensureConnected() {
-		if (!this.serial.isConnected) await this.serial.connect();
+		if (this.driver.isConnected) return;
+		if (this.manualDisconnect) throw new Error('Printer was disconnected by an operator');
+		if (!this.settings) throw new Error('No printer port configured');
+		await this.driver.connect(this.settings.path, this.settings.baudRate ?? undefined);
+	}
+
+	getConnection() {
+		return {
+			driver: this.driver.kind,
+			connected: this.driver.isConnected,
+			...(this.driver.connection ?? { path: null, baudRate: null }),
+			firmware: this.driver.firmware,
+			reconnecting: this.nextReconnectAt ? { attempt: this.reconnectAttempt, nextAttemptAt: new Date(this.nextReconnectAt) } : null,
+		};
+	}
+
+	/**
+	 * Connects to a port (or Moonraker URL), negotiating the baud rate with M115 when none is
+	 * given, and optionally remembers the choice for the next start.
+	 */
+	async connect({ path, baudRate, save = true }: ConnectOptions = {}) {
+		if (this.streamer?.isActive) throw new Error('Cannot change the connection while printing');
+		const saved = this.settings;
+		const target = path ?? saved?.path;
+		if (!target) throw new Error('No printer port given or configured');
+
+		let rate: number | null = null;
+		if (this.driver.kind === 'serial') {
+			rate = baudRate ?? (target === saved?.path ? saved.baudRate : null);
+			if (!rate) {
+				const probe = await probePort(target);
+				if (!probe.baudRate) throw new Error(probe.error || `No printer answered on ${target}`);
+				rate = probe.baudRate;
+			}
+		}
+
+		this.manualDisconnect = false;
+		this.cancelReconnect();
+		await this.driver.connect(target, rate ?? undefined);
+		if (save) await this.saveConnectionSettings({ path: target, baudRate: rate });
+		return this.getConnection();
+	}
+
+	async disconnect() {
+		if (this.streamer?.isActive) throw new Error('Cannot disconnect while printing');
+		this.manualDisconnect = true;
+		this.cancelReconnect();
+		await this.driver.disconnect();
+		this.emit('status', this.getStatus());
+	}
+
+	private async reconnect() {
+		this.nextReconnectAt = null;
+		try {
+			await this.ensureConnected();
+			this.reconnectAttempt = 0;
+		} catch {
+			// Nothing configured yet: wait for an operator to pick a port
+			if (this.settings) this.scheduleReconnect();
+		}
+	}
+
+	private scheduleReconnect() {
+		if (this.reconnectTimer || this.manualDisconnect) return;
+		const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** this.reconnectAttempt);
+		this.reconnectAttempt++;
+		this.nextReconnectAt = Date.now() + delay;
+		this.reconnectTimer = setTimeout(() => {
+			this.reconnectTimer = undefined;
+			this.reconnect();
+		}, delay);
+	}
+
+	private cancelReconnect() {
+		if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+		this.reconnectTimer = undefined;
+		this.nextReconnectAt = null;
+		this.reconnectAttempt = 0;
+	}
+
+	// Remembered on the Printer row and used for every later (re)connect
+	private async saveConnectionSettings(settings: ConnectionSettings) {
+		await prisma.printer.update({ where: { id: this.id }, data: { port: settings.path, baudRate: settings.baudRate } });
+		this.settings = settings;
 	}
 
 	async sendCommand(command: string, wait = true) {
 		await this.ensureConnected();
-		return this.serial.sendCommand(command, false, wait ? 5000 : 0);
+		return this.driver.sendCommand(command, false, wait ? 5000 : 0);
 	}
 
 	async home(axes: Array<'X' | 'Y' | 'Z'> | 'all' = 'all') {
 		await this.ensureConnected();
 		const cmd = axes === 'all' ? 'G28' : `G28 ${axes.join(' ')}`;
-		return this.serial.sendCommand(cmd);
+		return this.driver.sendCommand(cmd);
 	}
 
 	async move(axis: 'X' | 'Y' | 'Z' | 'E', distance: number, speed: number) {
 		await this.ensureConnected();
-		return this.serial.sendCommand(`G91`)
-			.then(() => this.serial.sendCommand(`G1 ${axis}${distance} F${speed}`))
-			.then(() => this.serial.sendCommand(`G90`));
+		return this.driver.sendCommand(`G91`)
+			.then(() => this.driver.sendCommand(`G1 ${axis}${distance} F${speed}`))
+			.then(() => this.driver.sendCommand(`G90`));
 	}
 
 	async setTemperature({ hotend, bed, chamber }: { hotend?: number; bed?: number; chamber?: number }) {
 		await this.ensureConnected();
-		if (hotend !== undefined) await this.serial.sendCommand(`M104 S${hotend}`);
-		if (bed !== undefined) await this.serial.sendCommand(`M140 S${bed}`);
-		// Chamber commonly M141 but not standard; ignore if unset
-		if (chamber !== undefined) await this.serial.sendCommand(`M141 S${chamber}`).catch(() => {});
+		if (chamber !== undefined && !this.capabilities.chamberTemperature) {
+			throw new Error('Chamber temperature is not supported by this firmware');
+		}
+		if (hotend !== undefined) await this.driver.sendCommand(`M104 S${hotend}`);
+		if (bed !== undefined) await this.driver.sendCommand(`M140 S${bed}`);
+		if (chamber !== undefined) {
+			// Klipper has no M141; its chamber is a generic heater
+			await this.driver.sendCommand(this.flavor === 'klipper' ? `SET_HEATER_TEMPERATURE HEATER=chamber TARGET=${chamber}` : `M141 S${chamber}`);
+		}
 	}
 
 	async pause() {
 		if (this.state !== 'printing') return;
-		this.state = 'paused';
-		await this.serial.sendCommand('M25').catch(() => {}); // SD pause if supported
-		await this.serial.sendCommand('M0').catch(() => {});
+		this.setState('paused');
+		if (this.streamer?.isActive && this._currentJobId) {
+			// Host-streamed print: simply stop feeding lines
+			this.streamer.pause();
+			await jobService.transitionJob(this._currentJobId, 'PAUSED');
+			return;
+		}
+		// The host's print status moves the job along
+		if (this.driver.remote) return this.driver.remote.pause();
+		// The firmware runs the print itself; M0 only answers once the user continues, so don't wait on it
+		if (this.flavor === 'klipper') await this.driver.sendCommand('PAUSE');
+		else if (this.capabilities.sdCard) await this.driver.sendCommand('M25');
+		else await this.driver.sendCommand('M0').catch(() => {});
 	}
 
 	async resume() {
 		if (this.state !== 'paused') return;
-		this.state = 'printing';
-		await this.serial.sendCommand('M24').catch(() => {});
+		if (this.streamer?.isActive && this._currentJobId) {
+			this.setState('printing');
+			await jobService.transitionJob(this._currentJobId, 'PRINTING');
+			this.streamer.resume();
+			return;
+		}
+		if (this.driver.remote) {
+			this.setState('printing');
+			return this.driver.remote.resume();
+		}
+		const command = this.flavor === 'klipper' ? 'RESUME' : this.capabilities.sdCard ? 'M24' : 'M108';
+		// M108 ends the M0 wait, but only reaches a busy firmware through the emergency parser
+		if (command === 'M108' && !this.capabilities.emergencyParser) {
+			throw new Error('Resuming is not supported by this firmware; continue from the printer display');
+		}
+		this.setState('printing');
+		if (command === 'M108') await this.driver.sendEmergency(command);
+		else await this.driver.sendCommand(command);
 	}
 
 	async cancel() {
-		this.state = 'idle';
-		await this.serial.sendCommand('M104 S0').catch(() => {});
-		await this.serial.sendCommand('M140 S0').catch(() => {});
+		if (this.streamer?.isActive) {
+			this.streamer.cancel();
+			this.driver.clearQueue('Print cancelled');
+			await this.finishJob('CANCELLED');
+		} else if (this.driver.remote && this._currentJobId) {
+			// Still uploading: the upload is dropped when it returns
+			if (this.remoteJob) await this.driver.remote.cancel();
+			else await this.finishJob('CANCELLED');
+		}
+		this.setState('idle');
+		await this.driver.sendCommand('M104 S0').catch(() => {});
+		await this.driver.sendCommand('M140 S0').catch(() => {});
 	}
 
-	async emergencyStop() {
-		await this.serial.emergencyStop();
-		this.state = 'error';
+	async emergencyStop(reason = 'Emergency stop') {
+		this.streamer?.cancel();
+		await this.driver.emergencyStop();
+		this.errorMsg = reason;
+		if (this._currentJobId) await this.finishJob('FAILED', reason);
+		this.setState('error');
 	}
 }
 
-export const printerService = new PrinterService();
 export default PrinterService;
@@ -0,0 +1,187 @@
+import { detectLayer, readGCodeLines } from './PrintStreamer';
+
+/**
+ * Rebuilds the machine state a G-code file leaves behind at a byte offset, so an
+ * interrupted print can be resumed mid-file: positions, extrusion mode, feedrate,
+ * fan and heater targets are replayed from the file itself rather than trusted
+ * from whatever the printer remembers after a restart.
+ */
+
+export type MachineState = {
+	absolute: boolean; // G90/G91 for X/Y/Z
+	relativeE: boolean; // M83/M82 (G91 also makes E relative)
+	x?: number;
+	y?: number;
+	z?: number;
+	e: number;
+	feedrate?: number;
+	hotendTarget?: number;
+	bedTarget?: number;
+	chamberTarget?: number;
+	fanSpeed: number;
+	layer: number;
+	commands: number; // G-code commands before the offset
+};
+
+export type ResumeOptions = {
+	lift?: number; // mm to raise Z before homing X/Y
+	chamber?: boolean; // whether the printer understands M141/M191
+};
+
+const initialState = (): MachineState => ({ absolute: true, relativeE: false, e: 0, fanSpeed: 0, layer: 0, commands: 0 });
+
+const param = (command: string, letter: string): number | undefined => {
+	const m = command.match(new RegExp(`(?:^|\\s)${letter}(-?[\\d.]+)`, 'i'));
+	return m ? parseFloat(m[1]) : undefined;
+};
+
+function apply(state: MachineState, raw: string) {
+	const layer = detectLayer(raw, state.layer);
+	if (layer !== null) state.layer = layer;
+
+	const command = raw.replace(/;.*$/, '').trim().toUpperCase();
+	if (!command) return;
+	state.commands++;
+	const code = command.split(/\s+/)[0];
+
+	switch (code) {
+		case 'G0':
+		case 'G1':
+		case 'G2':
+		case 'G3': {
+			for (const axis of ['X', 'Y', 'Z'] as const) {
+				const value = param(command, axis);
+				if (value === undefined) continue;
+				const key = axis.toLowerCase() as 'x' | 'y' | 'z';
+				state[key] = state.absolute ? value : (state[key] ?? 0) + value;
+			}
+			const e = param(command, 'E');
+			if (e !== undefined) state.e = state.relativeE ? state.e + e : e;
+			const f = param(command, 'F');
+			if (f !== undefined) state.feedrate = f;
+			break;
+		}
+		case 'G28':
+			// Homing moves the named axes (all when none are named) to the origin
+			for (const axis of ['X', 'Y', 'Z'] as const) {
+				if (!/[XYZ]/.test(command.slice(3)) || command.slice(3).includes(axis)) state[axis.toLowerCase() as 'x' | 'y' | 'z'] = 0;
+			}
+			break;
+		case 'G90':
+			state.absolute = true;
+			state.relativeE = false;
+			break;
+		case 'G91':
+			state.absolute = false;
+			state.relativeE = true;
+			break;
+		case 'M82':
+			state.relativeE = false;
+			break;
+		case 'M83':
+			state.relativeE = true;
+			break;
+		case 'G92': {
+			const e = param(command, 'E');
+			if (e !== undefined) state.e = e;
+			for (const axis of ['X', 'Y', 'Z'] as const) {
+				const value = param(command, axis);
+				if (value !== undefined) state[axis.toLowerCase() as 'x' | 'y' | 'z'] = value;
+			}
+			break;
+		}
+		case 'M104':
+		case 'M109':
+			state.hotendTarget = param(command, 'S') ?? param(command, 'R') ?? state.hotendTarget;
+			break;
+		case 'M140':
+		case 'M190':
+			state.bedTarget = param(command, 'S') ?? param(command, 'R') ?? state.bedTarget;
+			break;
+		case 'M141':
+		case 'M191':
+			state.chamberTarget = param(command, 'S') ?? param(command, 'R') ?? state.chamberTarget;
+			break;
+		case 'M106':
+			state.fanSpeed = param(command, 'S') ?? 255;
+			break;
+		case 'M107':
+			state.fanSpeed = 0;
+			break;
+	}
+}
+
+// Machine state after every line that ends at or before `offset`
+export async function scanMachineState(filePath: string, offset: number): Promise<MachineState> {
+	const state = initialState();
+	if (offset <= 0) return state;
+	for await (const line of readGCodeLines(filePath)) {
+		if (line.end > offset) break;
+		apply(state, line.text.trim());
+	}
+	return state;
+}
+
+// Byte offset where the given (1-based) layer starts, or null when the file has no such layer
+export async function findLayerOffset(filePath: string, layer: number): Promise<number | null> {
+	let current = 0;
+	let start = 0;
+	for await (const line of readGCodeLines(filePath)) {
+		const detected = detectLayer(line.text.trim(), current);
+		if (detected !== null) {
+			current = detected;
+			if (current === layer) return start;
+			if (current > layer) return null;
+		}
+		start = line.end;
+	}
+	return null;
+}
+
+// The next few commands the printer will receive after resuming at `offset`
+export async function previewCommands(filePath: string, offset: number, count = 10): Promise<string[]> {
+	const commands: string[] = [];
+	for await (const line of readGCodeLines(filePath, offset)) {
+		const command = line.text.replace(/;.*$/, '').trim();
+		if (command) commands.push(command);
+		if (commands.length >= count) break;
+	}
+	return commands;
+}
+
+/**
+ * Commands that bring a restarted printer back to `state`: reheat, assume the nozzle is
+ * still at the interrupted height, lift, home X/Y only, travel back over the interrupted
+ * position, drop back to Z and restore E.
+ */
+export function buildResumeCommands(state: MachineState, options: ResumeOptions = {}): string[] {
+	const lift = options.lift ?? 2;
+	const commands: string[] = [];
+	const chamber = options.chamber && state.chamberTarget ? state.chamberTarget : undefined;
+
+	if (state.bedTarget) commands.push(`M140 S${state.bedTarget}`);
+	if (state.hotendTarget) commands.push(`M104 S${state.hotendTarget}`);
+	if (chamber) commands.push(`M141 S${chamber}`);
+	if (chamber) commands.push(`M191 S${chamber}`);
+	if (state.bedTarget) commands.push(`M190 S${state.bedTarget}`);
+	if (state.hotendTarget) commands.push(`M109 S${state.hotendTarget}`);
+
+	const z = state.z ?? 0;
+	commands.push(`G92 Z${z}`);
+	commands.push('G91');
+	commands.push(`G1 Z${lift} F600`);
+	commands.push('G90');
+	commands.push('G28 X Y');
+	// Relative moves continue from here, so the nozzle must be back where the print stopped
+	const travel = [state.x !== undefined ? `X${state.x}` : '', state.y !== undefined ? `Y${state.y}` : ''].filter(Boolean);
+	if (travel.length) commands.push(`G1 ${travel.join(' ')} F3000`);
+	commands.push(`G1 Z${z} F600`);
+	// G91 also switches E to relative, so the positioning mode goes before the extruder mode
+	if (!state.absolute) commands.push('G91');
+
+	commands.push(state.relativeE ? 'M83' : 'M82');
+	if (!state.relativeE) commands.push(`G92 E${state.e.toFixed(5)}`);
+	commands.push(state.fanSpeed > 0 ? `M106 S${state.fanSpeed}` : 'M107');
+	if (state.feedrate) commands.push(`G1 F${state.feedrate}`);
+	return commands;
+}
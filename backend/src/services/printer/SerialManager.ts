@@ -1,6 +1,19 @@
 import { SerialPort } from 'serialport';
 import { ReadlineParser } from '@serialport/parser-readline';
 import EventEmitter from 'events';
+import PrinterProtocol from './PrinterProtocol';
+import VirtualPrinter from './VirtualPrinter';
+import { FirmwareInfo, parseFirmwareReport } from './FirmwareInfo';
+import { HostAction, parseHostAction } from './HostActions';
+import { PrinterDriver } from './PrinterDriver';
+
+// Either a real serial port or the in-process simulator selected with PRINTER_PORT=virtual
+type PrinterPort = SerialPort | VirtualPrinter;
+
+export const VIRTUAL_PORT = 'virtual';
+
+// Commands whose answer is a temperature or position report
+const REPORT_QUERY = /^M(105|114)\b/i;
 
 type Command = {
 	gcode: string;
@@ -8,53 +21,93 @@ type Command = {
 	reject: (reason?: any) => void;
 	timestamp: number;
 	timeout?: NodeJS.Timeout;
+	line?: number;
+	response: string[]; // lines the firmware printed before the ok
 };
 
 type ParsedResponse =
 	| { type: 'ok' }
 	| { type: 'error'; message: string }
+	| { type: 'resend'; line: number }
 	| { type: 'temperature'; data: any }
 	| { type: 'position'; data: any }
+	| { type: 'action'; action: HostAction }
 	| { type: 'raw'; line: string };
 
-export class SerialManager extends EventEmitter {
-	private port: SerialPort | null = null;
+export class SerialManager extends EventEmitter implements PrinterDriver {
+	readonly kind = 'serial' as const;
+	// Temperatures and position need M105/M114 or the M155/M154 auto-reports
+	readonly reportsStatus = false;
+	// Prints are streamed by PrintStreamer
+	readonly remote = null;
+	private port: PrinterPort | null = null;
 	private parser: ReadlineParser | null = null;
 	private commandQueue: Command[] = [];
 	private _isConnected = false;
-	private currentCommand: Command | null = null;
+	// Commands written to the port and awaiting their ok, oldest first
+	private inFlight: Command[] = [];
+	private maxInFlight = 1;
 	private defaultTimeoutMs = 5000;
+	private protocol = new PrinterProtocol();
+	private pendingResend: number | null = null;
+	// Duplicate resend requests expected from lines that were already in the firmware buffer
+	private lastResend: { line: number; swallow: number } | null = null;
+	private _connection: { path: string; baudRate: number } | null = null;
+	private _firmware: FirmwareInfo | null = null;
 
 	get isConnected() {
 		return this._isConnected;
 	}
 
-	async connect(portPath?: string, baudRate: number = parseInt(process.env.PRINTER_BAUDRATE || '115200')) {
-		const path = portPath || process.env.PRINTER_PORT;
-		if (!path) throw new Error('PRINTER_PORT not configured');
+	get connection() {
+		return this._connection;
+	}
+
+	get firmware() {
+		return this._firmware;
+	}
+
+	get virtualPrinter(): VirtualPrinter | null {
+		return this.port instanceof VirtualPrinter ? this.port : null;
+	}
 
-		this.port = new SerialPort({ path, baudRate, autoOpen: false });
+	// Number of commands allowed on the wire before an ok is received (ok flow control)
+	setMaxInFlight(count: number) {
+		this.maxInFlight = Math.max(1, Math.floor(count));
+		this.processQueue();
+	}
+
+	async connect(path: string, baudRate: number) {
+
+		if (this.port?.isOpen) await this.disconnect();
+		this.port = path === VIRTUAL_PORT ? new VirtualPrinter() : new SerialPort({ path, baudRate, autoOpen: false });
+		this._connection = { path, baudRate };
+		this._firmware = null;
 		this.parser = this.port.pipe(new ReadlineParser({ delimiter: '\n' }));
 
 		await this.openPort();
 		this.setupEventHandlers();
 		await this.initialize();
-		this._isConnected = true;
 		this.emit('connected');
 	}
 
 	private openPort(): Promise<void> {
 		return new Promise((resolve, reject) => {
-			this.port?.open((err) => (err ? reject(err) : resolve()));
+			this.port?.open((err?: Error | null) => (err ? reject(err) : resolve()));
 		});
 	}
 
 	private async initialize() {
 		// Basic init: wait a bit and clear buffer
 		await new Promise((r) => setTimeout(r, 500));
+		this._isConnected = true;
+		this.pendingResend = null;
+		this.lastResend = null;
 		// Try to get an ok
 		try {
-			await this.sendCommand('M115', true); // firmware info
+			await this.sendCommand('M110 N0', true); // reset line numbering
+			const report = await this.sendCommand('M115', true); // firmware info
+			this._firmware = parseFirmwareReport(String(report).split('\n'));
 		} catch {}
 	}
 
@@ -62,39 +115,79 @@ export class SerialManager extends EventEmitter {
 		this.parser?.on('data', (line: string) => {
 			const trimmed = line.trim();
 			if (!trimmed) return;
+			// Marlin answers M105/M114 with "ok T:..." - report the data before consuming the ok
+			if (/^ok\s+\S/i.test(trimmed)) {
+				const report = this.parseResponse(trimmed.replace(/^ok\s+/i, ''));
+				if (report.type === 'temperature') this.emit('temperature', report.data);
+				if (report.type === 'position') this.emit('position', report.data);
+			}
 			const response = this.parseResponse(trimmed);
 			this.emit('response', response);
 
 			if (response.type === 'temperature') this.emit('temperature', response.data);
 			if (response.type === 'position') this.emit('position', response.data);
 
-			if (response.type === 'ok' && this.currentCommand) {
-				clearTimeout(this.currentCommand.timeout);
-				this.currentCommand.resolve('ok');
-				this.currentCommand = null;
+			if (response.type === 'resend') {
+				this.pendingResend = response.line;
+				return;
+			}
+
+			if (response.type === 'ok') {
+				// The ok following a resend request acknowledges the request, not our command
+				if (this.pendingResend !== null) {
+					this.resendFrom(this.pendingResend);
+					return;
+				}
+				const command = this.inFlight.shift();
+				if (command) {
+					clearTimeout(command.timeout);
+					command.resolve([...command.response, trimmed].join('\n'));
+				}
 				this.processQueue();
+				return;
 			}
 
 			if (response.type === 'error') {
-				if (this.currentCommand) {
-					clearTimeout(this.currentCommand.timeout);
-					this.currentCommand.reject(new Error(response.message));
-					this.currentCommand = null;
+				// Line-level transmission errors are followed by a Resend and are not fatal
+				if (this.protocol.isRecoverableError(response.message)) return;
+				const command = this.inFlight.shift();
+				if (command) {
+					clearTimeout(command.timeout);
+					command.reject(new Error(response.message));
 				}
 				this.emit('printer-error', response);
+				return;
+			}
+
+			if (response.type === 'action') {
+				this.emit('action', response.action);
+				return;
+			}
+
+			if (response.type === 'temperature' || response.type === 'position') {
+				// Auto-reports (M155/M154) arrive between any two oks; only a query's own answer belongs to its response
+				if (this.inFlight[0] && REPORT_QUERY.test(this.inFlight[0].gcode)) this.inFlight[0].response.push(trimmed);
+				return;
 			}
+
+			this.inFlight[0]?.response.push(trimmed);
 		});
 
 		this.port?.on('error', (error) => this.emit('error', error));
 		this.port?.on('close', () => {
 			this._isConnected = false;
+			this.failPending('Serial port closed');
 			this.emit('disconnected');
 		});
 	}
 
 	private parseResponse(line: string): ParsedResponse {
 		if (line.toLowerCase().startsWith('ok')) return { type: 'ok' };
+		const resendLine = this.protocol.parseResend(line);
+		if (resendLine !== null) return { type: 'resend', line: resendLine };
 		if (line.toLowerCase().startsWith('error')) return { type: 'error', message: line };
+		const action = parseHostAction(line);
+		if (action) return { type: 'action', action };
 
 		// M105 style temperature: T:xxx /xxx B:xxx /xxx ...
 		if (/\bT:\s*[-\d.]+/.test(line) || /B:\s*[-\d.]+/.test(line)) {
@@ -107,6 +200,8 @@ export class SerialManager extends EventEmitter {
 				hotendTarget: num(/T:\s*[\-\d.]+\s*\/\s*([\-\d.]+)/),
 				bedTemp: num(/B:\s*([\-\d.]+)/),
 				bedTarget: num(/B:\s*[\-\d.]+\s*\/\s*([\-\d.]+)/),
+				chamberTemp: num(/C:\s*([\-\d.]+)/),
+				chamberTarget: num(/C:\s*[\-\d.]+\s*\/\s*([\-\d.]+)/),
 			};
 			return { type: 'temperature', data };
 		}
@@ -114,7 +209,7 @@ export class SerialManager extends EventEmitter {
 		// M114 position: X:.. Y:.. Z:.. E:..
 		if (/X:\s*[-\d.]+/.test(line) && /Y:\s*[-\d.]+/.test(line)) {
 			const num = (axis: string) => {
-				const m = line.match(new RegExp(axis + ':\s*([\-\d.]+)'));
+				const m = line.match(new RegExp(`\\b${axis}:\\s*([\\-\\d.]+)`));
 				return m ? parseFloat(m[1]) : undefined;
 			};
 			const data = { x: num('X'), y: num('Y'), z: num('Z'), e: num('E') };
@@ -128,41 +223,119 @@ export class SerialManager extends EventEmitter {
 		if (!this.port || !this.port.isOpen) throw new Error('Serial port not connected');
 
 		return new Promise((resolve, reject) => {
-			const command: Command = {
-				gcode,
-				resolve,
-				reject,
-				timestamp: Date.now(),
-			};
+			const command = this.createCommand(gcode, resolve, reject, timeoutMs);
+			if (priority) this.commandQueue.unshift(command);
+			else this.commandQueue.push(command);
 
+			this.processQueue();
+		});
+	}
+
+	/**
+	 * Writes a command the firmware's emergency parser acts on as soon as it arrives (M108,
+	 * M410, M876), even while a blocking command such as M0 or M600 holds the in-flight
+	 * window. The firmware still answers it with an ok in order, so it is tracked in flight;
+	 * that ok only comes after the blocking command finishes, hence no timeout by default.
+	 */
+	async sendEmergency(gcode: string, timeoutMs = 0): Promise<any> {
+		if (!this.port || !this.port.isOpen) throw new Error('Serial port not connected');
+
+		return new Promise((resolve, reject) => {
+			const command = this.createCommand(gcode, resolve, reject, timeoutMs);
+			const framed = this.protocol.frame(gcode);
+			command.line = framed.line;
+			this.inFlight.push(command);
+			this.port?.write(framed.data + '\n');
+		});
+	}
+
+	private createCommand(gcode: string, resolve: (value: any) => void, reject: (reason?: any) => void, timeoutMs: number): Command {
+		const command: Command = {
+			gcode,
+			resolve,
+			reject,
+			timestamp: Date.now(),
+			response: [],
+		};
+
+		// A timeout of 0 waits indefinitely (long moves, heat-up and homing while printing).
+		// A command already written stays in flight: the firmware still owes it an ok, and dropping it
+		// would hand that ok to the next command. Only the caller stops waiting.
+		if (timeoutMs > 0) {
 			command.timeout = setTimeout(() => {
-				if (this.currentCommand === command) this.currentCommand = null;
+				this.commandQueue = this.commandQueue.filter((c) => c !== command);
 				reject(new Error(`Command timeout: ${gcode}`));
-				this.processQueue();
 			}, timeoutMs);
+		}
+		return command;
+	}
 
-			if (priority) this.commandQueue.unshift(command);
-			else this.commandQueue.push(command);
+	private processQueue() {
+		while (this._isConnected && this.inFlight.length < this.maxInFlight && this.commandQueue.length > 0) {
+			// M110 changes the numbering of every later line, so it never shares the wire
+			if (this.inFlight.length > 0 && PrinterProtocol.isLineReset(this.commandQueue[0].gcode)) return;
+			const command = this.commandQueue.shift()!;
+			const framed = PrinterProtocol.isLineReset(command.gcode)
+				? this.protocol.reset()
+				: this.protocol.frame(command.gcode);
+			command.line = framed.line;
+			this.inFlight.push(command);
+			this.port?.write(framed.data + '\n');
+		}
+	}
 
+	private resendFrom(line: number) {
+		this.pendingResend = null;
+		if (this.lastResend?.line === line && this.lastResend.swallow > 0) {
+			this.lastResend.swallow--;
+			return;
+		}
+		const lines = this.protocol.linesFrom(line);
+		if (lines === null) {
+			const message = `Printer requested resend of line ${line} which is no longer in the history`;
+			for (const command of this.inFlight) {
+				clearTimeout(command.timeout);
+				command.reject(new Error(message));
+			}
+			this.inFlight = [];
+			this.lastResend = null;
+			this.emit('printer-error', { type: 'error', message });
 			this.processQueue();
-		});
+			return;
+		}
+		this.lastResend = { line, swallow: Math.max(0, lines.length - 1) };
+		this.emit('resend', { line, count: lines.length });
+		for (const data of lines) this.port?.write(data + '\n');
 	}
 
-	private processQueue() {
-		if (!this._isConnected || this.currentCommand || this.commandQueue.length === 0) return;
-		this.currentCommand = this.commandQueue.shift()!;
-		this.port?.write(this.currentCommand.gcode + '\n');
+	// Drops commands that have not been written yet; in-flight ones still get their ok
+	clearQueue(reason = 'Command queue cleared') {
+		for (const command of this.commandQueue) {
+			clearTimeout(command.timeout);
+			command.reject(new Error(reason));
+		}
+		this.commandQueue = [];
+	}
+
+	private failPending(reason: string) {
+		this.clearQueue(reason);
+		for (const command of this.inFlight) {
+			clearTimeout(command.timeout);
+			command.reject(new Error(reason));
+		}
+		this.inFlight = [];
+		this.pendingResend = null;
+		this.lastResend = null;
 	}
 
 	async emergencyStop() {
-		this.commandQueue = [];
-		this.currentCommand = null;
+		this.failPending('Emergency stop');
 		this.port?.write('M112\n');
 	}
 
 	async disconnect() {
 		this._isConnected = false;
-		this.commandQueue = [];
+		this.failPending('Printer disconnected');
 		if (this.port?.isOpen) {
 			await new Promise<void>((resolve) => this.port?.close(() => resolve()));
 		}
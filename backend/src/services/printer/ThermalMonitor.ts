@@ -0,0 +1,272 @@
+import EventEmitter from 'events';
+import { prisma } from '../../lib/prisma';
+import type { TemperatureData } from './PrinterService';
+
+export type Heater = 'hotend' | 'bed' | 'chamber';
+
+export type HeaterThresholds = {
+	enabled: boolean;
+	heatingPeriodSec: number; // while heating, the reading must rise by minRise within this period
+	minRise: number;
+	hysteresis: number; // allowed deviation from target once it has been reached
+	holdPeriodSec: number; // how long the reading may stay outside the hysteresis band
+	minTemp: number; // readings outside min/max are treated as a broken or disconnected sensor
+	maxTemp: number;
+	maxRate: number; // largest plausible change in °C per second between two readings
+	sensorTimeoutSec: number; // a heater with a target must report at least this often
+};
+
+export type ThermalConfig = Record<Heater, HeaterThresholds>;
+
+export type ThermalFaultReason = 'not-heating' | 'drift' | 'implausible' | 'sensor-timeout';
+
+export type ThermalFault = {
+	heater: Heater;
+	reason: ThermalFaultReason;
+	message: string;
+	temperature?: number;
+	target?: number;
+	timestamp: number;
+};
+
+// cooling: the target was lowered below the reading, the hold watch starts once it is back in the band
+type HeaterPhase = 'idle' | 'heating' | 'cooling' | 'holding';
+
+type HeaterState = {
+	phase: HeaterPhase;
+	target: number;
+	lastTemp?: number;
+	lastReading: number;
+	watchTemp: number;
+	watchStart: number;
+	outOfBandSince?: number;
+};
+
+const CONFIG_KEY = 'safety.thermal';
+const TIMEOUT_CHECK_MS = 5000;
+
+export const DEFAULT_THERMAL_CONFIG: ThermalConfig = {
+	hotend: {
+		enabled: true,
+		heatingPeriodSec: 20,
+		minRise: 2,
+		hysteresis: 4,
+		holdPeriodSec: 40,
+		minTemp: 5,
+		maxTemp: 285,
+		maxRate: 20,
+		sensorTimeoutSec: 30,
+	},
+	bed: {
+		enabled: true,
+		heatingPeriodSec: 60,
+		minRise: 2,
+		hysteresis: 4,
+		holdPeriodSec: 60,
+		minTemp: 5,
+		maxTemp: 125,
+		maxRate: 10,
+		sensorTimeoutSec: 30,
+	},
+	chamber: {
+		enabled: true,
+		heatingPeriodSec: 120,
+		minRise: 1,
+		hysteresis: 5,
+		holdPeriodSec: 180,
+		minTemp: 5,
+		maxTemp: 85,
+		maxRate: 5,
+		sensorTimeoutSec: 60,
+	},
+};
+
+const HEATERS: Heater[] = ['hotend', 'bed', 'chamber'];
+
+/**
+ * Host-side heater watchdog fed with every temperature report. It mirrors Marlin's
+ * thermal protection: a heater must keep rising while it heats, must stay within the
+ * hysteresis band once at target, and must report plausible values. The first fault
+ * is latched and emitted as 'fault' until reset() is called.
+ */
+export class ThermalMonitor extends EventEmitter {
+	private config: ThermalConfig = structuredClone(DEFAULT_THERMAL_CONFIG);
+	private heaters = new Map<Heater, HeaterState>();
+	private fault: ThermalFault | null = null;
+	private timer?: NodeJS.Timeout;
+	// Polled M105 answers wait behind blocking commands (G28, G29, M109), so silence only means a fault when reports are pushed
+	private reportsPushed = false;
+
+	constructor(private readonly printerId: string) {
+		super();
+	}
+
+	async load(): Promise<void> {
+		const setting = await prisma.printerSettings.findUnique({
+			where: { printerId_key: { printerId: this.printerId, key: CONFIG_KEY } },
+		});
+		if (setting?.value && typeof setting.value === 'object') this.config = this.merge(setting.value as Partial<ThermalConfig>);
+	}
+
+	getConfig(): ThermalConfig {
+		return structuredClone(this.config);
+	}
+
+	async updateConfig(partial: Partial<Record<Heater, Partial<HeaterThresholds>>>): Promise<ThermalConfig> {
+		const config = this.merge(partial, this.config);
+		await prisma.printerSettings.upsert({
+			where: { printerId_key: { printerId: this.printerId, key: CONFIG_KEY } },
+			update: { value: config },
+			create: {
+				printerId: this.printerId,
+				key: CONFIG_KEY,
+				value: config,
+				category: 'safety',
+				description: 'Host-side thermal protection thresholds per heater',
+			},
+		});
+		this.config = config;
+		return this.getConfig();
+	}
+
+	get activeFault() {
+		return this.fault;
+	}
+
+	start() {
+		if (this.timer) return;
+		this.timer = setInterval(() => this.checkTimeouts(), TIMEOUT_CHECK_MS);
+	}
+
+	stop() {
+		if (this.timer) clearInterval(this.timer);
+		this.timer = undefined;
+	}
+
+	// Whether temperatures arrive on their own (M155 auto-reports, Moonraker); the sensor timeout only applies then
+	setReportsPushed(pushed: boolean, now = Date.now()) {
+		if (pushed && !this.reportsPushed) {
+			// Silence from before the reports started does not count
+			for (const state of this.heaters.values()) state.lastReading = now;
+		}
+		this.reportsPushed = pushed;
+	}
+
+	// Clears the latched fault and forgets heater history (after M999 or a reconnect)
+	reset() {
+		this.fault = null;
+		this.heaters.clear();
+	}
+
+	update(temperatures: TemperatureData, now = Date.now()) {
+		if (this.fault) return;
+		this.check('hotend', temperatures.hotendTemp, temperatures.hotendTarget, now);
+		this.check('bed', temperatures.bedTemp, temperatures.bedTarget, now);
+		this.check('chamber', temperatures.chamberTemp, temperatures.chamberTarget, now);
+	}
+
+	private check(heater: Heater, temp: number | undefined, target: number | undefined, now: number) {
+		const limits = this.config[heater];
+		if (!limits.enabled || temp === undefined || this.fault) return;
+
+		const state = this.heaters.get(heater);
+		if (!Number.isFinite(temp) || temp < limits.minTemp || temp > limits.maxTemp) {
+			// A cold heater reading below minTemp is only suspicious once it is asked to heat
+			if (temp < limits.minTemp && !(target && target > 0)) return;
+			return this.trip(heater, 'implausible', `${this.label(heater)} sensor reading ${temp}°C is out of range`, temp, target);
+		}
+		if (state?.lastTemp !== undefined) {
+			const elapsed = Math.max((now - state.lastReading) / 1000, 1);
+			if (Math.abs(temp - state.lastTemp) / elapsed > limits.maxRate) {
+				return this.trip(heater, 'implausible', `${this.label(heater)} reading jumped from ${state.lastTemp}°C to ${temp}°C`, temp, target);
+			}
+		}
+
+		const goal = target ?? state?.target ?? 0;
+		const next: HeaterState = state ?? { phase: 'idle', target: 0, lastReading: now, watchTemp: temp, watchStart: now };
+		if (goal !== next.target) {
+			next.target = goal;
+			next.outOfBandSince = undefined;
+			next.watchTemp = temp;
+			next.watchStart = now;
+			if (goal <= 0) next.phase = 'idle';
+			else if (temp < goal - limits.hysteresis) next.phase = 'heating';
+			else if (temp > goal + limits.hysteresis) next.phase = 'cooling';
+			else next.phase = 'holding';
+		}
+		next.lastTemp = temp;
+		next.lastReading = now;
+		this.heaters.set(heater, next);
+
+		if (next.phase === 'heating') {
+			if (temp >= goal - limits.hysteresis) {
+				next.phase = 'holding';
+				next.outOfBandSince = undefined;
+				return;
+			}
+			if (now - next.watchStart < limits.heatingPeriodSec * 1000) return;
+			if (temp < next.watchTemp + limits.minRise) {
+				return this.trip(
+					heater,
+					'not-heating',
+					`${this.label(heater)} rose less than ${limits.minRise}°C in ${limits.heatingPeriodSec}s (${next.watchTemp}°C -> ${temp}°C, target ${goal}°C)`,
+					temp,
+					goal
+				);
+			}
+			next.watchTemp = temp;
+			next.watchStart = now;
+			return;
+		}
+
+		if (next.phase === 'cooling') {
+			if (temp > goal + limits.hysteresis) return;
+			next.phase = 'holding';
+			next.outOfBandSince = undefined;
+			return;
+		}
+
+		if (next.phase === 'holding') {
+			if (Math.abs(temp - goal) <= limits.hysteresis) {
+				next.outOfBandSince = undefined;
+				return;
+			}
+			next.outOfBandSince ??= now;
+			if (now - next.outOfBandSince >= limits.holdPeriodSec * 1000) {
+				this.trip(heater, 'drift', `${this.label(heater)} drifted to ${temp}°C while holding ${goal}°C`, temp, goal);
+			}
+		}
+	}
+
+	private checkTimeouts(now = Date.now()) {
+		if (this.fault || !this.reportsPushed) return;
+		for (const heater of HEATERS) {
+			const state = this.heaters.get(heater);
+			const limits = this.config[heater];
+			if (!limits.enabled || !state || state.target <= 0) continue;
+			if (now - state.lastReading > limits.sensorTimeoutSec * 1000) {
+				this.trip(heater, 'sensor-timeout', `${this.label(heater)} has not reported a temperature for ${limits.sensorTimeoutSec}s`, state.lastTemp, state.target);
+				return;
+			}
+		}
+	}
+
+	private trip(heater: Heater, reason: ThermalFaultReason, message: string, temperature?: number, target?: number) {
+		this.fault = { heater, reason, message, temperature, target, timestamp: Date.now() };
+		this.emit('fault', this.fault);
+	}
+
+	private label(heater: Heater) {
+		return heater.charAt(0).toUpperCase() + heater.slice(1);
+	}
+
+	private merge(partial: Partial<Record<Heater, Partial<HeaterThresholds>>>, base: ThermalConfig = DEFAULT_THERMAL_CONFIG): ThermalConfig {
+		return {
+			hotend: { ...base.hotend, ...partial.hotend },
+			bed: { ...base.bed, ...partial.bed },
+			chamber: { ...base.chamber, ...partial.chamber },
+		};
+	}
+}
+
+export default ThermalMonitor;
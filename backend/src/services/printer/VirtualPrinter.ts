@@ -0,0 +1,467 @@
+import { Duplex } from 'stream';
+import PrinterProtocol from './PrinterProtocol';
+
+export type VirtualFault = 'thermal-runaway' | 'heater-failure' | 'sensor-disconnect' | 'resend' | 'disconnect' | 'filament-runout';
+
+export type VirtualPrinterOptions = {
+	timeScale?: number; // >1 runs heating and moves faster than real time
+	resendRate?: number; // probability (0-1) that a framed line is reported as corrupted
+	ambient?: number;
+};
+
+type Heater = {
+	temp: number;
+	target: number;
+	heatTau: number; // seconds to close ~63% of the gap while heating
+	coolTau: number;
+	failed: boolean; // heater stopped producing heat (runaway / failure faults)
+	failedAt?: number;
+};
+
+type Axis = 'x' | 'y' | 'z' | 'e';
+
+const TICK_MS = 250;
+const FIRMWARE_NAME = 'Marlin 2.1.2.1 (LezerPrint Virtual)';
+
+// Capability report sent after M115, in the order real Marlin prints them
+const CAPABILITIES: Record<string, number> = {
+	SERIAL_XON_XOFF: 0,
+	BINARY_FILE_TRANSFER: 0,
+	EEPROM: 1,
+	VOLUMETRIC: 1,
+	AUTOREPORT_POS: 1,
+	AUTOREPORT_TEMP: 1,
+	PROGRESS: 0,
+	PRINT_JOB: 1,
+	AUTOLEVEL: 1,
+	RUNOUT: 1,
+	Z_PROBE: 1,
+	LEVELING_DATA: 1,
+	BUILD_PERCENT: 1,
+	SOFTWARE_POWER: 0,
+	TOGGLE_LIGHTS: 0,
+	CASE_LIGHT_BRIGHTNESS: 0,
+	EMERGENCY_PARSER: 1,
+	HOST_ACTION_COMMANDS: 1,
+	PROMPT_SUPPORT: 1,
+	SDCARD: 0,
+	REPEAT: 0,
+	SD_WRITE: 0,
+	AUTOREPORT_SD_STATUS: 0,
+	LONG_FILENAME: 0,
+	THERMAL_PROTECTION: 1,
+	MOTION_MODES: 0,
+	ARCS: 1,
+	BABYSTEPPING: 1,
+	CHAMBER_TEMPERATURE: 0,
+	COOLER_TEMPERATURE: 0,
+	MEATPACK: 0,
+};
+
+// Settings reported by M503; also the limits a real printer would plan moves with
+const EEPROM_REPORT = [
+	'echo:; Steps per unit:',
+	'echo: M92 X80.00 Y80.00 Z400.00 E93.00',
+	'echo:; Max feedrates (units/s):',
+	'echo: M203 X500.00 Y500.00 Z5.00 E25.00',
+	'echo:; Max Acceleration (units/s2):',
+	'echo: M201 X500.00 Y500.00 Z100.00 E5000.00',
+	'echo:; Acceleration (units/s2) (P<print-accel> R<retract-accel> T<travel-accel>):',
+	'echo: M204 P500.00 R500.00 T1000.00',
+	'echo:; Advanced (B<min_segment_time_us> S<min_feedrate> T<min_travel_feedrate> J<junc_dev>):',
+	'echo: M205 B20000.00 S0.00 T0.00 J0.08',
+	'echo:; Home offset:',
+	'echo: M206 X0.00 Y0.00 Z0.00',
+	'echo:; Hotend PID:',
+	'echo: M301 P21.73 I1.54 D76.55',
+	'echo:; Bed PID:',
+	'echo: M304 P70.00 I1.50 D240.00',
+];
+
+/**
+ * A simulated Marlin printer that speaks the serial protocol over an in-memory stream.
+ * SerialManager uses it in place of a SerialPort when `PRINTER_PORT=virtual`, so the
+ * whole host stack (line numbers, checksums, resends, ok flow control) is exercised.
+ */
+export class VirtualPrinter extends Duplex {
+	private _isOpen = false;
+	private input = '';
+	private queue: string[] = [];
+	private busy = false;
+	private halted = false;
+	private lastLine = 0;
+	private timer?: NodeJS.Timeout;
+	private lastTick = Date.now();
+	private timeScale: number;
+	private resendRate: number;
+	private ambient: number;
+	private forcedResends = 0;
+	private sensorDisconnected = false;
+	private autoReportTempMs = 0;
+	private autoReportPosMs = 0;
+	private lastTempReport = 0;
+	private lastPosReport = 0;
+
+	private hotend: Heater;
+	private bed: Heater;
+	private position: Record<Axis, number> = { x: 0, y: 0, z: 0, e: 0 };
+	private absolute = true;
+	private absoluteE = true;
+	private feedrate = 1500; // mm/min
+
+	constructor(options: VirtualPrinterOptions = {}) {
+		super({ autoDestroy: false, emitClose: false });
+		this.timeScale = options.timeScale ?? parseFloat(process.env.VIRTUAL_PRINTER_TIME_SCALE || '10');
+		this.resendRate = options.resendRate ?? parseFloat(process.env.VIRTUAL_PRINTER_RESEND_RATE || '0');
+		this.ambient = options.ambient ?? 22;
+		this.hotend = { temp: this.ambient, target: 0, heatTau: 25, coolTau: 90, failed: false };
+		this.bed = { temp: this.ambient, target: 0, heatTau: 70, coolTau: 240, failed: false };
+	}
+
+	get isOpen() {
+		return this._isOpen;
+	}
+
+	open(callback?: (err?: Error | null) => void) {
+		this._isOpen = true;
+		this.lastTick = Date.now();
+		this.timer = setInterval(() => this.tick(), TICK_MS);
+		// Marlin greets the host after the board resets on connect
+		setTimeout(() => {
+			this.send('start');
+			this.send(`echo:${FIRMWARE_NAME}`);
+		}, 50);
+		callback?.(null);
+	}
+
+	close(callback?: (err?: Error | null) => void) {
+		if (!this._isOpen) {
+			callback?.(null);
+			return;
+		}
+		this._isOpen = false;
+		if (this.timer) clearInterval(this.timer);
+		this.timer = undefined;
+		this.queue = [];
+		this.emit('close');
+		callback?.(null);
+	}
+
+	injectFault(fault: VirtualFault, options: { count?: number } = {}) {
+		switch (fault) {
+			case 'thermal-runaway':
+			case 'heater-failure':
+				this.hotend.failed = true;
+				this.hotend.failedAt = Date.now();
+				// Only a runaway is caught by the firmware itself; a silent failure is left to the host
+				if (fault === 'heater-failure') this.hotend.failedAt = undefined;
+				break;
+			case 'sensor-disconnect':
+				this.sensorDisconnected = true;
+				break;
+			case 'resend':
+				this.forcedResends += options.count ?? 1;
+				break;
+			case 'disconnect':
+				this.close();
+				break;
+			case 'filament-runout':
+				// Runout with host handling: ask the host to pause, then wait for the user to reload
+				this.send('//action:out_of_filament T0');
+				this.send('//action:prompt_begin FilamentRunout T0');
+				this.send('//action:prompt_choice Continue');
+				this.send('//action:prompt_show');
+				break;
+		}
+	}
+
+	clearFaults() {
+		this.hotend.failed = false;
+		this.hotend.failedAt = undefined;
+		this.sensorDisconnected = false;
+		this.forcedResends = 0;
+	}
+
+	getState() {
+		return {
+			halted: this.halted,
+			hotend: { ...this.hotend },
+			bed: { ...this.bed },
+			position: { ...this.position },
+			lastLine: this.lastLine,
+		};
+	}
+
+	_read() {}
+
+	_write(chunk: Buffer | string, _encoding: BufferEncoding, callback: (error?: Error | null) => void) {
+		if (!this._isOpen) return callback(new Error('Port is not open'));
+		this.input += chunk.toString();
+		let newline: number;
+		while ((newline = this.input.indexOf('\n')) !== -1) {
+			const line = this.input.slice(0, newline).trim();
+			this.input = this.input.slice(newline + 1);
+			if (!line) continue;
+			// EMERGENCY_PARSER: M112 acts immediately, even with commands still queued
+			if (/(^|\s)M112\b/i.test(line)) this.kill('Printer halted. kill() called!');
+			else this.queue.push(line);
+		}
+		this.processQueue();
+		callback();
+	}
+
+	private send(line: string) {
+		if (this._isOpen) this.push(line + '\n');
+	}
+
+	private requestResend(error: string) {
+		this.send(`Error:${error}, Last Line: ${this.lastLine}`);
+		this.send(`Resend: ${this.lastLine + 1}`);
+		this.send('ok');
+	}
+
+	private async processQueue() {
+		if (this.busy) return;
+		this.busy = true;
+		try {
+			while (this.queue.length && this._isOpen) {
+				const line = this.queue.shift()!;
+				const command = this.unframe(line);
+				if (command === null) continue;
+				if (this.halted && !/^M999\b/i.test(command)) {
+					this.send('Error:Printer halted. kill() called!');
+					continue;
+				}
+				await this.execute(command);
+			}
+		} finally {
+			this.busy = false;
+		}
+	}
+
+	// Validates `N<line> ... *<checksum>` framing; null means the line was rejected
+	private unframe(line: string): string | null {
+		if (!/^N-?\d+/i.test(line)) return line.replace(/;.*$/, '').trim();
+
+		const star = line.lastIndexOf('*');
+		if (star === -1) {
+			this.requestResend('No Checksum with line number');
+			return null;
+		}
+		const payload = line.slice(0, star);
+		const checksum = parseInt(line.slice(star + 1), 10);
+		const match = payload.match(/^N(-?\d+)\s+(.*)$/i);
+		if (!match) {
+			this.requestResend('Format error');
+			return null;
+		}
+		const lineNumber = parseInt(match[1], 10);
+		const command = match[2].trim();
+
+		if (PrinterProtocol.isLineReset(command)) {
+			const n = command.match(/\bN(-?\d+)/i);
+			this.lastLine = n ? parseInt(n[1], 10) : lineNumber;
+			this.send('ok');
+			return null;
+		}
+
+		const corrupted =
+			checksum !== PrinterProtocol.checksum(payload) || this.forcedResends > 0 || Math.random() < this.resendRate;
+		if (lineNumber !== this.lastLine + 1) {
+			this.requestResend('Line Number is not Last Line Number+1');
+			return null;
+		}
+		if (corrupted) {
+			if (this.forcedResends > 0) this.forcedResends--;
+			this.requestResend('checksum mismatch');
+			return null;
+		}
+		this.lastLine = lineNumber;
+		return command;
+	}
+
+	private async execute(command: string) {
+		const code = (command.match(/^[GMT]\d+/i)?.[0] || '').toUpperCase();
+		const param = (letter: string) => {
+			const m = command.match(new RegExp(`\\b${letter}(-?[\\d.]+)`, 'i'));
+			return m ? parseFloat(m[1]) : undefined;
+		};
+
+		switch (code) {
+			case 'G0':
+			case 'G1':
+			case 'G2':
+			case 'G3':
+				await this.move(param);
+				break;
+			case 'G4':
+				await this.wait(((param('S') ?? 0) * 1000 + (param('P') ?? 0)) / this.timeScale);
+				break;
+			case 'G28': {
+				const axes = (['x', 'y', 'z'] as Axis[]).filter((a) => new RegExp(`\\b${a}`, 'i').test(command.slice(3)));
+				for (const axis of axes.length ? axes : (['x', 'y', 'z'] as Axis[])) this.position[axis] = 0;
+				await this.wait(3000 / this.timeScale);
+				break;
+			}
+			case 'G29':
+				await this.wait(20000 / this.timeScale);
+				this.send('Bilinear Leveling Grid:');
+				break;
+			case 'G90':
+				this.absolute = true;
+				this.absoluteE = true;
+				break;
+			case 'G91':
+				this.absolute = false;
+				this.absoluteE = false;
+				break;
+			case 'G92':
+				for (const axis of ['x', 'y', 'z', 'e'] as Axis[]) {
+					const value = param(axis.toUpperCase());
+					if (value !== undefined) this.position[axis] = value;
+				}
+				if (!/[XYZE]/i.test(command.slice(3))) this.position = { x: 0, y: 0, z: 0, e: 0 };
+				break;
+			case 'M82':
+				this.absoluteE = true;
+				break;
+			case 'M83':
+				this.absoluteE = false;
+				break;
+			case 'M104':
+			case 'M109':
+				this.hotend.target = param('S') ?? param('R') ?? 0;
+				if (code === 'M109') await this.waitForHeater(this.hotend);
+				break;
+			case 'M140':
+			case 'M190':
+				this.bed.target = param('S') ?? param('R') ?? 0;
+				if (code === 'M190') await this.waitForHeater(this.bed);
+				break;
+			case 'M105':
+				this.send(`ok ${this.temperatureReport()}`);
+				return;
+			case 'M114':
+				this.send(this.positionReport());
+				break;
+			case 'M115':
+				this.send(
+					`FIRMWARE_NAME:${FIRMWARE_NAME} SOURCE_CODE_URL:github.com/MarlinFirmware/Marlin PROTOCOL_VERSION:1.0 MACHINE_TYPE:LezerPrint Virtual EXTRUDER_COUNT:1 UUID:cede2a2f-41a2-4748-9b12-c55c62f367ff`
+				);
+				for (const [cap, enabled] of Object.entries(CAPABILITIES)) this.send(`Cap:${cap}:${enabled}`);
+				break;
+			case 'M119':
+				this.send('Reporting endstop status');
+				this.send(`x_min: ${this.position.x <= 0 ? 'TRIGGERED' : 'open'}`);
+				this.send(`y_min: ${this.position.y <= 0 ? 'TRIGGERED' : 'open'}`);
+				this.send(`z_min: ${this.position.z <= 0 ? 'TRIGGERED' : 'open'}`);
+				this.send('filament: open');
+				break;
+			case 'M154':
+				this.autoReportPosMs = (param('S') ?? 0) * 1000;
+				break;
+			case 'M155':
+				this.autoReportTempMs = (param('S') ?? 0) * 1000;
+				break;
+			case 'M503':
+				for (const line of EEPROM_REPORT) this.send(line);
+				break;
+			case 'M999':
+				this.halted = false;
+				break;
+			case 'M17':
+			case 'M18':
+			case 'M84':
+			case 'M106':
+			case 'M107':
+			case 'M110':
+			case 'M117':
+			case 'M220':
+			case 'M221':
+			case 'M400':
+			case 'M500':
+				break;
+			case 'M876':
+				this.send('//action:prompt_end');
+				break;
+			default:
+				this.send(`echo:Unknown command: "${command}"`);
+		}
+		this.send('ok');
+	}
+
+	private async move(param: (letter: string) => number | undefined) {
+		const feed = param('F');
+		if (feed) this.feedrate = feed;
+		const from = { ...this.position };
+		for (const axis of ['x', 'y', 'z', 'e'] as Axis[]) {
+			const value = param(axis.toUpperCase());
+			if (value === undefined) continue;
+			const relative = axis === 'e' ? !this.absoluteE : !this.absolute;
+			this.position[axis] = relative ? this.position[axis] + value : value;
+		}
+		const distance = Math.hypot(this.position.x - from.x, this.position.y - from.y, this.position.z - from.z) || Math.abs(this.position.e - from.e);
+		await this.wait(((distance / this.feedrate) * 60000) / this.timeScale);
+	}
+
+	private async waitForHeater(heater: Heater) {
+		while (this._isOpen && !this.halted && Math.abs(heater.temp - heater.target) > 1 && heater.target > 0) {
+			await this.wait(1000);
+			// Marlin prints temperatures once per second while it blocks on M109/M190
+			this.send(`${this.temperatureReport()} W:?`);
+		}
+	}
+
+	private temperatureReport() {
+		const t = (heater: Heater) => (this.sensorDisconnected && heater === this.hotend ? -14 : heater.temp).toFixed(2);
+		return `T:${t(this.hotend)} /${this.hotend.target.toFixed(2)} B:${t(this.bed)} /${this.bed.target.toFixed(2)} @:${this.hotend.target > 0 ? 127 : 0} B@:${this.bed.target > 0 ? 127 : 0}`;
+	}
+
+	private positionReport() {
+		const p = this.position;
+		return `X:${p.x.toFixed(2)} Y:${p.y.toFixed(2)} Z:${p.z.toFixed(2)} E:${p.e.toFixed(2)} Count X:${Math.round(p.x * 80)} Y:${Math.round(p.y * 80)} Z:${Math.round(p.z * 400)}`;
+	}
+
+	private tick() {
+		const now = Date.now();
+		const dt = ((now - this.lastTick) / 1000) * this.timeScale;
+		this.lastTick = now;
+
+		for (const heater of [this.hotend, this.bed]) {
+			const heating = heater.target > 0 && !heater.failed && !this.halted;
+			const goal = heating ? heater.target : this.ambient;
+			const tau = heating ? heater.heatTau : heater.coolTau;
+			heater.temp += (goal - heater.temp) * (1 - Math.exp(-dt / tau));
+			heater.temp += (Math.random() - 0.5) * 0.2; // sensor noise
+		}
+
+		// Firmware thermal protection trips a while after the heater stops responding
+		if (this.hotend.failedAt && !this.halted && (now - this.hotend.failedAt) * this.timeScale > 40000 && this.hotend.target > 0) {
+			this.send('Error:Thermal Runaway, system stopped! Heater_ID: 0');
+			this.kill('Printer halted. kill() called!');
+		}
+
+		if (this.autoReportTempMs && now - this.lastTempReport >= this.autoReportTempMs) {
+			this.lastTempReport = now;
+			this.send(this.temperatureReport());
+		}
+		if (this.autoReportPosMs && now - this.lastPosReport >= this.autoReportPosMs) {
+			this.lastPosReport = now;
+			this.send(this.positionReport());
+		}
+	}
+
+	private kill(message: string) {
+		this.halted = true;
+		this.queue = [];
+		this.hotend.target = 0;
+		this.bed.target = 0;
+		this.send(`Error:${message}`);
+	}
+
+	private wait(ms: number) {
+		return new Promise<void>((resolve) => setTimeout(resolve, Math.max(0, ms)));
+	}
+}
+
+export default VirtualPrinter;
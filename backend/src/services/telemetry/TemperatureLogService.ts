@@ -0,0 +1,198 @@
+import { prisma } from '../../lib/prisma';
+import type PrinterService from '../printer/PrinterService';
+import { TemperatureData } from '../printer/PrinterService';
+
+export interface TemperaturePoint {
+  timestamp: Date;
+  hotendTemp: number;
+  hotendTarget: number;
+  bedTemp: number;
+  bedTarget: number;
+  chamberTemp: number | null;
+}
+
+type Sample = TemperaturePoint & { jobId: string };
+
+const SAMPLE_INTERVAL_MS = 2000;
+const FLUSH_INTERVAL_MS = 30000;
+const FLUSH_BATCH_SIZE = 50;
+const MAINTENANCE_INTERVAL_MS = 60 * 60 * 1000;
+// Finished jobs keep one sample per bucket once they are older than the full-resolution window
+const COMPACT_BUCKET_MS = 60 * 1000;
+const COMPACT_BATCH_SIZE = 5000;
+// Curves returned without an explicit resolution are limited to roughly this many points
+const DEFAULT_MAX_POINTS = 500;
+
+const days = (value: string | undefined, fallback: number) => {
+  const parsed = parseFloat(value || '');
+  return Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+/**
+ * Records the temperature samples each printer reports while one of its jobs is printing.
+ * Samples are buffered and written in batches; old logs are compacted to one sample
+ * per minute and eventually deleted according to the retention settings.
+ */
+export class TemperatureLogService {
+  private buffer: Sample[] = [];
+  private lastSample = new Map<string, number>();
+  private flushing: Promise<void> | null = null;
+  private timers: NodeJS.Timeout[] = [];
+
+  private fullResolutionMs = days(process.env.TEMPERATURE_FULL_RESOLUTION_DAYS, 7) * 24 * 60 * 60 * 1000;
+  private retentionMs = days(process.env.TEMPERATURE_RETENTION_DAYS, 90) * 24 * 60 * 60 * 1000;
+
+  init(): void {
+    this.timers.push(setInterval(() => this.flush(), FLUSH_INTERVAL_MS));
+    this.timers.push(setInterval(() => this.maintain(), MAINTENANCE_INTERVAL_MS));
+    this.maintain();
+  }
+
+  bindPrinter(printer: PrinterService): void {
+    printer.on('temperature', (temperatures: TemperatureData) => this.record(printer, temperatures));
+    printer.on('job-finished', () => this.flush());
+  }
+
+  stop(): void {
+    this.timers.forEach((timer) => clearInterval(timer));
+    this.timers = [];
+  }
+
+  record(printer: PrinterService, temperatures: TemperatureData): void {
+    const jobId = printer.currentJobId;
+    if (!jobId || printer.getStatus().state !== 'printing') return;
+    if (temperatures.hotendTemp === undefined || temperatures.bedTemp === undefined) return;
+
+    const now = Date.now();
+    if (now - (this.lastSample.get(printer.id) ?? 0) < SAMPLE_INTERVAL_MS) return;
+    this.lastSample.set(printer.id, now);
+
+    this.buffer.push({
+      jobId,
+      timestamp: new Date(now),
+      hotendTemp: temperatures.hotendTemp,
+      hotendTarget: temperatures.hotendTarget ?? 0,
+      bedTemp: temperatures.bedTemp,
+      bedTarget: temperatures.bedTarget ?? 0,
+      chamberTemp: temperatures.chamberTemp ?? null,
+    });
+    if (this.buffer.length >= FLUSH_BATCH_SIZE) this.flush();
+  }
+
+  async flush(): Promise<void> {
+    if (this.flushing) return this.flushing;
+    if (this.buffer.length === 0) return;
+
+    const batch = this.buffer;
+    this.buffer = [];
+    this.flushing = prisma.temperatureLog
+      .createMany({ data: batch })
+      .then(() => undefined)
+      .catch((error) => console.error('Temperature log flush error:', error))
+      .finally(() => {
+        this.flushing = null;
+      });
+    return this.flushing;
+  }
+
+  /**
+   * Temperature curve for a job, averaged into buckets of `resolution` seconds.
+   * Without a resolution the bucket size is chosen so the curve has at most ~500 points.
+   */
+  async getCurve(jobId: string, resolution?: number): Promise<{ resolution: number; points: TemperaturePoint[] }> {
+    await this.flush();
+    const logs = await prisma.temperatureLog.findMany({
+      where: { jobId },
+      orderBy: { timestamp: 'asc' },
+      select: {
+        timestamp: true,
+        hotendTemp: true,
+        hotendTarget: true,
+        bedTemp: true,
+        bedTarget: true,
+        chamberTemp: true,
+      },
+    });
+    if (logs.length === 0) return { resolution: resolution ?? SAMPLE_INTERVAL_MS / 1000, points: [] };
+
+    const span = logs[logs.length - 1].timestamp.getTime() - logs[0].timestamp.getTime();
+    const bucketSeconds = resolution ?? Math.max(SAMPLE_INTERVAL_MS / 1000, Math.ceil(span / 1000 / DEFAULT_MAX_POINTS));
+    return { resolution: bucketSeconds, points: this.downsample(logs, bucketSeconds * 1000) };
+  }
+
+  private downsample(logs: TemperaturePoint[], bucketMs: number): TemperaturePoint[] {
+    const points: TemperaturePoint[] = [];
+    let bucket: TemperaturePoint[] = [];
+    let bucketStart = 0;
+
+    const close = () => {
+      if (bucket.length === 0) return;
+      const avg = (pick: (log: TemperaturePoint) => number) =>
+        Math.round((bucket.reduce((sum, log) => sum + pick(log), 0) / bucket.length) * 100) / 100;
+      const chambers = bucket.filter((log) => log.chamberTemp !== null);
+      points.push({
+        timestamp: new Date(bucketStart),
+        hotendTemp: avg((log) => log.hotendTemp),
+        hotendTarget: bucket[bucket.length - 1].hotendTarget,
+        bedTemp: avg((log) => log.bedTemp),
+        bedTarget: bucket[bucket.length - 1].bedTarget,
+        chamberTemp: chambers.length
+          ? Math.round((chambers.reduce((sum, log) => sum + log.chamberTemp!, 0) / chambers.length) * 100) / 100
+          : null,
+      });
+      bucket = [];
+    };
+
+    for (const log of logs) {
+      const start = Math.floor(log.timestamp.getTime() / bucketMs) * bucketMs;
+      if (start !== bucketStart) {
+        close();
+        bucketStart = start;
+      }
+      bucket.push(log);
+    }
+    close();
+    return points;
+  }
+
+  // Applies the retention policy: delete expired logs, then thin out old full-resolution ones
+  async maintain(): Promise<void> {
+    try {
+      const now = Date.now();
+      await prisma.temperatureLog.deleteMany({ where: { timestamp: { lt: new Date(now - this.retentionMs) } } });
+
+      // Aligned to a bucket boundary so a bucket is never split between two passes
+      const compactBefore = new Date(Math.floor((now - this.fullResolutionMs) / COMPACT_BUCKET_MS) * COMPACT_BUCKET_MS);
+
+      // Each batch marks its kept samples compacted and deletes the rest, so the next query starts after it
+      let previousKey = '';
+      for (;;) {
+        const logs = await prisma.temperatureLog.findMany({
+          where: { compacted: false, timestamp: { lt: compactBefore } },
+          orderBy: [{ jobId: 'asc' }, { timestamp: 'asc' }, { id: 'asc' }],
+          select: { id: true, jobId: true, timestamp: true },
+          take: COMPACT_BATCH_SIZE,
+        });
+        if (logs.length === 0) break;
+
+        const kept: string[] = [];
+        const redundant: string[] = [];
+        for (const log of logs) {
+          const key = `${log.jobId}:${Math.floor(log.timestamp.getTime() / COMPACT_BUCKET_MS)}`;
+          if (key === previousKey) redundant.push(log.id);
+          else kept.push(log.id);
+          previousKey = key;
+        }
+        await prisma.$transaction([
+          prisma.temperatureLog.deleteMany({ where: { id: { in: redundant } } }),
+          prisma.temperatureLog.updateMany({ where: { id: { in: kept } }, data: { compacted: true } }),
+        ]);
+        if (logs.length < COMPACT_BATCH_SIZE) break;
+      }
+    } catch (error) {
+      console.error('Temperature log maintenance error:', error);
+    }
+  }
+}
+
+export const temperatureLogService = new TemperatureLogService();
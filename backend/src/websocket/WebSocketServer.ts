@@ -1,7 +1,14 @@
 import { Server as SocketIOServer } from 'socket.io';
 import { Server as HTTPServer } from 'http';
 import jwt from 'jsonwebtoken';
+import { PrintEvent } from '@prisma/client';
 import { prisma } from '../lib/prisma';
+import PrinterService, { JobProgress, TemperatureData as PrinterTemperatures } from '../services/printer/PrinterService';
+import { QueueState } from '../services/jobs/QueueService';
+import { ThermalFault } from '../services/printer/ThermalMonitor';
+import { HostAction, HostPrompt } from '../services/printer/HostActions';
+import { printerRegistry } from '../services/printer/PrinterRegistry';
+import { chunkedUploadService, MAX_CHUNK_SIZE, UploadError } from '../services/files/ChunkedUploadService';
 
 export interface ClientInfo {
   userId?: string;
@@ -12,6 +19,8 @@ export interface ClientInfo {
 }
 
 export interface PrinterStatus {
+  printerId: string;
+  name: string;
   state: 'idle' | 'printing' | 'paused' | 'error';
   temperatures: {
     hotend: { actual: number; target: number };
@@ -28,6 +37,7 @@ export interface PrinterStatus {
 }
 
 export interface TemperatureData {
+  printerId: string;
   hotend: { actual: number; target: number };
   bed: { actual: number; target: number };
   chamber?: { actual: number; target: number };
@@ -35,6 +45,7 @@ export interface TemperatureData {
 }
 
 export interface ProgressData {
+  printerId: string;
   jobId: string;
   progress: number;
   layer?: number;
@@ -53,31 +64,106 @@ export interface Alert {
   metadata?: any;
 }
 
+export interface WebSocketServerOptions {
+  origins?: string[];
+}
+
+type PrinterTarget = { printerId?: string };
+
+export type PrinterChannel = 'status' | 'temperature' | 'camera';
+
+// Per-printer subscription rooms, e.g. printer:<id>:status
+export const printerRoom = (printerId: string, channel: PrinterChannel) => `printer:${printerId}:${channel}`;
+
 export class WebSocketServer {
   private io: SocketIOServer;
   private clients: Map<string, ClientInfo> = new Map();
   private rooms = {
     authenticated: 'authenticated',
     demo: 'demo',
-    statusUpdates: 'status-updates',
-    temperatureUpdates: 'temperature-updates',
-    cameraStream: 'camera-stream',
   };
 
-  constructor(httpServer: HTTPServer) {
+  constructor(httpServer: HTTPServer, options: WebSocketServerOptions = {}) {
     this.io = new SocketIOServer(httpServer, {
       cors: {
-        origin: process.env.FRONTEND_URL || "http://localhost:3000",
+        origin: options.origins || process.env.FRONTEND_URL || "http://localhost:3000",
         methods: ["GET", "POST"],
         credentials: true,
       },
       transports: ['websocket', 'polling'],
+      // Room for one upload chunk plus its envelope
+      maxHttpBufferSize: MAX_CHUNK_SIZE + 64 * 1024,
     });
 
     this.setupMiddleware();
     this.setupEventHandlers();
   }
 
+  public getIO(): SocketIOServer {
+    return this.io;
+  }
+
+  // Streams live printer telemetry and job progress to clients subscribed to that printer
+  public bindPrinter(printer: PrinterService): void {
+    printer.on('temperature', (t: PrinterTemperatures) => {
+      this.broadcastTemperature(this.toTemperatureData(printer.id, t));
+    });
+
+    printer.on('position', () => {
+      this.broadcastStatus(this.getPrinterStatus(printer));
+    });
+
+    printer.on('status', () => {
+      this.broadcastStatus(this.getPrinterStatus(printer));
+    });
+
+    printer.on('progress', (progress: JobProgress) => {
+      this.broadcastProgress({
+        printerId: printer.id,
+        jobId: progress.jobId,
+        progress: progress.progress,
+        layer: progress.layer,
+        totalLayers: progress.totalLayers,
+        estimatedTime: progress.estimatedTime,
+        remainingTime: progress.remainingTime,
+        timestamp: Date.now(),
+      });
+    });
+
+    printer.on('thermal-fault', (fault: ThermalFault & { jobId: string | null }) => {
+      this.broadcastAlert({
+        id: `thermal_${fault.timestamp}`,
+        type: 'critical',
+        title: 'Thermal runaway protection',
+        message: `${fault.message}. ${printer.name} was emergency stopped.`,
+        timestamp: fault.timestamp,
+        metadata: { printerId: printer.id, heater: fault.heater, reason: fault.reason, temperature: fault.temperature, target: fault.target, jobId: fault.jobId },
+      });
+    });
+
+    printer.on('host-action', ({ action, jobId, runout }: { action: HostAction; jobId: string | null; runout: boolean }) => {
+      if (!runout) return;
+      this.broadcastAlert({
+        id: `runout_${Date.now()}`,
+        type: 'warning',
+        title: 'Filament runout',
+        message: jobId
+          ? `The print on ${printer.name} was paused. Load filament and resume.`
+          : `The filament sensor on ${printer.name} reports no filament.`,
+        timestamp: Date.now(),
+        metadata: { printerId: printer.id, jobId, action: action.type },
+      });
+    });
+
+    printer.on('prompt', (prompt: HostPrompt) => {
+      this.io.to(this.rooms.authenticated).emit('printer:prompt', { printerId: printer.id, prompt });
+    });
+
+    printer.on('prompt-end', () => {
+      this.io.to(this.rooms.authenticated).emit('printer:prompt', { printerId: printer.id, prompt: null });
+    });
+  }
+
   private setupMiddleware(): void {
     // Authentication middleware
     this.io.use(async (socket, next) => {
@@ -142,72 +228,125 @@ export class WebSocketServer {
         console.log(`Authenticated client connected: ${socket.id} (${socket.data.username})`);
       }
 
-      // Handle subscriptions
-      socket.on('subscribe:status', () => {
-        socket.join(this.rooms.statusUpdates);
-        this.sendCurrentStatus(socket);
+      // Handle subscriptions; every payload may carry a printerId, the default printer is used without one
+      socket.on('subscribe:status', (data?: PrinterTarget) => {
+        const printer = this.resolvePrinter(data, socket);
+        if (!printer) return;
+        socket.join(printerRoom(printer.id, 'status'));
+        this.sendCurrentStatus(socket, printer);
       });
 
-      socket.on('subscribe:temperature', () => {
-        socket.join(this.rooms.temperatureUpdates);
-        this.sendCurrentTemperature(socket);
+      socket.on('subscribe:temperature', (data?: PrinterTarget) => {
+        const printer = this.resolvePrinter(data, socket);
+        if (!printer) return;
+        socket.join(printerRoom(printer.id, 'temperature'));
+        this.sendCurrentTemperature(socket, printer);
       });
 
-      socket.on('subscribe:camera', () => {
-        if (this.canViewCamera(socket)) {
-          socket.join(this.rooms.cameraStream);
-        } else {
+      socket.on('subscribe:camera', (data?: PrinterTarget) => {
+        if (!this.canViewCamera(socket)) {
           socket.emit('error', { message: 'Demo users cannot access camera' });
+          return;
         }
+        const printer = this.resolvePrinter(data, socket);
+        if (printer) socket.join(printerRoom(printer.id, 'camera'));
       });
 
-      socket.on('unsubscribe:status', () => {
-        socket.leave(this.rooms.statusUpdates);
+      socket.on('unsubscribe:status', (data?: PrinterTarget) => {
+        const printer = this.resolvePrinter(data, socket);
+        if (printer) socket.leave(printerRoom(printer.id, 'status'));
       });
 
-      socket.on('unsubscribe:temperature', () => {
-        socket.leave(this.rooms.temperatureUpdates);
+      socket.on('unsubscribe:temperature', (data?: PrinterTarget) => {
+        const printer = this.resolvePrinter(data, socket);
+        if (printer) socket.leave(printerRoom(printer.id, 'temperature'));
       });
 
-      socket.on('unsubscribe:camera', () => {
-        socket.leave(this.rooms.cameraStream);
+      socket.on('unsubscribe:camera', (data?: PrinterTarget) => {
+        const printer = this.resolvePrinter(data, socket);
+        if (printer) socket.leave(printerRoom(printer.id, 'camera'));
       });
 
       // Control commands (authenticated users only)
-      socket.on('control:pause', () => {
+      socket.on('control:pause', (data?: PrinterTarget) => {
         if (this.canControl(socket)) {
-          this.handlePrintControl('pause', socket);
+          this.handlePrintControl('pause', socket, data);
         }
       });
 
-      socket.on('control:resume', () => {
+      socket.on('control:resume', (data?: PrinterTarget) => {
         if (this.canControl(socket)) {
-          this.handlePrintControl('resume', socket);
+          this.handlePrintControl('resume', socket, data);
         }
       });
 
-      socket.on('control:stop', () => {
+      socket.on('control:stop', (data?: PrinterTarget) => {
         if (this.canControl(socket)) {
-          this.handlePrintControl('stop', socket);
+          this.handlePrintControl('stop', socket, data);
         }
       });
 
-      socket.on('control:emergency', () => {
+      socket.on('control:emergency', (data?: PrinterTarget) => {
         if (this.canControl(socket)) {
-          this.handlePrintControl('emergency', socket);
+          this.handlePrintControl('emergency', socket, data);
         }
       });
 
       socket.on('control:command', (data) => {
-        if (this.canControl(socket) && data.gcode) {
-          this.handleGCodeCommand(data.gcode, socket);
+        if (this.canControl(socket) && data?.gcode) {
+          this.handleGCodeCommand(data.gcode, socket, data);
+        }
+      });
+
+      // Chunked uploads: start (or resume), send chunks, finish. Progress goes to all of the user's connections
+      socket.on('file:upload:start', async (data) => {
+        if (clientInfo.isDemo) {
+          this.uploadError(socket, data?.uploadId, new UploadError('FORBIDDEN', 'Demo users cannot upload files'));
+          return;
+        }
+        try {
+          socket.emit('file:upload:ready', await chunkedUploadService.start(clientInfo.userId!, data ?? {}));
+        } catch (error) {
+          this.uploadError(socket, data?.uploadId, error);
+        }
+      });
+
+      // `data` arrives as a binary attachment; the optional acknowledgement lets clients pace their chunks
+      socket.on('file:upload:chunk', async (chunk, ack?: (response: unknown) => void) => {
+        if (clientInfo.isDemo) return;
+        const { uploadId, index, data } = chunk ?? {};
+        try {
+          const progress = await chunkedUploadService.writeChunk(clientInfo.userId!, uploadId, index, data);
+          if (typeof ack === 'function') ack({ uploadId, index, success: true });
+          this.sendToUser(clientInfo.userId!, 'file:upload:progress', progress);
+        } catch (error) {
+          const payload = this.uploadError(socket, uploadId, error, index);
+          if (typeof ack === 'function') ack({ uploadId, index, success: false, error: payload });
+        }
+      });
+
+      socket.on('file:upload:finish', async (data) => {
+        if (clientInfo.isDemo) return;
+        try {
+          const { file, duplicate, versionCandidates } = await chunkedUploadService.finish(clientInfo.userId!, data?.uploadId);
+          this.sendToUser(clientInfo.userId!, 'file:upload:complete', {
+            uploadId: data.uploadId,
+            file: { ...file, fileSize: file.fileSize.toString() },
+            duplicate,
+            versionCandidates,
+          });
+        } catch (error) {
+          this.uploadError(socket, data?.uploadId, error);
         }
       });
 
-      // File upload progress
-      socket.on('file:upload:start', (data) => {
-        if (!clientInfo.isDemo) {
-          socket.emit('file:upload:ready', { uploadId: data.uploadId });
+      socket.on('file:upload:cancel', async (data) => {
+        if (clientInfo.isDemo) return;
+        try {
+          await chunkedUploadService.cancel(clientInfo.userId!, data?.uploadId);
+          socket.emit('file:upload:cancelled', { uploadId: data.uploadId });
+        } catch (error) {
+          this.uploadError(socket, data?.uploadId, error);
         }
       });
 
@@ -246,58 +385,121 @@ export class WebSocketServer {
     return !socket.data.isDemo; // Only authenticated users can view camera
   }
 
-  private async sendCurrentStatus(socket: any): Promise<void> {
-    // This would integrate with PrinterService to get current status
-    // For now, sending mock data
-    const status: PrinterStatus = {
-      state: 'idle',
-      temperatures: {
-        hotend: { actual: 25, target: 0 },
-        bed: { actual: 25, target: 0 },
-      },
-      position: { x: 0, y: 0, z: 0, e: 0 },
-    };
+  private uploadError(socket: any, uploadId: unknown, error: unknown, index?: number) {
+    let payload = { code: 'UPLOAD_FAILED', message: error instanceof Error ? error.message : 'File upload failed' };
+    if (error instanceof UploadError) payload = { code: error.code, message: error.message };
+    else console.error('Chunked upload error:', error);
+    socket.emit('file:upload:error', { uploadId, index, error: payload });
+    return payload;
+  }
 
-    socket.emit('status:current', status);
+  private resolvePrinter(data: PrinterTarget | undefined, socket: any): PrinterService | undefined {
+    const printerId = typeof data?.printerId === 'string' ? data.printerId : undefined;
+    const printer = printerId ? printerRegistry.get(printerId) : printerRegistry.default ?? undefined;
+    if (!printer) socket.emit('error', { message: 'Printer not found', printerId });
+    return printer;
   }
 
-  private async sendCurrentTemperature(socket: any): Promise<void> {
-    // This would integrate with PrinterService to get current temperature
-    const temperature: TemperatureData = {
-      hotend: { actual: 25, target: 0 },
-      bed: { actual: 25, target: 0 },
+  private toTemperatureData(printerId: string, t: PrinterTemperatures): TemperatureData {
+    const data: TemperatureData = {
+      printerId,
+      hotend: { actual: t.hotendTemp ?? 0, target: t.hotendTarget ?? 0 },
+      bed: { actual: t.bedTemp ?? 0, target: t.bedTarget ?? 0 },
       timestamp: Date.now(),
     };
+    if (t.chamberTemp !== undefined) {
+      data.chamber = { actual: t.chamberTemp, target: t.chamberTarget ?? 0 };
+    }
+    return data;
+  }
+
+  private getPrinterStatus(printer: PrinterService): PrinterStatus {
+    const status = printer.getStatus();
+    const { timestamp, printerId, ...temperatures } = this.toTemperatureData(printer.id, status.temperatures);
+    const position = status.position;
+    const currentJob = status.currentJob;
+
+    return {
+      printerId,
+      name: printer.name,
+      state: status.state,
+      temperatures,
+      position: { x: position.x ?? 0, y: position.y ?? 0, z: position.z ?? 0, e: position.e ?? 0 },
+      currentJob: currentJob
+        ? { id: currentJob.id, progress: currentJob.progress, estimatedTime: currentJob.estimatedTime, remainingTime: currentJob.remainingTime }
+        : undefined,
+    };
+  }
 
-    socket.emit('temperature:current', temperature);
+  private async sendCurrentStatus(socket: any, printer: PrinterService): Promise<void> {
+    socket.emit('status:current', this.getPrinterStatus(printer));
   }
 
-  private handlePrintControl(action: string, socket: any): void {
-    // This would integrate with PrinterService
+  private async sendCurrentTemperature(socket: any, printer: PrinterService): Promise<void> {
+    socket.emit('temperature:current', this.toTemperatureData(printer.id, printer.getStatus().temperatures));
+  }
+
+  private async handlePrintControl(action: string, socket: any, target?: PrinterTarget): Promise<void> {
     console.log(`Print control action: ${action} by ${socket.data.username}`);
-    socket.emit('control:response', { action, success: true });
-    
+    const printer = this.resolvePrinter(target, socket);
+    if (!printer) return;
+
+    try {
+      switch (action) {
+        case 'pause':
+          await printer.pause();
+          break;
+        case 'resume':
+          await printer.resume();
+          break;
+        case 'stop':
+          await printer.cancel();
+          break;
+        case 'emergency':
+          await printer.emergencyStop();
+          break;
+        default:
+          throw new Error(`Unknown control action: ${action}`);
+      }
+
+      socket.emit('control:response', { action, printerId: printer.id, success: true });
+    } catch (error) {
+      socket.emit('control:response', {
+        action,
+        printerId: printer.id,
+        success: false,
+        error: error instanceof Error ? error.message : 'Control action failed',
+      });
+    }
+
     // Broadcast status update to all subscribers
-    this.broadcastStatus({
-      state: action === 'pause' ? 'paused' : action === 'resume' ? 'printing' : 'idle',
-      temperatures: { hotend: { actual: 200, target: 200 }, bed: { actual: 60, target: 60 } },
-      position: { x: 100, y: 100, z: 10, e: 50 },
-    });
+    this.broadcastStatus(this.getPrinterStatus(printer));
   }
 
-  private handleGCodeCommand(gcode: string, socket: any): void {
-    // This would integrate with PrinterService
+  private async handleGCodeCommand(gcode: string, socket: any, target?: PrinterTarget): Promise<void> {
     console.log(`G-code command: ${gcode} by ${socket.data.username}`);
-    socket.emit('command:response', { gcode, response: 'ok' });
+    const printer = this.resolvePrinter(target, socket);
+    if (!printer) return;
+
+    try {
+      const response = await printer.sendCommand(String(gcode));
+      socket.emit('command:response', { gcode, printerId: printer.id, response });
+    } catch (error) {
+      socket.emit('command:response', {
+        gcode,
+        printerId: printer.id,
+        error: error instanceof Error ? error.message : 'Command failed',
+      });
+    }
   }
 
   // Public broadcast methods
   public broadcastStatus(status: PrinterStatus): void {
-    this.io.to(this.rooms.statusUpdates).emit('status:update', status);
+    this.io.to(printerRoom(status.printerId, 'status')).emit('status:update', status);
   }
 
   public broadcastTemperature(temperature: TemperatureData): void {
-    this.io.to(this.rooms.temperatureUpdates).emit('temperature:update', temperature);
+    this.io.to(printerRoom(temperature.printerId, 'temperature')).emit('temperature:update', temperature);
   }
 
   public broadcastProgress(progress: ProgressData): void {
@@ -319,15 +521,23 @@ export class WebSocketServer {
     }
   }
 
+  public broadcastQueue(queue: QueueState): void {
+    this.io.to(this.rooms.authenticated).emit('queue:update', queue);
+  }
+
+  public broadcastJobEvent(event: PrintEvent): void {
+    this.io.to(this.rooms.authenticated).emit('job:event', event);
+  }
+
   public sendToUser(userId: string, event: string, data: any): void {
     this.io.to(`user:${userId}`).emit(event, data);
   }
 
   // Camera streaming
-  public streamCameraFrame(frame: Buffer): void {
+  public streamCameraFrame(printerId: string, frame: Buffer): void {
     // Convert to base64 for web transmission
     const base64Frame = `data:image/jpeg;base64,${frame.toString('base64')}`;
-    this.io.to(this.rooms.cameraStream).emit('camera:frame', { frame: base64Frame });
+    this.io.to(printerRoom(printerId, 'camera')).emit('camera:frame', { printerId, frame: base64Frame });
   }
 
   public broadcastNotification(notification: { userId: string; type: string; title: string; message: string }): void {
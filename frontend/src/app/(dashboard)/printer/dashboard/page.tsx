@@ -1,13 +1,18 @@
 'use client';
 
 import { motion } from 'framer-motion';
-import { useState } from 'react';
+import { useCallback, useEffect, useState } from 'react';
 import Card, { CardContent } from '@/components/ui/Card';
 import Button from '@/components/ui/Button';
 import AnalyticsDashboard from '@/components/analytics/AnalyticsDashboard';
 import GCodeTerminal from '@/components/printer/GCodeTerminal';
 import SettingsManagement from '@/components/settings/SettingsManagement';
 import CameraViewer from '@/components/camera/CameraViewer';
+import RecoveryPanel from '@/components/printer/RecoveryPanel';
+import PrinterPromptDialog from '@/components/printer/PrinterPromptDialog';
+import FirmwareControls from '@/components/printer/FirmwareControls';
+import { usePrinterStore } from '@/stores/printerStore';
+import { printerService, PrinterStatus } from '@/services/printerService';
 import { 
   Activity, 
   BarChart3, 
@@ -21,17 +26,57 @@ import {
   Gauge
 } from 'lucide-react';
 
+const STATUS_INTERVAL_MS = 3000;
+
+const errorMessage = (error: any, fallback: string) => error?.response?.data?.error?.message || fallback;
+
+const formatRemaining = (seconds?: number) => {
+  if (seconds === undefined) return '--';
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.round((seconds % 3600) / 60);
+  return hours > 0 ? `${hours}h ${minutes}m` : `${minutes}m`;
+};
+
+const formatTemp = (value?: number) => (value === undefined ? '--' : `${Math.round(value)}°C`);
+
 export default function PrinterMainDashboardPage() {
   const [activeView, setActiveView] = useState<'overview' | 'analytics' | 'terminal' | 'settings' | 'camera'>('overview');
-  const [printerStatus] = useState({
-    status: 'printing',
-    progress: 65,
-    hotend: 210,
-    bed: 60,
-    fan: 85,
-    currentFile: 'demo_model.gcode',
-    timeRemaining: '2h 15m'
-  });
+  const [status, setStatus] = useState<PrinterStatus | null>(null);
+  const [actionError, setActionError] = useState<string | null>(null);
+  const { firmware, loadFirmware } = usePrinterStore();
+
+  const loadStatus = useCallback(async () => {
+    try {
+      setStatus(await printerService.getStatus());
+    } catch {
+      setStatus(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadFirmware();
+  }, [loadFirmware]);
+
+  useEffect(() => {
+    loadStatus();
+    const interval = setInterval(loadStatus, STATUS_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [loadStatus]);
+
+  const runAction = async (action: () => Promise<void>, fallback: string) => {
+    setActionError(null);
+    try {
+      await action();
+      await loadStatus();
+    } catch (e) {
+      setActionError(errorMessage(e, fallback));
+    }
+  };
+
+  const temperatures = status?.temperatures ?? {};
+  const job = status?.currentJob ?? null;
+  const progress = Math.round(job?.progress ?? 0);
+  const state = !status ? 'unavailable' : status.connected ? status.state : 'offline';
 
   const views = [
     { id: 'overview', label: 'Overview', icon: Activity },
@@ -48,6 +93,7 @@ export default function PrinterMainDashboardPage() {
       animate={{ opacity: 1 }}
       transition={{ duration: 0.5 }}
     >
+      <PrinterPromptDialog />
       <div className="max-w-7xl mx-auto px-4 py-8">
         {/* Enhanced Header */}
         <motion.div 
@@ -113,6 +159,8 @@ export default function PrinterMainDashboardPage() {
         >
           {activeView === 'overview' && (
             <div className="space-y-6">
+              <RecoveryPanel />
+
               {/* Status Cards */}
               <motion.div 
                 className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4"
@@ -134,8 +182,10 @@ export default function PrinterMainDashboardPage() {
                       <div className="flex items-center justify-between">
                         <div>
                           <p className="text-sm font-medium text-gray-500">Status</p>
-                          <p className="text-2xl font-bold text-green-600 capitalize">{printerStatus.status}</p>
-                          <p className="text-xs text-gray-500">{printerStatus.currentFile}</p>
+                          <p className={`text-2xl font-bold capitalize ${state === 'error' ? 'text-red-600' : 'text-green-600'}`}>{state}</p>
+                          <p className="text-xs text-gray-500">
+                            {status?.error || (job?.layer ? `Layer ${job.layer}${job.totalLayers ? ` of ${job.totalLayers}` : ''}` : status?.name)}
+                          </p>
                         </div>
                         <motion.div
                           animate={{ scale: [1, 1.1, 1] }}
@@ -154,8 +204,8 @@ export default function PrinterMainDashboardPage() {
                       <div className="flex items-center justify-between">
                         <div>
                           <p className="text-sm font-medium text-gray-500">Progress</p>
-                          <p className="text-2xl font-bold text-blue-600">{printerStatus.progress}%</p>
-                          <p className="text-xs text-gray-500">{printerStatus.timeRemaining} left</p>
+                          <p className="text-2xl font-bold text-blue-600">{progress}%</p>
+                          <p className="text-xs text-gray-500">{job ? `${formatRemaining(job.remainingTime)} left` : 'No active print'}</p>
                         </div>
                         <div className="relative w-12 h-12">
                           <svg className="w-12 h-12 transform -rotate-90" viewBox="0 0 36 36">
@@ -170,9 +220,9 @@ export default function PrinterMainDashboardPage() {
                               fill="none"
                               stroke="#3b82f6"
                               strokeWidth="2"
-                              strokeDasharray={`${printerStatus.progress}, 100`}
+                              strokeDasharray={`${progress}, 100`}
                               initial={{ strokeDasharray: "0, 100" }}
-                              animate={{ strokeDasharray: `${printerStatus.progress}, 100` }}
+                              animate={{ strokeDasharray: `${progress}, 100` }}
                               transition={{ duration: 1, delay: 0.5 }}
                             />
                           </svg>
@@ -188,8 +238,8 @@ export default function PrinterMainDashboardPage() {
                       <div className="flex items-center justify-between">
                         <div>
                           <p className="text-sm font-medium text-gray-500">Hotend</p>
-                          <p className="text-2xl font-bold text-red-600">{printerStatus.hotend}°C</p>
-                          <p className="text-xs text-gray-500">Target: 210°C</p>
+                          <p className="text-2xl font-bold text-red-600">{formatTemp(temperatures.hotendTemp)}</p>
+                          <p className="text-xs text-gray-500">Target: {formatTemp(temperatures.hotendTarget)}</p>
                         </div>
                         <motion.div
                           animate={{ y: [0, -5, 0] }}
@@ -208,8 +258,11 @@ export default function PrinterMainDashboardPage() {
                       <div className="flex items-center justify-between">
                         <div>
                           <p className="text-sm font-medium text-gray-500">Bed Temp</p>
-                          <p className="text-2xl font-bold text-orange-600">{printerStatus.bed}°C</p>
-                          <p className="text-xs text-gray-500">Fan: {printerStatus.fan}%</p>
+                          <p className="text-2xl font-bold text-orange-600">{formatTemp(temperatures.bedTemp)}</p>
+                          <p className="text-xs text-gray-500">Target: {formatTemp(temperatures.bedTarget)}</p>
+                          {firmware?.capabilities.chamberTemperature && temperatures.chamberTemp !== undefined && (
+                            <p className="text-xs text-gray-500">Chamber: {formatTemp(temperatures.chamberTemp)}</p>
+                          )}
                         </div>
                         <motion.div
                           animate={{ rotate: 360 }}
@@ -233,11 +286,34 @@ export default function PrinterMainDashboardPage() {
                   <CardContent>
                     <h3 className="text-lg font-semibold text-gray-900 mb-4">Quick Actions</h3>
                     <div className="flex flex-wrap gap-3">
-                      <Button variant="primary" className="flex items-center space-x-2">
-                        <Pause className="w-4 h-4" />
-                        <span>Pause Print</span>
-                      </Button>
-                      <Button variant="danger" className="flex items-center space-x-2">
+                      {status?.state === 'paused' ? (
+                        <Button
+                          variant="primary"
+                          className="flex items-center space-x-2"
+                          onClick={() => runAction(() => printerService.resume(), 'Failed to resume print')}
+                        >
+                          <Play className="w-4 h-4" />
+                          <span>Resume Print</span>
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="primary"
+                          className="flex items-center space-x-2"
+                          disabled={status?.state !== 'printing'}
+                          onClick={() => runAction(() => printerService.pause(), 'Failed to pause print')}
+                        >
+                          <Pause className="w-4 h-4" />
+                          <span>Pause Print</span>
+                        </Button>
+                      )}
+                      <Button
+                        variant="danger"
+                        className="flex items-center space-x-2"
+                        disabled={!job}
+                        onClick={() => {
+                          if (window.confirm('Stop the current print?')) runAction(() => printerService.cancel(), 'Failed to stop print');
+                        }}
+                      >
                         <Square className="w-4 h-4" />
                         <span>Stop Print</span>
                       </Button>
@@ -250,9 +326,12 @@ export default function PrinterMainDashboardPage() {
                         View Camera
                       </Button>
                     </div>
+                    {actionError && <p className="mt-4 text-sm text-red-600">{actionError}</p>}
                   </CardContent>
                 </Card>
               </motion.div>
+
+              <FirmwareControls status={status} />
             </div>
           )}
 
@@ -1,10 +1,262 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { Plug, Unplug, Search, RefreshCw, Cpu, Usb } from 'lucide-react';
+import Card, { CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import Alert from '@/components/ui/Alert';
+import {
+  printerService,
+  PortCandidate,
+  PrinterConnection,
+  ProbeResult,
+} from '@/services/printerService';
+import { usePrinterStore } from '@/stores/printerStore';
+
+const BAUD_RATES = [115200, 250000, 230400, 57600, 500000, 38400, 19200, 9600];
+
+const errorMessage = (error: any, fallback: string) => error?.response?.data?.error?.message || fallback;
+
 export default function PrinterSettingsPage() {
+  const [connection, setConnection] = useState<PrinterConnection | null>(null);
+  const [ports, setPorts] = useState<PortCandidate[]>([]);
+  const [probes, setProbes] = useState<Record<string, ProbeResult>>({});
+  const [path, setPath] = useState('');
+  // Empty = let the backend negotiate the baud rate
+  const [baudRate, setBaudRate] = useState('');
+  const [busy, setBusy] = useState<'probe' | 'connect' | 'disconnect' | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const setFirmware = usePrinterStore((state) => state.setFirmware);
+
+  const applyConnection = useCallback((next: PrinterConnection | null) => {
+    setConnection(next);
+    setFirmware(next?.firmware ?? null);
+  }, [setFirmware]);
+
+  const loadConnection = useCallback(async () => {
+    try {
+      applyConnection(await printerService.getConnection());
+    } catch {
+      applyConnection(null);
+    }
+  }, [applyConnection]);
+
+  const loadPorts = useCallback(async () => {
+    try {
+      const list = await printerService.listPorts();
+      setPorts(list);
+      setPath((current) => current || list[0]?.path || '');
+    } catch (e) {
+      setError(errorMessage(e, 'Failed to list serial ports'));
+    }
+  }, []);
+
+  useEffect(() => {
+    loadConnection();
+    loadPorts();
+    const interval = setInterval(loadConnection, 5000);
+    return () => clearInterval(interval);
+  }, [loadConnection, loadPorts]);
+
+  const probe = async (target?: string) => {
+    setBusy('probe');
+    setError(null);
+    try {
+      const results = await printerService.probePorts(target);
+      setProbes((current) => ({ ...current, ...Object.fromEntries(results.map((r) => [r.path, r])) }));
+      const found = results.find((r) => r.baudRate);
+      if (found && !target) {
+        setPath(found.path);
+        setBaudRate(String(found.baudRate));
+      }
+    } catch (e) {
+      setError(errorMessage(e, 'Probe failed'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const connect = async () => {
+    setBusy('connect');
+    setError(null);
+    try {
+      applyConnection(await printerService.connect(path || undefined, baudRate ? Number(baudRate) : undefined));
+    } catch (e) {
+      setError(errorMessage(e, 'Failed to connect'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const disconnect = async () => {
+    setBusy('disconnect');
+    setError(null);
+    try {
+      applyConnection(await printerService.disconnect());
+    } catch (e) {
+      setError(errorMessage(e, 'Failed to disconnect'));
+    } finally {
+      setBusy(null);
+    }
+  };
+
   return (
     <main className="min-h-screen bg-gray-50">
-      <div className="max-w-7xl mx-auto px-4 py-8">
-        <h1 className="text-2xl font-bold text-gray-900">Printer Settings</h1>
-        <p className="mt-2 text-gray-600">Configure printer profiles and parameters (coming soon).</p>
+      <div className="max-w-7xl mx-auto px-4 py-8 space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Printer Settings</h1>
+          <p className="mt-2 text-gray-600">Choose how LezerPrint talks to the printer.</p>
+        </div>
+
+        {error && <Alert type="error" message={error} dismissible onDismiss={() => setError(null)} />}
+
+        <Card variant="elevated">
+          <CardContent>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                <Plug className="w-5 h-5 mr-2" />
+                Connection
+              </h3>
+              <span
+                className={`px-2 py-1 rounded-full text-xs font-medium ${
+                  connection?.connected ? 'bg-green-100 text-green-800' : 'bg-red-100 text-red-800'
+                }`}
+              >
+                {connection?.connected ? 'Connected' : 'Disconnected'}
+              </span>
+            </div>
+
+            {connection?.connected && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4">
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-500">Port</p>
+                  <p className="font-semibold text-gray-900">{connection.path}</p>
+                  <p className="text-xs text-gray-500">{connection.baudRate} baud</p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-500 flex items-center"><Cpu className="w-3 h-3 mr-1" />Firmware</p>
+                  <p className="font-semibold text-gray-900">
+                    {connection.firmware ? `${connection.firmware.name} ${connection.firmware.version ?? ''}` : 'Unknown'}
+                  </p>
+                  {connection.firmware && (
+                    <p className="text-xs text-gray-500">
+                      {[connection.firmware.flavor, connection.firmware.machineType].filter(Boolean).join(' · ')}
+                    </p>
+                  )}
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-500">Capabilities</p>
+                  <p className="text-xs text-gray-700">
+                    {connection.firmware
+                      ? Object.entries(connection.firmware.capabilities).filter(([, on]) => on).map(([name]) => name).join(', ') || 'None reported'
+                      : '—'}
+                  </p>
+                </div>
+              </div>
+            )}
+
+            {!connection?.connected && connection?.reconnecting && (
+              <p className="mb-4 text-sm text-yellow-700">
+                Connection lost. Reconnect attempt {connection.reconnecting.attempt} at{' '}
+                {new Date(connection.reconnecting.nextAttemptAt).toLocaleTimeString()}.
+              </p>
+            )}
+
+            <div className="flex flex-wrap items-end gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Serial port</label>
+                <select
+                  value={path}
+                  onChange={(e) => setPath(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  {ports.map((port) => (
+                    <option key={port.path} value={port.path}>
+                      {port.virtual ? 'Virtual printer' : port.path}
+                      {port.manufacturer && !port.virtual ? ` (${port.manufacturer})` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-1">Baud rate</label>
+                <select
+                  value={baudRate}
+                  onChange={(e) => setBaudRate(e.target.value)}
+                  className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                >
+                  <option value="">Auto-detect</option>
+                  {BAUD_RATES.map((rate) => (
+                    <option key={rate} value={rate}>{rate}</option>
+                  ))}
+                </select>
+              </div>
+              <Button onClick={connect} loading={busy === 'connect'} disabled={!path || busy !== null} icon={<Plug className="w-4 h-4" />}>
+                {connection?.connected ? 'Reconnect' : 'Connect'}
+              </Button>
+              {connection?.connected && (
+                <Button variant="danger" onClick={disconnect} loading={busy === 'disconnect'} disabled={busy !== null} icon={<Unplug className="w-4 h-4" />}>
+                  Disconnect
+                </Button>
+              )}
+            </div>
+            <p className="mt-3 text-xs text-gray-500">
+              The chosen port and baud rate are saved and used on the next start. Lost connections are retried automatically.
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card variant="elevated">
+          <CardContent>
+            <div className="flex items-center justify-between mb-4">
+              <h3 className="text-lg font-semibold text-gray-900 flex items-center">
+                <Usb className="w-5 h-5 mr-2" />
+                Available Ports
+              </h3>
+              <div className="flex gap-2">
+                <Button variant="ghost" size="sm" onClick={loadPorts} icon={<RefreshCw className="w-4 h-4" />}>
+                  Refresh
+                </Button>
+                <Button variant="secondary" size="sm" onClick={() => probe()} loading={busy === 'probe'} disabled={busy !== null} icon={<Search className="w-4 h-4" />}>
+                  Detect Printer
+                </Button>
+              </div>
+            </div>
+
+            {ports.length === 0 ? (
+              <p className="text-sm text-gray-500">No serial ports found.</p>
+            ) : (
+              <div className="space-y-2">
+                {ports.map((port) => {
+                  const result = probes[port.path];
+                  return (
+                    <div key={port.path} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                      <div>
+                        <p className="font-medium text-gray-900">{port.virtual ? 'Virtual printer' : port.path}</p>
+                        <p className="text-xs text-gray-500">
+                          {[port.manufacturer, port.vendorId && port.productId ? `${port.vendorId}:${port.productId}` : null, port.serialNumber]
+                            .filter(Boolean)
+                            .join(' · ') || 'No device information'}
+                        </p>
+                        {result && (
+                          <p className={`text-xs ${result.baudRate ? 'text-green-700' : 'text-red-600'}`}>
+                            {result.baudRate
+                              ? `${result.firmware?.name ?? 'Firmware'} ${result.firmware?.version ?? ''} at ${result.baudRate} baud${result.connected ? ' (in use)' : ''}`
+                              : result.error}
+                          </p>
+                        )}
+                      </div>
+                      <Button variant="ghost" size="sm" onClick={() => probe(port.path)} disabled={busy !== null}>
+                        Probe
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
       </div>
     </main>
-  )
+  );
 }
@@ -0,0 +1,182 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Grid3x3, HardDrive, Play, RefreshCw, Thermometer, Wind } from 'lucide-react';
+import Card, { CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import { printerService, FirmwareCapabilities, PrinterStatus, SdFile } from '@/services/printerService';
+import { usePrinterStore } from '@/stores/printerStore';
+
+interface FirmwareControlsProps {
+  status: PrinterStatus | null;
+}
+
+const FEATURES: Array<keyof FirmwareCapabilities> = ['autoLevel', 'chamberTemperature', 'runout', 'sdCard'];
+
+const errorMessage = (error: any, fallback: string) => error?.response?.data?.error?.message || fallback;
+
+// Controls for firmware features only some printers have, shown when M115 reports them
+export default function FirmwareControls({ status }: FirmwareControlsProps) {
+  const { firmware } = usePrinterStore();
+  const [chamberTarget, setChamberTarget] = useState('');
+  const [sdFiles, setSdFiles] = useState<SdFile[] | null>(null);
+  const [runout, setRunout] = useState<boolean | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  // Everything stays available until the firmware has reported its capabilities
+  const supports = (capability: keyof FirmwareCapabilities) => !firmware || firmware.capabilities[capability];
+  const connected = status?.connected ?? false;
+  const idle = connected && status?.state === 'idle';
+
+  useEffect(() => {
+    if (!connected || !firmware?.capabilities.runout) return;
+    printerService.getRunoutDetection().then(setRunout, () => setRunout(null));
+  }, [connected, firmware]);
+
+  const run = async (action: string, task: () => Promise<void>, fallback: string) => {
+    setBusy(action);
+    setError(null);
+    try {
+      await task();
+    } catch (e) {
+      setError(errorMessage(e, fallback));
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const setChamber = () =>
+    run('chamber', () => printerService.setTemperature({ chamber: Number(chamberTarget) || 0 }), 'Failed to set the chamber temperature');
+
+  const loadSdFiles = () => run('sd-list', async () => setSdFiles(await printerService.listSdFiles()), 'Failed to read the SD card');
+
+  const printFromSd = (file: SdFile) => {
+    if (!window.confirm(`Print "${file.name}" from the printer's SD card?`)) return;
+    run(`sd-${file.name}`, () => printerService.printFromSd(file.name), 'Failed to start the SD card print');
+  };
+
+  const toggleRunout = () =>
+    run('runout', async () => {
+      await printerService.setRunoutDetection(!runout);
+      setRunout(!runout);
+    }, 'Failed to change filament runout detection');
+
+  if (!FEATURES.some(supports)) return null;
+
+  return (
+    <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.7 }}>
+      <Card variant="elevated">
+        <CardContent>
+          <h3 className="text-lg font-semibold text-gray-900 mb-4">Printer Features</h3>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {supports('autoLevel') && (
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <p className="text-sm font-medium text-gray-700 mb-1 flex items-center">
+                  <Grid3x3 className="w-4 h-4 mr-2" />
+                  Bed Leveling
+                </p>
+                <p className="text-xs text-gray-500 mb-3">Homes all axes and probes the bed mesh (G28, G29).</p>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={() => run('level', () => printerService.autoLevel(), 'Failed to start bed leveling')}
+                  disabled={!idle || busy !== null}
+                  loading={busy === 'level'}
+                >
+                  Auto-Level Bed
+                </Button>
+              </div>
+            )}
+
+            {supports('chamberTemperature') && (
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <p className="text-sm font-medium text-gray-700 mb-1 flex items-center">
+                  <Thermometer className="w-4 h-4 mr-2" />
+                  Chamber
+                </p>
+                <p className="text-xs text-gray-500 mb-3">
+                  {status?.temperatures.chamberTemp !== undefined ? `${status.temperatures.chamberTemp}°C` : 'No reading'}
+                  {status?.temperatures.chamberTarget ? ` · target ${status.temperatures.chamberTarget}°C` : ''}
+                </p>
+                <div className="flex gap-2">
+                  <input
+                    type="number"
+                    min="0"
+                    max="80"
+                    value={chamberTarget}
+                    onChange={(e) => setChamberTarget(e.target.value)}
+                    placeholder="°C"
+                    className="w-24 px-3 py-1 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                  <Button variant="secondary" size="sm" onClick={setChamber} disabled={!connected || busy !== null} loading={busy === 'chamber'}>
+                    Set
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {supports('runout') && (
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <p className="text-sm font-medium text-gray-700 mb-1 flex items-center">
+                  <Wind className="w-4 h-4 mr-2" />
+                  Filament Runout Sensor
+                </p>
+                <p className="text-xs text-gray-500 mb-3">
+                  {runout === null ? 'State unknown' : runout ? 'Detection is on' : 'Detection is off'}
+                </p>
+                <Button variant="secondary" size="sm" onClick={toggleRunout} disabled={!connected || busy !== null} loading={busy === 'runout'}>
+                  {runout ? 'Disable Detection' : 'Enable Detection'}
+                </Button>
+              </div>
+            )}
+
+            {supports('sdCard') && (
+              <div className="p-4 bg-gray-50 rounded-lg">
+                <p className="text-sm font-medium text-gray-700 mb-1 flex items-center">
+                  <HardDrive className="w-4 h-4 mr-2" />
+                  SD Card
+                </p>
+                <p className="text-xs text-gray-500 mb-3">Files printed by the printer itself, without streaming.</p>
+                <Button
+                  variant="secondary"
+                  size="sm"
+                  onClick={loadSdFiles}
+                  disabled={!idle || busy !== null}
+                  loading={busy === 'sd-list'}
+                  icon={<RefreshCw className="w-4 h-4" />}
+                >
+                  {sdFiles ? 'Refresh' : 'List Files'}
+                </Button>
+                {sdFiles && (
+                  <ul className="mt-3 space-y-1 max-h-40 overflow-auto">
+                    {sdFiles.length === 0 && <li className="text-xs text-gray-500">The card is empty</li>}
+                    {sdFiles.map((file) => (
+                      <li key={file.name} className="flex items-center justify-between text-sm">
+                        <span className="font-mono text-gray-800">{file.name}</span>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => printFromSd(file)}
+                          disabled={!idle || busy !== null}
+                          loading={busy === `sd-${file.name}`}
+                          icon={<Play className="w-4 h-4" />}
+                        >
+                          Print
+                        </Button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+          </div>
+
+          {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
@@ -160,10 +160,13 @@ export default function GCodeTerminal({
       }, Math.random() * 1000 + 500);
     } else {
       try {
-        // In real implementation, send to backend
+        const token = localStorage.getItem('accessToken');
         const response = await fetch('/api/printer/command', {
           method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
+          headers: {
+            'Content-Type': 'application/json',
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+          },
           body: JSON.stringify({ command: trimmedCommand }),
         });
         
@@ -0,0 +1,95 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { motion, AnimatePresence } from 'framer-motion';
+import { MessageSquare } from 'lucide-react';
+import Button from '@/components/ui/Button';
+import { printerService, HostPrompt } from '@/services/printerService';
+
+interface PrinterPromptDialogProps {
+  demoMode?: boolean;
+}
+
+const errorMessage = (error: any, fallback: string) => error?.response?.data?.error?.message || fallback;
+
+// Marlin prompt messages are firmware identifiers like "FilamentRunout T0"
+const formatMessage = (message: string) => message.replace(/([a-z])([A-Z])/g, '$1 $2');
+
+export default function PrinterPromptDialog({ demoMode = false }: PrinterPromptDialogProps) {
+  const [prompt, setPrompt] = useState<HostPrompt | null>(null);
+  const [sending, setSending] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadPrompt = useCallback(async () => {
+    if (demoMode) return;
+    try {
+      setPrompt(await printerService.getPrompt());
+    } catch {
+      setPrompt(null);
+    }
+  }, [demoMode]);
+
+  useEffect(() => {
+    loadPrompt();
+    const interval = setInterval(loadPrompt, 3000);
+    return () => clearInterval(interval);
+  }, [loadPrompt]);
+
+  const answer = async (choice: number) => {
+    setSending(choice);
+    setError(null);
+    try {
+      await printerService.answerPrompt(choice);
+      setPrompt(null);
+    } catch (e) {
+      setError(errorMessage(e, 'Failed to answer the printer'));
+    } finally {
+      setSending(null);
+    }
+  };
+
+  // A prompt without choices still needs an acknowledgement (choice 0)
+  const choices = prompt && prompt.choices.length > 0 ? prompt.choices : ['OK'];
+
+  return (
+    <AnimatePresence>
+      {prompt && (
+        <motion.div
+          className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+        >
+          <motion.div
+            className="bg-white rounded-lg w-full max-w-md p-6"
+            initial={{ scale: 0.9, opacity: 0 }}
+            animate={{ scale: 1, opacity: 1 }}
+            exit={{ scale: 0.9, opacity: 0 }}
+          >
+            <div className="flex items-center mb-4">
+              <MessageSquare className="w-5 h-5 text-blue-600 mr-2" />
+              <h3 className="text-lg font-semibold text-gray-900">The printer is waiting</h3>
+            </div>
+            <p className="text-gray-700 mb-6">{formatMessage(prompt.message)}</p>
+
+            {error && <p className="mb-4 text-sm text-red-600">{error}</p>}
+
+            <div className="flex flex-wrap justify-end gap-3">
+              {choices.map((choice, index) => (
+                <Button
+                  key={`${index}-${choice}`}
+                  variant={index === 0 ? 'primary' : 'secondary'}
+                  onClick={() => answer(index)}
+                  loading={sending === index}
+                  disabled={sending !== null}
+                >
+                  {choice}
+                </Button>
+              ))}
+            </div>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
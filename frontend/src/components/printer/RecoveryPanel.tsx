@@ -0,0 +1,222 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { AlertTriangle, RotateCcw, XCircle, Layers, FileText } from 'lucide-react';
+import Card, { CardContent } from '@/components/ui/Card';
+import Button from '@/components/ui/Button';
+import { jobService, InterruptedJob, RecoveryPlan } from '@/services/jobService';
+
+interface RecoveryPanelProps {
+  demoMode?: boolean;
+}
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const errorMessage = (error: any, fallback: string) => error?.response?.data?.error?.message || fallback;
+
+export default function RecoveryPanel({ demoMode = false }: RecoveryPanelProps) {
+  const [jobs, setJobs] = useState<InterruptedJob[]>([]);
+  const [selected, setSelected] = useState<InterruptedJob | null>(null);
+  const [plan, setPlan] = useState<RecoveryPlan | null>(null);
+  // undefined = continue from the last acknowledged line, otherwise restart that layer
+  const [layer, setLayer] = useState<number | undefined>(undefined);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadJobs = useCallback(async () => {
+    if (demoMode) return;
+    try {
+      setJobs(await jobService.getInterruptedJobs());
+    } catch {
+      setJobs([]);
+    }
+  }, [demoMode]);
+
+  useEffect(() => {
+    loadJobs();
+    const interval = setInterval(loadJobs, 15000);
+    return () => clearInterval(interval);
+  }, [loadJobs]);
+
+  const loadPlan = useCallback(async (job: InterruptedJob, fromLayer?: number) => {
+    setLoading(true);
+    setError(null);
+    try {
+      setPlan(await jobService.getRecoveryPlan(job.id, fromLayer));
+    } catch (e) {
+      setPlan(null);
+      setError(errorMessage(e, 'Failed to build recovery plan'));
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const review = (job: InterruptedJob) => {
+    setSelected(job);
+    setLayer(undefined);
+    loadPlan(job);
+  };
+
+  const changeLayer = (value?: number) => {
+    if (!selected) return;
+    setLayer(value);
+    loadPlan(selected, value);
+  };
+
+  const resume = async () => {
+    if (!selected) return;
+    setLoading(true);
+    setError(null);
+    try {
+      await jobService.resumeInterruptedJob(selected.id, layer);
+      setSelected(null);
+      setPlan(null);
+      await loadJobs();
+    } catch (e) {
+      setError(errorMessage(e, 'Failed to resume print'));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const abandon = async (job: InterruptedJob) => {
+    if (!window.confirm(`Abandon "${job.file.originalName}"? The job will be marked as failed.`)) return;
+    try {
+      await jobService.abandonInterruptedJob(job.id);
+      if (selected?.id === job.id) {
+        setSelected(null);
+        setPlan(null);
+      }
+      await loadJobs();
+    } catch (e) {
+      setError(errorMessage(e, 'Failed to abandon print'));
+    }
+  };
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }}>
+      <Card variant="elevated" className="border-yellow-300">
+        <CardContent>
+          <div className="flex items-center mb-4">
+            <AlertTriangle className="w-5 h-5 text-yellow-600 mr-2" />
+            <h3 className="text-lg font-semibold text-gray-900">Interrupted Prints</h3>
+          </div>
+
+          <div className="space-y-3">
+            {jobs.map((job) => (
+              <div key={job.id} className="flex items-center justify-between p-3 bg-yellow-50 rounded-lg border border-yellow-200">
+                <div>
+                  <p className="font-medium text-gray-900">{job.file.originalName}</p>
+                  <p className="text-xs text-gray-600">
+                    {job.checkpoint.reason} · layer {job.checkpoint.layer} · {job.checkpoint.progress.toFixed(1)}%
+                    {job.checkpoint.z !== undefined && ` · Z ${job.checkpoint.z}mm`}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="secondary" size="sm" onClick={() => review(job)} icon={<RotateCcw className="w-4 h-4" />}>
+                    Review
+                  </Button>
+                  <Button variant="danger" size="sm" onClick={() => abandon(job)} icon={<XCircle className="w-4 h-4" />}>
+                    Abandon
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+
+          {selected && plan && (
+            <div className="mt-6 space-y-4">
+              <div className="flex flex-wrap items-end gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">Resume from</label>
+                  <select
+                    value={layer === undefined ? 'checkpoint' : 'layer'}
+                    onChange={(e) => changeLayer(e.target.value === 'checkpoint' ? undefined : selected.checkpoint.layer)}
+                    className="px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  >
+                    <option value="checkpoint">Last acknowledged line</option>
+                    <option value="layer">Start of layer</option>
+                  </select>
+                </div>
+                {layer !== undefined && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">Layer</label>
+                    <input
+                      type="number"
+                      value={layer}
+                      min="1"
+                      max={selected.checkpoint.layer}
+                      onChange={(e) => changeLayer(Number(e.target.value))}
+                      className="w-24 px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-500">Skipped</p>
+                  <p className="font-semibold text-gray-900">{plan.skipped.percent}%</p>
+                  <p className="text-xs text-gray-500">{formatBytes(plan.skipped.bytes)} of {formatBytes(plan.totalBytes)}</p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-500 flex items-center"><Layers className="w-3 h-3 mr-1" />Layers skipped</p>
+                  <p className="font-semibold text-gray-900">{plan.skipped.layers}</p>
+                  <p className="text-xs text-gray-500">resumes in layer {plan.resumeLayer}{plan.totalLayers ? ` of ${plan.totalLayers}` : ''}</p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-500">Commands skipped</p>
+                  <p className="font-semibold text-gray-900">{plan.skipped.commands.toLocaleString()}</p>
+                </div>
+                <div className="p-3 bg-gray-50 rounded-lg">
+                  <p className="text-xs text-gray-500">Restored state</p>
+                  <p className="font-semibold text-gray-900">Z {plan.state.z ?? 0}mm</p>
+                  <p className="text-xs text-gray-500">
+                    {plan.state.hotendTarget ?? 0}°C / {plan.state.bedTarget ?? 0}°C · E {plan.state.e.toFixed(2)}
+                  </p>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-1">Sent before resuming</p>
+                  <pre className="text-xs bg-gray-900 text-green-400 rounded-lg p-3 max-h-48 overflow-auto">{plan.commands.join('\n')}</pre>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-700 mb-1 flex items-center">
+                    <FileText className="w-4 h-4 mr-1" />
+                    First commands from the file
+                  </p>
+                  <pre className="text-xs bg-gray-900 text-gray-200 rounded-lg p-3 max-h-48 overflow-auto">{plan.nextCommands.join('\n')}</pre>
+                </div>
+              </div>
+
+              <p className="text-xs text-gray-500">
+                Make sure the nozzle is still above the part and nothing blocks the X/Y homing path. The printer
+                will reheat, home X and Y only, and continue at Z {plan.state.z ?? 0}mm.
+              </p>
+
+              <div className="flex gap-3">
+                <Button variant="success" onClick={resume} loading={loading} icon={<RotateCcw className="w-4 h-4" />}>
+                  Confirm Resume
+                </Button>
+                <Button variant="ghost" onClick={() => { setSelected(null); setPlan(null); }}>
+                  Close
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </motion.div>
+  );
+}
@@ -0,0 +1,165 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { motion } from 'framer-motion';
+import { Key, Plus, Trash2, Copy, CheckCircle, AlertTriangle } from 'lucide-react';
+import Button from '@/components/ui/Button';
+import Input from '@/components/ui/Input';
+import { authService, type ApiKey } from '@/services/authService';
+
+const API_URL = process.env.NEXT_PUBLIC_API_URL || 'http://localhost:3001/api';
+// Slicers append /api/... themselves
+const OCTOPRINT_URL = API_URL.replace(/\/api\/?$/, '/octoprint');
+
+interface ApiKeySettingsProps {
+  demoMode?: boolean;
+}
+
+const demoKeys: ApiKey[] = [
+  { id: 'demo-1', name: 'PrusaSlicer on workstation', prefix: 'lzp_3fa9c1', lastUsedAt: new Date().toISOString(), createdAt: new Date().toISOString() },
+];
+
+export default function ApiKeySettings({ demoMode = false }: ApiKeySettingsProps) {
+  const [keys, setKeys] = useState<ApiKey[]>([]);
+  const [name, setName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [newKey, setNewKey] = useState<string | null>(null);
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (demoMode) {
+      setKeys(demoKeys);
+      return;
+    }
+    authService.listApiKeys().then(setKeys).catch(() => setError('Failed to load API keys'));
+  }, [demoMode]);
+
+  const handleCreate = async () => {
+    if (!name.trim()) return;
+    setCreating(true);
+    setError(null);
+    try {
+      if (demoMode) {
+        const key = `lzp_${Math.random().toString(16).slice(2).padEnd(48, '0')}`;
+        setKeys([{ id: `demo-${Date.now()}`, name: name.trim(), prefix: key.slice(0, 10), lastUsedAt: null, createdAt: new Date().toISOString() }, ...keys]);
+        setNewKey(key);
+      } else {
+        const { apiKey, key } = await authService.createApiKey(name.trim());
+        setKeys([apiKey, ...keys]);
+        setNewKey(key);
+      }
+      setName('');
+      setCopied(false);
+    } catch {
+      setError('Failed to create API key');
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleRevoke = async (id: string) => {
+    if (!confirm('Revoke this API key? Slicers using it will stop working.')) return;
+    try {
+      if (!demoMode) await authService.revokeApiKey(id);
+      setKeys(keys.filter((k) => k.id !== id));
+    } catch {
+      setError('Failed to revoke API key');
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!newKey) return;
+    await navigator.clipboard.writeText(newKey);
+    setCopied(true);
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0, y: 20 }}
+      animate={{ opacity: 1, y: 0 }}
+      transition={{ duration: 0.3 }}
+      className="space-y-6"
+    >
+      {/* Header */}
+      <div>
+        <h3 className="text-lg font-medium text-gray-900 mb-2">API Keys</h3>
+        <p className="text-sm text-gray-500">
+          Send prints straight from PrusaSlicer, OrcaSlicer or Cura: add an OctoPrint printer with host{' '}
+          <code className="px-1 py-0.5 bg-gray-100 rounded text-gray-800">{OCTOPRINT_URL}</code> and one of your keys.
+        </p>
+      </div>
+
+      {error && (
+        <div className="p-4 rounded-lg border bg-red-50 border-red-200 text-red-800 flex items-center space-x-2">
+          <AlertTriangle className="w-5 h-5" />
+          <span className="text-sm font-medium">{error}</span>
+        </div>
+      )}
+
+      {/* New key, shown once */}
+      {newKey && (
+        <motion.div
+          initial={{ opacity: 0, y: -20 }}
+          animate={{ opacity: 1, y: 0 }}
+          className="p-4 rounded-lg border bg-green-50 border-green-200"
+        >
+          <div className="flex items-center space-x-2 text-green-800 mb-2">
+            <CheckCircle className="w-5 h-5" />
+            <span className="text-sm font-medium">Copy this key now; it will not be shown again.</span>
+          </div>
+          <div className="flex items-center space-x-2">
+            <code className="flex-1 px-3 py-2 bg-white border border-green-200 rounded text-sm text-gray-900 break-all">{newKey}</code>
+            <Button variant="secondary" size="sm" onClick={handleCopy} className="flex items-center space-x-1">
+              <Copy className="w-4 h-4" />
+              <span>{copied ? 'Copied' : 'Copy'}</span>
+            </Button>
+          </div>
+        </motion.div>
+      )}
+
+      {/* Create */}
+      <div className="flex items-end space-x-3">
+        <div className="flex-1">
+          <Input
+            label="Key name"
+            placeholder="e.g. PrusaSlicer on workstation"
+            value={name}
+            maxLength={64}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+          />
+        </div>
+        <Button variant="primary" onClick={handleCreate} disabled={creating || !name.trim()} className="flex items-center space-x-2">
+          <Plus className="w-4 h-4" />
+          <span>{creating ? 'Creating...' : 'Create Key'}</span>
+        </Button>
+      </div>
+
+      {/* List */}
+      <div className="border border-gray-200 rounded-lg divide-y divide-gray-200">
+        {keys.length === 0 && <p className="p-4 text-sm text-gray-500">No API keys yet.</p>}
+        {keys.map((apiKey) => (
+          <div key={apiKey.id} className="flex items-center justify-between p-4">
+            <div className="flex items-center space-x-3">
+              <div className="p-2 bg-blue-100 rounded-lg">
+                <Key className="w-4 h-4 text-blue-600" />
+              </div>
+              <div>
+                <p className="text-sm font-medium text-gray-900">{apiKey.name}</p>
+                <p className="text-xs text-gray-500">
+                  <code>{apiKey.prefix}…</code> · created {new Date(apiKey.createdAt).toLocaleDateString()} ·{' '}
+                  {apiKey.lastUsedAt ? `last used ${new Date(apiKey.lastUsedAt).toLocaleString()}` : 'never used'}
+                </p>
+              </div>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => handleRevoke(apiKey.id)} className="flex items-center space-x-1 text-red-600">
+              <Trash2 className="w-4 h-4" />
+              <span>Revoke</span>
+            </Button>
+          </div>
+        ))}
+      </div>
+    </motion.div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { motion } from 'framer-motion';
 import { 
   Settings, 
@@ -12,6 +12,8 @@ import {
   CheckCircle 
 } from 'lucide-react';
 import Button from '@/components/ui/Button';
+import { usePrinterStore } from '@/stores/printerStore';
+import type { FirmwareCapabilities } from '@/services/printerService';
 
 interface CalibrationSettingsProps {
   calibration: {
@@ -46,6 +48,15 @@ export default function CalibrationSettings({
   demoMode = false 
 }: CalibrationSettingsProps) {
   const [runningCalibration, setRunningCalibration] = useState<string | null>(null);
+  const { firmware, loaded, loadFirmware } = usePrinterStore();
+
+  useEffect(() => {
+    if (!demoMode && !loaded) loadFirmware();
+  }, [demoMode, loaded, loadFirmware]);
+
+  // Everything stays available in demo mode and until the firmware has reported its capabilities
+  const supports = (capability: keyof FirmwareCapabilities) =>
+    demoMode || !firmware || firmware.capabilities[capability];
 
   const updateCalibration = (field: string, value: any) => {
     onCalibrationChange({
@@ -106,7 +117,7 @@ export default function CalibrationSettings({
     { value: 'manual', label: 'Manual', description: 'Manual bed leveling with knobs' },
     { value: 'auto', label: 'Auto', description: 'Automatic bed leveling (ABL)' },
     { value: 'ubl', label: 'UBL', description: 'Unified Bed Leveling' },
-  ];
+  ].filter((option) => option.value === 'manual' || supports('autoLevel'));
 
   return (
     <motion.div
@@ -182,15 +193,17 @@ export default function CalibrationSettings({
             </p>
           </div>
 
-          <Button
-            variant="secondary"
-            onClick={() => handleRunCalibration('bed-leveling')}
-            disabled={runningCalibration !== null}
-            className="w-full"
-          >
-            <Play className="w-4 h-4 mr-2" />
-            {runningCalibration === 'bed-leveling' ? 'Running Bed Leveling...' : 'Run Bed Leveling'}
-          </Button>
+          {supports('autoLevel') && (
+            <Button
+              variant="secondary"
+              onClick={() => handleRunCalibration('bed-leveling')}
+              disabled={runningCalibration !== null}
+              className="w-full"
+            >
+              <Play className="w-4 h-4 mr-2" />
+              {runningCalibration === 'bed-leveling' ? 'Running Bed Leveling...' : 'Run Bed Leveling'}
+            </Button>
+          )}
         </div>
       </div>
 
@@ -221,15 +234,17 @@ export default function CalibrationSettings({
                 </div>
               ))}
             </div>
-            <Button
-              variant="secondary"
-              onClick={() => handleRunCalibration('pid-hotend')}
-              disabled={runningCalibration !== null}
-              className="w-full"
-            >
-              <Zap className="w-4 h-4 mr-2" />
-              {runningCalibration === 'pid-hotend' ? 'Tuning Hotend PID...' : 'Auto-tune Hotend PID'}
-            </Button>
+            {supports('pidTuning') && (
+              <Button
+                variant="secondary"
+                onClick={() => handleRunCalibration('pid-hotend')}
+                disabled={runningCalibration !== null}
+                className="w-full"
+              >
+                <Zap className="w-4 h-4 mr-2" />
+                {runningCalibration === 'pid-hotend' ? 'Tuning Hotend PID...' : 'Auto-tune Hotend PID'}
+              </Button>
+            )}
           </div>
 
           {/* Bed PID */}
@@ -251,60 +266,64 @@ export default function CalibrationSettings({
                 </div>
               ))}
             </div>
-            <Button
-              variant="secondary"
-              onClick={() => handleRunCalibration('pid-bed')}
-              disabled={runningCalibration !== null}
-              className="w-full"
-            >
-              <Zap className="w-4 h-4 mr-2" />
-              {runningCalibration === 'pid-bed' ? 'Tuning Bed PID...' : 'Auto-tune Bed PID'}
-            </Button>
+            {supports('pidTuning') && (
+              <Button
+                variant="secondary"
+                onClick={() => handleRunCalibration('pid-bed')}
+                disabled={runningCalibration !== null}
+                className="w-full"
+              >
+                <Zap className="w-4 h-4 mr-2" />
+                {runningCalibration === 'pid-bed' ? 'Tuning Bed PID...' : 'Auto-tune Bed PID'}
+              </Button>
+            )}
           </div>
         </div>
       </div>
 
       {/* Steps per mm */}
-      <div className="bg-white border border-gray-200 rounded-lg p-6">
-        <div className="flex items-center space-x-2 mb-4">
-          <Settings className="w-5 h-5 text-green-600" />
-          <h3 className="text-lg font-medium text-gray-900">Steps per Millimeter</h3>
-        </div>
-        
-        <div className="space-y-4">
-          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
-            {(['x', 'y', 'z', 'e'] as const).map((axis) => (
-              <div key={axis}>
-                <label className="block text-sm font-medium text-gray-700 mb-2">
-                  {axis.toUpperCase()} Axis
-                </label>
-                <input
-                  type="number"
-                  step="0.1"
-                  value={calibration.stepsPerMm[axis]}
-                  onChange={(e) => updateStepsPerMm(axis, Number(e.target.value))}
-                  className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
-                />
-              </div>
-            ))}
+      {supports('stepsPerUnit') && (
+        <div className="bg-white border border-gray-200 rounded-lg p-6">
+          <div className="flex items-center space-x-2 mb-4">
+            <Settings className="w-5 h-5 text-green-600" />
+            <h3 className="text-lg font-medium text-gray-900">Steps per Millimeter</h3>
           </div>
-
-          <Button
-            variant="secondary"
-            onClick={() => handleRunCalibration('esteps')}
-            disabled={runningCalibration !== null}
-            className="w-full"
-          >
-            <CheckCircle className="w-4 h-4 mr-2" />
-            {runningCalibration === 'esteps' ? 'Calibrating E-Steps...' : 'Calibrate E-Steps'}
-          </Button>
           
-          <p className="text-sm text-gray-500">
-            E-steps calibration will extrude filament to measure accuracy. 
-            Ensure filament is loaded and hotend is heated.
-          </p>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {(['x', 'y', 'z', 'e'] as const).map((axis) => (
+                <div key={axis}>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">
+                    {axis.toUpperCase()} Axis
+                  </label>
+                  <input
+                    type="number"
+                    step="0.1"
+                    value={calibration.stepsPerMm[axis]}
+                    onChange={(e) => updateStepsPerMm(axis, Number(e.target.value))}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+                  />
+                </div>
+              ))}
+            </div>
+
+            <Button
+              variant="secondary"
+              onClick={() => handleRunCalibration('esteps')}
+              disabled={runningCalibration !== null}
+              className="w-full"
+            >
+              <CheckCircle className="w-4 h-4 mr-2" />
+              {runningCalibration === 'esteps' ? 'Calibrating E-Steps...' : 'Calibrate E-Steps'}
+            </Button>
+            
+            <p className="text-sm text-gray-500">
+              E-steps calibration will extrude filament to measure accuracy. 
+              Ensure filament is loaded and hotend is heated.
+            </p>
+          </div>
         </div>
-      </div>
+      )}
 
       {/* Calibration Status */}
       {runningCalibration && (
@@ -10,7 +10,8 @@ import {
   Thermometer, 
   Save, 
   Download, 
-  Shield
+  Shield,
+  Key
 } from 'lucide-react';
 
 // Import new component modules
@@ -19,6 +20,7 @@ import TemperatureProfiles, { type TemperatureProfile } from './TemperatureProfi
 import UserPreferences from './UserPreferences';
 import CalibrationSettings from './CalibrationSettings';
 import BackupSettings from './BackupSettings';
+import ApiKeySettings from './ApiKeySettings';
 import ProfileModal from './ProfileModal';
 
 interface PrinterSettings {
@@ -117,7 +119,7 @@ interface SettingsManagementProps {
 
 export default function SettingsManagement({ demoMode = false }: SettingsManagementProps) {
   const [settings, setSettings] = useState<PrinterSettings | null>(null);
-  const [activeTab, setActiveTab] = useState<'printer' | 'profiles' | 'preferences' | 'calibration' | 'backup'>('printer');
+  const [activeTab, setActiveTab] = useState<'printer' | 'profiles' | 'preferences' | 'calibration' | 'backup' | 'apiKeys'>('printer');
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [editingProfile, setEditingProfile] = useState<TemperatureProfile | null>(null);
@@ -350,6 +352,7 @@ export default function SettingsManagement({ demoMode = false }: SettingsManagem
                 { id: 'preferences', label: 'Preferences', icon: Settings },
                 { id: 'calibration', label: 'Calibration', icon: Shield },
                 { id: 'backup', label: 'Backup', icon: Download },
+                { id: 'apiKeys', label: 'API Keys', icon: Key },
               ].map((tab, index) => {
                 const IconComponent = tab.icon;
                 return (
@@ -450,6 +453,9 @@ export default function SettingsManagement({ demoMode = false }: SettingsManagem
             demoMode={demoMode}
           />
         )}
+
+        {/* API Keys Tab */}
+        {activeTab === 'apiKeys' && <ApiKeySettings demoMode={demoMode} />}
           </motion.div>
 
           {/* Enhanced Save Button */}
@@ -27,6 +27,14 @@ interface AuthResponse {
   };
 }
 
+export interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  lastUsedAt: string | null;
+  createdAt: string;
+}
+
 interface RefreshRequest {
   refreshToken: string;
 }
@@ -82,6 +90,21 @@ export const authService = {
     const response = await apiClient.get('/auth/profile');
     return response.data;
   },
+
+  async listApiKeys(): Promise<ApiKey[]> {
+    const response = await apiClient.get('/auth/api-keys');
+    return response.data.apiKeys;
+  },
+
+  // The returned key is only shown once
+  async createApiKey(name: string): Promise<{ apiKey: ApiKey; key: string }> {
+    const response = await apiClient.post('/auth/api-keys', { name });
+    return response.data;
+  },
+
+  async revokeApiKey(id: string): Promise<void> {
+    await apiClient.delete(`/auth/api-keys/${id}`);
+  },
 };
 
 export default authService;
\ No newline at end of file
@@ -0,0 +1,80 @@
+import { api } from '@/services/api';
+
+export interface JobCheckpoint {
+  offset: number;
+  layer: number;
+  z?: number;
+  progress: number;
+  temperatures: {
+    hotendTarget?: number;
+    bedTarget?: number;
+    chamberTarget?: number;
+  };
+  savedAt: string;
+  interrupted?: boolean;
+  reason?: string;
+}
+
+export interface InterruptedJob {
+  id: string;
+  status: string;
+  progress: number;
+  checkpoint: JobCheckpoint;
+  updatedAt: string;
+  file: {
+    id: string;
+    originalName: string;
+    fileType: string;
+    fileSize: number;
+  };
+}
+
+export interface RecoveryPlan {
+  jobId: string;
+  fileName: string;
+  checkpoint: JobCheckpoint;
+  resumeOffset: number;
+  resumeLayer: number;
+  totalBytes: number;
+  totalLayers?: number;
+  skipped: {
+    bytes: number;
+    percent: number;
+    layers: number;
+    commands: number;
+  };
+  state: {
+    z?: number;
+    e: number;
+    feedrate?: number;
+    hotendTarget?: number;
+    bedTarget?: number;
+    fanSpeed: number;
+    layer: number;
+  };
+  commands: string[];
+  nextCommands: string[];
+}
+
+class JobService {
+  async getInterruptedJobs(): Promise<InterruptedJob[]> {
+    const response = await api.get('/jobs/recovery');
+    return response.data.data.jobs;
+  }
+
+  async getRecoveryPlan(jobId: string, layer?: number): Promise<RecoveryPlan> {
+    const response = await api.get(`/jobs/${jobId}/recovery`, { params: { layer } });
+    return response.data.data;
+  }
+
+  async resumeInterruptedJob(jobId: string, layer?: number): Promise<RecoveryPlan> {
+    const response = await api.post(`/jobs/${jobId}/recovery/resume`, { layer });
+    return response.data.data;
+  }
+
+  async abandonInterruptedJob(jobId: string): Promise<void> {
+    await api.post(`/jobs/${jobId}/recovery/abandon`);
+  }
+}
+
+export const jobService = new JobService();
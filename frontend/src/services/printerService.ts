@@ -0,0 +1,198 @@
+import { api } from '@/services/api';
+
+export type FirmwareFlavor = 'marlin' | 'prusa' | 'klipper' | 'reprapfirmware' | 'unknown';
+
+export interface FirmwareCapabilities {
+  autoreportTemp: boolean;
+  autoreportPosition: boolean;
+  emergencyParser: boolean;
+  hostActionCommands: boolean;
+  promptSupport: boolean;
+  chamberTemperature: boolean;
+  autoLevel: boolean;
+  zProbe: boolean;
+  eeprom: boolean;
+  sdCard: boolean;
+  runout: boolean;
+  pidTuning: boolean;
+  stepsPerUnit: boolean;
+}
+
+export interface FirmwareInfo {
+  name: string;
+  flavor: FirmwareFlavor;
+  version?: string;
+  machineType?: string;
+  protocolVersion?: string;
+  extruderCount?: number;
+  uuid?: string;
+  fields: Record<string, string>;
+  flags: Record<string, boolean>;
+  capabilities: FirmwareCapabilities;
+}
+
+export interface PrinterConnection {
+  connected: boolean;
+  path: string | null;
+  baudRate: number | null;
+  firmware: FirmwareInfo | null;
+  reconnecting: { attempt: number; nextAttemptAt: string } | null;
+}
+
+export interface PortCandidate {
+  path: string;
+  manufacturer?: string;
+  vendorId?: string;
+  productId?: string;
+  serialNumber?: string;
+  virtual?: boolean;
+}
+
+export interface ProbeResult {
+  path: string;
+  baudRate: number | null;
+  firmware: FirmwareInfo | null;
+  connected?: boolean;
+  error?: string;
+}
+
+export interface PrinterTemperatures {
+  hotendTemp?: number;
+  hotendTarget?: number;
+  bedTemp?: number;
+  bedTarget?: number;
+  chamberTemp?: number;
+  chamberTarget?: number;
+}
+
+export interface PrinterStatus {
+  printerId: string;
+  name: string;
+  state: 'idle' | 'printing' | 'paused' | 'error';
+  error?: string;
+  temperatures: PrinterTemperatures;
+  currentJob: {
+    id: string;
+    progress: number;
+    layer?: number;
+    totalLayers?: number;
+    remainingTime?: number; // seconds
+  } | null;
+  connected: boolean;
+}
+
+// A file on the printer's own SD card, as listed by M20
+export interface SdFile {
+  name: string;
+  size?: number;
+}
+
+export interface HostPrompt {
+  message: string;
+  choices: string[];
+  shownAt: string;
+}
+
+// Probing tries several baud rates per port, each waiting a few seconds for the board to reset
+const PROBE_TIMEOUT_MS = 120000;
+
+class PrinterService {
+  async getStatus(): Promise<PrinterStatus> {
+    const response = await api.get('/printer/status');
+    return response.data.data;
+  }
+
+  // Firmware reply to a G-code; without `wait` the command is only queued
+  async sendCommand(command: string, wait = true): Promise<string> {
+    const response = await api.post('/printer/command', { command, wait });
+    return response.data.data.response ?? '';
+  }
+
+  async setTemperature(targets: { hotend?: number; bed?: number; chamber?: number }): Promise<void> {
+    await api.post('/printer/temperature', targets);
+  }
+
+  async pause(): Promise<void> {
+    await api.post('/printer/pause');
+  }
+
+  async resume(): Promise<void> {
+    await api.post('/printer/resume');
+  }
+
+  async cancel(): Promise<void> {
+    await api.post('/printer/cancel');
+  }
+
+  // Probes the bed; leveling takes longer than a command may wait, so it is only queued
+  async autoLevel(): Promise<void> {
+    await this.sendCommand('G28', false);
+    await this.sendCommand('G29', false);
+  }
+
+  // M20 lists "NAME.GCO 12345" lines between "Begin file list" and "End file list"
+  async listSdFiles(): Promise<SdFile[]> {
+    await this.sendCommand('M21');
+    const lines = (await this.sendCommand('M20')).split('\n').map((line) => line.trim());
+    const begin = lines.findIndex((line) => /^begin file list/i.test(line));
+    const end = lines.findIndex((line) => /^end file list/i.test(line));
+    return lines
+      .slice(begin + 1, end === -1 ? undefined : end)
+      .filter((line) => line && !/^(ok|echo:)/i.test(line))
+      .map((line) => {
+        const [name, size] = line.split(/\s+/);
+        return { name, size: size ? Number(size) : undefined };
+      });
+  }
+
+  async printFromSd(name: string): Promise<void> {
+    await this.sendCommand(`M23 ${name}`);
+    await this.sendCommand('M24');
+  }
+
+  // M412 answers "Filament runout ON" or "OFF"; null when the reply has neither
+  async getRunoutDetection(): Promise<boolean | null> {
+    const match = (await this.sendCommand('M412')).match(/runout\s+(ON|OFF)/i);
+    return match ? match[1].toUpperCase() === 'ON' : null;
+  }
+
+  async setRunoutDetection(enabled: boolean): Promise<void> {
+    await this.sendCommand(`M412 S${enabled ? 1 : 0}`);
+  }
+
+  async getConnection(): Promise<PrinterConnection> {
+    const response = await api.get('/printer/connection');
+    return response.data.data;
+  }
+
+  async listPorts(): Promise<PortCandidate[]> {
+    const response = await api.get('/printer/ports');
+    return response.data.data.ports;
+  }
+
+  async probePorts(path?: string): Promise<ProbeResult[]> {
+    const response = await api.post('/printer/ports/probe', { path }, { timeout: PROBE_TIMEOUT_MS });
+    return response.data.data.results;
+  }
+
+  async connect(path?: string, baudRate?: number, save = true): Promise<PrinterConnection> {
+    const response = await api.post('/printer/connect', { path, baudRate, save }, { timeout: PROBE_TIMEOUT_MS });
+    return response.data.data;
+  }
+
+  async disconnect(): Promise<PrinterConnection> {
+    const response = await api.post('/printer/disconnect');
+    return response.data.data;
+  }
+
+  async getPrompt(): Promise<HostPrompt | null> {
+    const response = await api.get('/printer/prompt');
+    return response.data.data.prompt;
+  }
+
+  async answerPrompt(choice: number): Promise<void> {
+    await api.post('/printer/prompt', { choice });
+  }
+}
+
+export const printerService = new PrinterService();
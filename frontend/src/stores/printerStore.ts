@@ -0,0 +1,30 @@
+import { create } from 'zustand';
+import { printerService, FirmwareInfo } from '@/services/printerService';
+
+interface PrinterState {
+  // null until the printer has answered M115; controls stay visible while unknown
+  firmware: FirmwareInfo | null;
+  loaded: boolean;
+
+  // Actions
+  loadFirmware: () => Promise<void>;
+  setFirmware: (firmware: FirmwareInfo | null) => void;
+}
+
+export const usePrinterStore = create<PrinterState>()((set) => ({
+  firmware: null,
+  loaded: false,
+
+  loadFirmware: async () => {
+    try {
+      const connection = await printerService.getConnection();
+      set({ firmware: connection.firmware, loaded: true });
+    } catch {
+      set({ firmware: null, loaded: true });
+    }
+  },
+
+  setFirmware: (firmware) => {
+    set({ firmware, loaded: true });
+  },
+}));